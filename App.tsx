@@ -1,12 +1,27 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { Person, Balance, User } from './types';
+import { Person, User, Expense, DBMember, Deposit, GuestMeal, FixedCost, MealEntry, MealType, BillingCycle, Payment, SettlementTransfer, MoneySettings, SheetCell, SheetDiagnostics, SheetLayout, SheetSource, SyncDiff, SyncLimits } from './types';
 import { Dashboard } from './components/Dashboard';
 import { DataEntry } from './components/DataEntry';
 import { NotificationCenter } from './components/NotificationCenter';
 import { Login } from './components/Login';
 import { MemberManager } from './components/MemberManager';
-import { fetchSheetData } from './services/sheetService';
+import { AuditLog } from './components/AuditLog';
+import { ExpenseLedger } from './components/ExpenseLedger';
+import { DepositLedger } from './components/DepositLedger';
+import { GuestMealLedger } from './components/GuestMealLedger';
+import { MealLog } from './components/MealLog';
+import { FixedCostPanel } from './components/FixedCostPanel';
+import { GroupSwitcher } from './components/GroupSwitcher';
+import { MemberPortal } from './components/MemberPortal';
+import { SyncPreview } from './components/SyncPreview';
+import { fetchSheetData, fetchSheetsApiData, parseSheetCells, SheetResult, spreadsheetUrl } from './services/sheetService';
 import { dbService } from './services/dbService';
+import { applyDeposits, applyFixedCosts, applyGuestMeals, applyOpeningBalances, applyPayments, buildLedgerPeople, carriedOpeningBalances, paymentsSinceSync } from './services/ledgerService';
+import { MESS_FUND } from './services/settlementService';
+import { calculateBalances } from './services/balanceService';
+import { DEFAULT_MONEY_SETTINGS } from './services/currencyService';
+import { forecastCycle } from './services/forecastService';
+import { diffSync, hasSyncChanges, DEFAULT_SYNC_LIMITS } from './services/syncDiffService';
 import { getApiUrl } from './config/api';
 
 const App: React.FC = () => {
@@ -18,9 +33,28 @@ const App: React.FC = () => {
   const [isSyncing, setIsSyncing] = useState(false);
   const [lastSheetUrl, setLastSheetUrl] = useState('');
   const [sheetMealRate, setSheetMealRate] = useState<number | null>(null);
+  const [sheetSyncedAt, setSheetSyncedAt] = useState<string | null>(null); // When the saved sheet data was read
+  const [syncLimits, setSyncLimits] = useState<SyncLimits>(DEFAULT_SYNC_LIMITS);
+  const [sheetLayout, setSheetLayout] = useState<SheetLayout | null>(null);
+  const [sheetSource, setSheetSource] = useState<SheetSource>('csv');
+  const [sheetDiagnostics, setSheetDiagnostics] = useState<SheetDiagnostics | null>(null);
+
+  // Native Ledger (used when no sheet is linked)
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [deposits, setDeposits] = useState<Deposit[]>([]);
+  const [guestMeals, setGuestMeals] = useState<GuestMeal[]>([]);
+  const [mealEntries, setMealEntries] = useState<MealEntry[]>([]);
+  const [mealTypes, setMealTypes] = useState<MealType[]>([]);
+  const [fixedCosts, setFixedCosts] = useState<FixedCost[]>([]);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [cycles, setCycles] = useState<BillingCycle[]>([]);
+  const [members, setMembers] = useState<DBMember[]>([]);
+  const [money, setMoney] = useState<MoneySettings>(DEFAULT_MONEY_SETTINGS);
 
   // UI State
   const [showMemberManager, setShowMemberManager] = useState(false);
+  const [showAuditLog, setShowAuditLog] = useState(false);
+  const [syncPreview, setSyncPreview] = useState<{ diff: SyncDiff; resolve: (confirmed: boolean) => void } | null>(null);
 
   // --- PERSISTENCE: Check for existing session ---
   useEffect(() => {
@@ -38,13 +72,17 @@ const App: React.FC = () => {
               id: data.user._id,
               email: data.user.email,
               name: data.user.name,
-              photoURL: data.user.photoURL
+              photoURL: data.user.photoURL,
+              role: data.user.role
             };
             setUser(authenticatedUser);
             localStorage.setItem('mealshare_user', JSON.stringify(authenticatedUser));
 
-            // Load saved synced data after authentication
-            loadSyncedData();
+            // Load saved synced data after authentication (members use the portal instead)
+            if (authenticatedUser.role !== 'member') {
+              loadSyncedData();
+              loadLedger();
+            }
           }
         } else {
           // Clear localStorage if backend session is invalid
@@ -56,9 +94,13 @@ const App: React.FC = () => {
         // Try localStorage as fallback
         const savedUser = localStorage.getItem('mealshare_user');
         if (savedUser) {
-          setUser(JSON.parse(savedUser));
+          const parsedUser: User = JSON.parse(savedUser);
+          setUser(parsedUser);
           // Still try to load synced data
-          loadSyncedData();
+          if (parsedUser.role !== 'member') {
+            loadSyncedData();
+            loadLedger();
+          }
         }
       }
     };
@@ -82,15 +124,54 @@ const App: React.FC = () => {
         if (data.sheetMealRate !== null && data.sheetMealRate !== undefined) {
           setSheetMealRate(data.sheetMealRate);
         }
-        if (data.csvUrl) {
+        setSheetSyncedAt(data.syncedAt || null);
+        if (data.sheetSource === 'api' && data.sheetsApi?.spreadsheetId) {
+          setLastSheetUrl(spreadsheetUrl(data.sheetsApi.spreadsheetId));
+        } else if (data.csvUrl) {
           setLastSheetUrl(data.csvUrl);
         }
+        setSheetSource(data.sheetSource || 'csv');
+        if (data.syncLimits) {
+          setSyncLimits(data.syncLimits);
+        }
+        setSheetLayout(data.sheetLayout || null);
       }
     } catch (error) {
       console.error('Error loading synced data:', error);
     }
   };
 
+  // Load expense, deposit, meal, guest meal, fixed cost and payment ledgers, billing cycles, members
+  // and the active group's currency settings from database
+  const loadLedger = async () => {
+    const [ledgerExpenses, ledgerDeposits, ledgerGuestMeals, ledgerMeals, groupMealTypes, cycleFixedCosts, settlementPayments, billingCycles, dbMembers, groups] = await Promise.all([
+      dbService.getExpenses(),
+      dbService.getDeposits(),
+      dbService.getGuestMeals(),
+      dbService.getMeals(),
+      dbService.getMealTypes(),
+      dbService.getFixedCosts(),
+      dbService.getPayments(),
+      dbService.getCycles(),
+      dbService.getMembers(),
+      dbService.getGroups()
+    ]);
+    setExpenses(ledgerExpenses);
+    setDeposits(ledgerDeposits);
+    setGuestMeals(ledgerGuestMeals);
+    setMealEntries(ledgerMeals);
+    setMealTypes(groupMealTypes);
+    setFixedCosts(cycleFixedCosts);
+    setPayments(settlementPayments);
+    setCycles(billingCycles);
+    setMembers(dbMembers);
+
+    const activeGroup = groups.find(g => g.isActive);
+    if (activeGroup) {
+      setMoney({ currency: activeGroup.currency, locale: activeGroup.locale });
+    }
+  };
+
   const handleLogin = (newUser: User) => {
     setUser(newUser);
     localStorage.setItem('mealshare_user', JSON.stringify(newUser));
@@ -109,64 +190,138 @@ const App: React.FC = () => {
       setUser(null);
       localStorage.removeItem('mealshare_user');
       setPeople([]);
+      setExpenses([]);
+      setDeposits([]);
+      setGuestMeals([]);
+      setMealEntries([]);
+      setFixedCosts([]);
+      setPayments([]);
+      setCycles([]);
+      setMembers([]);
     }
   };
 
-  // --- CORE LOGIC: Meal Rate Calculation ---
-  const { balances, totalCost, totalMeals, mealRate } = useMemo(() => {
-    const totalC = people.reduce((sum, p) => sum + p.contribution, 0);
-    const totalM = people.reduce((sum, p) => sum + p.meals, 0);
-
-    // Priority: 1. Rate from Sheet, 2. Calculated Rate
-    const rate = sheetMealRate !== null && sheetMealRate > 0
-      ? sheetMealRate
-      : (totalM > 0 ? totalC / totalM : 0);
-
-    const calculatedBalances: Balance[] = people.map(person => {
-      const cost = person.meals * rate;
-      const balance = person.customBalance !== undefined
-        ? person.customBalance
-        : (person.contribution - cost);
-
-      let status: Balance['status'] = 'SETTLED';
-      if (balance > 1) status = 'OWED';
-      if (balance < -1) status = 'OWES';
-
-      return {
-        personId: person.id,
-        name: person.name,
-        meals: person.meals,
-        contribution: person.contribution,
-        cost,
-        balance,
-        status
-      };
-    }).sort((a, b) => a.balance - b.balance);
+  // Only ledger entries of the open billing cycle count towards the current balances
+  const currentCycle = useMemo(() => cycles.find(c => c.status === 'open') || null, [cycles]);
 
+  const { cycleExpenses, cycleDeposits, cycleGuestMeals, cycleMealEntries, cyclePayments } = useMemo(() => {
+    const since = currentCycle ? new Date(currentCycle.startDate).getTime() : -Infinity;
     return {
-      balances: calculatedBalances,
-      totalCost: totalC,
-      totalMeals: totalM,
-      mealRate: rate
+      cycleExpenses: expenses.filter(e => new Date(e.date).getTime() >= since),
+      cycleDeposits: deposits.filter(d => new Date(d.date).getTime() >= since),
+      cycleGuestMeals: guestMeals.filter(g => new Date(g.date).getTime() >= since),
+      cycleMealEntries: mealEntries.filter(m => new Date(m.date).getTime() >= since),
+      cyclePayments: payments.filter(p => new Date(p.date).getTime() >= since)
     };
-  }, [people, sheetMealRate]);
+  }, [expenses, deposits, guestMeals, mealEntries, payments, currentCycle]);
+
+  // Balances come from the sheet when one is linked or a file was uploaded
+  const isSheetDriven = !!lastSheetUrl || sheetSource === 'upload';
+
+  // Without a linked sheet, members, their bazar and their weighted meals come from the native ledger.
+  // Recorded deposits always take over a member's contribution, guest meals are charged to the host
+  // and the cycle's fixed costs are split on top of the meal cost. Recorded settlement payments
+  // move money between members without touching the meal rate.
+  const activePeople = useMemo<Person[]>(() => {
+    const basePeople = isSheetDriven
+      ? applyDeposits(people, cycleDeposits)
+      : buildLedgerPeople(
+        members.map(m => ({ id: m._id, name: m.sheetName, email: m.email })),
+        cycleExpenses,
+        cycleDeposits,
+        cycleMealEntries
+      );
+
+    const chargedPeople = applyFixedCosts(applyGuestMeals(basePeople, cycleGuestMeals), fixedCosts);
+    // Payments recorded before the sheet was last read are expected to be in it already
+    const settledPeople = applyPayments(chargedPeople, isSheetDriven ? paymentsSinceSync(cyclePayments, sheetSyncedAt) : cyclePayments);
+    // Sheet data read before the cycle opened already includes the carried-forward balances
+    return applyOpeningBalances(settledPeople, carriedOpeningBalances(currentCycle, isSheetDriven ? sheetSyncedAt : undefined));
+  }, [isSheetDriven, people, sheetSyncedAt, members, cycleExpenses, cycleDeposits, cycleGuestMeals, cycleMealEntries, fixedCosts, cyclePayments, currentCycle]);
+
+  // Everyone who can be picked in the ledgers: sheet people plus registered members
+  const memberNames = useMemo(
+    () => Array.from(new Set([...people.map(p => p.name), ...members.map(m => m.sheetName)])),
+    [people, members]
+  );
+
+  // --- CORE LOGIC: Meal Rate Calculation ---
+  const { balances, totalCost, totalFixed, totalMeals, mealRate } = useMemo(() => calculateBalances(activePeople, {
+    sheetMealRate,
+    // Ledger mode: total cost is what was actually spent, not what was paid in
+    totalCost: isSheetDriven ? undefined : cycleExpenses.reduce((sum, e) => sum + e.amount, 0)
+  }), [activePeople, cycleExpenses, isSheetDriven, sheetMealRate]);
+
+  // Month-end projection from the dated spend and meals of the cycle; a linked sheet has no dated spend
+  const forecast = useMemo(() => {
+    const now = new Date();
+    return forecastCycle({
+      balances,
+      totalCost,
+      totalMeals,
+      cycleStart: currentCycle ? currentCycle.startDate : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+      spend: isSheetDriven ? [] : cycleExpenses.map(e => ({ date: e.date, amount: e.amount })),
+      meals: [
+        ...cycleMealEntries.map(m => ({ date: m.date, amount: m.meals })),
+        ...cycleGuestMeals.map(g => ({ date: g.date, amount: g.meals * g.multiplier }))
+      ]
+    });
+  }, [balances, totalCost, totalMeals, currentCycle, isSheetDriven, cycleExpenses, cycleMealEntries, cycleGuestMeals]);
+
+  // --- BILLING CYCLES ---
+  const handleOpenCycle = async () => {
+    try {
+      await dbService.openCycle();
+      await loadLedger();
+    } catch (e: any) {
+      alert(e.message || "Failed to open billing cycle.");
+    }
+  };
+
+  const handleCloseCycle = async () => {
+    if (!currentCycle) return;
+    if (!confirm(`Close ${currentCycle.label}? Its meal rate and balances will be frozen and carried forward.`)) return;
+
+    try {
+      await dbService.closeCycle(currentCycle.id, true);
+      await loadLedger();
+    } catch (e: any) {
+      alert(e.message || "Failed to close billing cycle.");
+    }
+  };
+
+  // --- SETTLEMENTS ---
+  const handleRecordPayment = async (transfer: SettlementTransfer) => {
+    await dbService.recordPayment({
+      fromName: transfer.from === MESS_FUND ? undefined : transfer.from,
+      toName: transfer.to === MESS_FUND ? undefined : transfer.to,
+      amount: transfer.amount
+    });
+    await loadLedger();
+  };
 
   // --- SYNC LOGIC ---
-  const handleSyncSheet = async (url: string) => {
+  // Show the sync preview and wait for the user to confirm or cancel it
+  const confirmSync = (diff: SyncDiff) =>
+    new Promise<boolean>(resolve => setSyncPreview({ diff, resolve }));
+
+  const closeSyncPreview = (confirmed: boolean) => {
+    syncPreview?.resolve(confirmed);
+    setSyncPreview(null);
+  };
+
+  // Fetch, preview and save sheet data; returns whether it was applied. `fileName`
+  // is set for an uploaded file, which becomes the group's source once saved.
+  const syncSheetData = async (load: () => Promise<SheetResult>, fileName?: string): Promise<boolean> => {
     setIsSyncing(true);
     try {
-      setLastSheetUrl(url);
-
       // 1. Fetch from Sheet
-      const { people: sheetPeople, hasContribution, extractedRate } = await fetchSheetData(url);
+      const { people: sheetPeople, hasContribution, extractedRate, mealEntries, deposits: sheetDeposits, anomalies, diagnostics } = await load();
+      setSheetDiagnostics(diagnostics);
 
       // 2. Fetch from Database (Contact Info)
       const dbMembers = await dbService.getMembers();
 
-      // 3. Update Meal Rate
-      if (extractedRate) setSheetMealRate(extractedRate);
-      else setSheetMealRate(null);
-
       if (sheetPeople.length > 0) {
         const updatedPeople = sheetPeople.map(sp => {
           // Map to lowercase for easy lookup
@@ -181,9 +336,19 @@ const App: React.FC = () => {
           };
         });
 
-        setPeople(updatedPeople);
+        // 3. Preview what the sync would change (or anything critical in the sheet) before anything is overwritten
+        const diff = diffSync(
+          { people, sheetMealRate },
+          { people: updatedPeople, sheetMealRate: extractedRate || null },
+          syncLimits,
+          money
+        );
+        const needsReview = hasSyncChanges(diff) || anomalies.some(a => a.severity === 'critical');
+        if (needsReview && !(await confirmSync(diff))) {
+          return false;
+        }
 
-        // 4. Save synced data to database
+        // 4. Save synced data to database; the dashboard only shows what was saved
         try {
           const API_URL = getApiUrl();
           const saveResponse = await fetch(`${API_URL}/api/sheet/save-data`, {
@@ -192,23 +357,33 @@ const App: React.FC = () => {
             credentials: 'include',
             body: JSON.stringify({
               people: updatedPeople,
-              sheetMealRate: extractedRate || null
+              sheetMealRate: extractedRate || null,
+              mealEntries,
+              deposits: sheetDeposits,
+              fileName
             })
           });
 
-          if (saveResponse.ok) {
-            const saveData = await saveResponse.json();
-          } else {
-            console.warn('⚠️ Failed to save synced data to database');
+          if (!saveResponse.ok) {
+            const error = await saveResponse.json().catch(() => ({}));
+            alert(error.error || "Failed to save the synced data. Nothing was changed.");
+            return false;
           }
+          const saved = await saveResponse.json();
+          setSheetSyncedAt(saved.syncedAt || new Date().toISOString());
         } catch (saveError) {
           console.error('Error saving synced data:', saveError);
+          alert("Failed to save the synced data. Nothing was changed.");
+          return false;
         }
 
-        const rateMsg = extractedRate ? `\nFound Meal Rate: ${extractedRate}` : '';
-        // Only alert if manual sync (hacky check: if syncing takes < 200ms it might be auto, but let's just alert always for now or silence it for auto-sync in future)
+        // 5. Update Meal Rate and people
+        setSheetMealRate(extractedRate || null);
+        setPeople(updatedPeople);
+
+        return true;
       } else {
-        alert("Found no valid data in sheet. Check the format.");
+        alert("Found no valid data in sheet. Open the parser report under the sync button to see what was read.");
       }
     } catch (e) {
       console.error(e);
@@ -216,12 +391,31 @@ const App: React.FC = () => {
     } finally {
       setIsSyncing(false);
     }
+    return false;
+  };
+
+  // `url` is the CSV link, or the spreadsheet's link when the group reads it through the Sheets API
+  const handleSyncSheet = (url: string, source: SheetSource = sheetSource): Promise<boolean> => {
+    setLastSheetUrl(url);
+    setSheetSource(source);
+
+    const parseOptions = { locale: money.locale, layout: sheetLayout };
+    return syncSheetData(() => source === 'api' ? fetchSheetsApiData(parseOptions, money) : fetchSheetData(url, parseOptions, money));
+  };
+
+  // One tab of an uploaded .xlsx, .ods or .csv file
+  const handleImportSheet = async (cells: SheetCell[][], fileName: string): Promise<boolean> => {
+    const applied = await syncSheetData(async () => parseSheetCells(cells, { locale: money.locale, layout: sheetLayout }, money), fileName);
+    if (applied) setSheetSource('upload');
+    return applied;
   };
 
   const handleRefresh = () => {
-    if (lastSheetUrl) {
+    // Uploaded files can't be fetched again
+    if (lastSheetUrl && sheetSource !== 'upload') {
       handleSyncSheet(lastSheetUrl);
     }
+    loadLedger();
   };
 
   // If not logged in, show Login
@@ -229,6 +423,11 @@ const App: React.FC = () => {
     return <Login onLogin={handleLogin} />;
   }
 
+  // Members only get their own read-only statement
+  if (user.role === 'member') {
+    return <MemberPortal user={user} onLogout={handleLogout} />;
+  }
+
   return (
     <div className="min-h-screen bg-gray-50 pb-20 font-sans">
       {/* Header */}
@@ -238,6 +437,9 @@ const App: React.FC = () => {
             <div className="flex items-center gap-2">
               <div className="w-8 h-8 bg-primary rounded-lg flex items-center justify-center text-white font-bold shadow-sm">M</div>
               <h1 className="text-xl font-bold text-gray-900 tracking-tight">MealShare AI</h1>
+              <div className="ml-4">
+                <GroupSwitcher />
+              </div>
             </div>
             <div className="flex items-center gap-4 text-sm">
               <div className="hidden md:flex items-center gap-3">
@@ -273,9 +475,9 @@ const App: React.FC = () => {
               Sync with Google Sheet and manage database contacts.
             </p>
           </div>
-          {lastSheetUrl && (
+          {isSheetDriven && (
             <div className="text-xs text-green-600 font-medium bg-green-50 px-3 py-2 rounded-lg border border-green-200">
-              ● Linked to Google Sheet
+              {sheetSource === 'upload' ? '● Using an uploaded file' : '● Linked to Google Sheet'}
             </div>
           )}
         </div>
@@ -284,20 +486,31 @@ const App: React.FC = () => {
         <Dashboard
           balances={balances}
           totalCost={totalCost}
+          totalFixed={totalFixed}
           totalMeals={totalMeals}
           mealRate={mealRate}
+          money={money}
+          forecast={forecast}
+          cycles={cycles}
+          onOpenCycle={handleOpenCycle}
+          onCloseCycle={handleCloseCycle}
+          onRecordPayment={handleRecordPayment}
         />
 
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 h-[600px]">
           {/* Left Column: Data Manager (4 cols) */}
           <div className="lg:col-span-5 h-full flex flex-col gap-4">
             <DataEntry
-              people={people}
+              people={activePeople}
               balances={balances}
+              money={money}
               onUpdatePerson={() => { }} // Disabled for sheet mode
               onAddPerson={() => { }}    // Disabled for sheet mode
               onSyncSheet={handleSyncSheet}
+              onImportSheet={handleImportSheet}
+              onSyncedDataChanged={() => { loadSyncedData(); loadLedger(); }}
               isSyncing={isSyncing}
+              diagnostics={sheetDiagnostics}
             />
 
             {/* Database Control */}
@@ -311,6 +524,17 @@ const App: React.FC = () => {
               </span>
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" /></svg>
             </button>
+
+            <button
+              onClick={() => setShowAuditLog(true)}
+              className="w-full bg-white text-slate-700 p-3 rounded-lg shadow-sm border border-gray-200 hover:bg-gray-50 transition flex items-center justify-between group"
+            >
+              <span className="flex items-center gap-2 font-semibold">
+                <svg className="w-5 h-5 text-slate-400 group-hover:text-slate-700" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" /></svg>
+                View Audit Log
+              </span>
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" /></svg>
+            </button>
           </div>
 
           {/* Right Column: Notification Logic (8 cols) */}
@@ -318,10 +542,58 @@ const App: React.FC = () => {
             <NotificationCenter
               balances={balances}
               mealRate={mealRate}
+              mealTypes={mealTypes}
+              money={money}
+              forecast={forecast}
               onRefreshData={handleRefresh}
             />
           </div>
         </div>
+
+        {/* Native Ledger */}
+        <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 mt-6">
+          <div className="lg:col-span-5">
+            <ExpenseLedger
+              expenses={cycleExpenses}
+              members={members}
+              money={money}
+              onExpensesChanged={loadLedger}
+            />
+          </div>
+          <div className="lg:col-span-7">
+            <DepositLedger
+              deposits={cycleDeposits}
+              memberNames={memberNames}
+              money={money}
+              onDepositsChanged={loadLedger}
+            />
+          </div>
+          <div className="lg:col-span-5">
+            <MealLog
+              mealEntries={[...cycleMealEntries].reverse()}
+              mealTypes={mealTypes}
+              memberNames={memberNames}
+              onMealsChanged={loadLedger}
+            />
+          </div>
+          <div className="lg:col-span-7">
+            <GuestMealLedger
+              guestMeals={cycleGuestMeals}
+              memberNames={memberNames}
+              mealRate={mealRate}
+              money={money}
+              onGuestMealsChanged={loadLedger}
+            />
+          </div>
+          <div className="lg:col-span-12">
+            <FixedCostPanel
+              fixedCosts={fixedCosts}
+              memberNames={memberNames}
+              money={money}
+              onFixedCostsChanged={loadLedger}
+            />
+          </div>
+        </div>
       </main>
 
       {/* Modals */}
@@ -331,6 +603,20 @@ const App: React.FC = () => {
           onDataChanged={handleRefresh}
         />
       )}
+      {showAuditLog && (
+        <AuditLog onClose={() => setShowAuditLog(false)} />
+      )}
+      {syncPreview && (
+        <SyncPreview
+          diff={syncPreview.diff}
+          money={money}
+          title="Review Sheet Sync"
+          description="Compared with the data synced last time. Nothing is saved until you apply it."
+          confirmLabel="Apply Sync"
+          onConfirm={() => closeSyncPreview(true)}
+          onCancel={() => closeSyncPreview(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,164 @@
+import React, { useState, useEffect } from 'react';
+import { dbService } from '../services/dbService';
+import { AuditEvent } from '../types';
+
+interface AuditLogProps {
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 50;
+
+const ACTION_FILTERS = [
+  { value: '', label: 'All changes' },
+  { value: 'member', label: 'Members' },
+  { value: 'sheet.config', label: 'Sheet link' },
+  { value: 'sheet.source', label: 'Sheet source' },
+  { value: 'sheet.data', label: 'Synced data' },
+  { value: 'sheet.scheduler', label: 'Auto-sync settings' },
+  { value: 'sheet.limits', label: 'Sync limits' },
+  { value: 'sheet.layout', label: 'Sheet layout' },
+  { value: 'notification.config', label: 'Notification settings' },
+  { value: 'notification.email', label: 'Emails sent' }
+];
+
+const ACTION_LABELS: Record<string, string> = {
+  'member.create': 'Added member',
+  'member.update': 'Updated member',
+  'member.delete': 'Deleted member',
+  'sheet.config.update': 'Linked sheet',
+  'sheet.config.delete': 'Unlinked sheet',
+  'sheet.source.update': 'Changed sheet source',
+  'sheet.fetch-time.update': 'Fetched sheet',
+  'sheet.data.save': 'Saved synced data',
+  'sheet.data.upload': 'Imported uploaded file',
+  'sheet.data.sync': 'Auto-synced data',
+  'sheet.data.hold': 'Held auto-sync for review',
+  'sheet.data.approve': 'Applied held auto-sync',
+  'sheet.data.discard': 'Discarded held auto-sync',
+  'sheet.data.restore': 'Restored synced data',
+  'sheet.limits.update': 'Changed sync limits',
+  'sheet.layout.update': 'Changed sheet layout',
+  'sheet.scheduler.update': 'Changed auto-sync',
+  'sheet.sync.trigger': 'Triggered sync',
+  'notification.config.update': 'Changed notification settings',
+  'notification.email.send': 'Sent reminder email',
+  'notification.email.batch': 'Sent reminder emails',
+  'notification.run.trigger': 'Triggered reminder run'
+};
+
+const formatValue = (value: any) => {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export const AuditLog: React.FC<AuditLogProps> = ({ onClose }) => {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [action, setAction] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const loadEvents = async (before?: string) => {
+    setIsLoading(true);
+    const page = await dbService.getAuditLog(action || undefined, before);
+    setEvents(prev => before ? [...prev, ...page] : page);
+    setHasMore(page.length === PAGE_SIZE);
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadEvents();
+  }, [action]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-fade-in">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl overflow-hidden flex flex-col max-h-[90vh]">
+        {/* Header */}
+        <div className="bg-gray-50 px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+          <div>
+            <h3 className="text-lg font-bold text-gray-800">Audit Log</h3>
+            <p className="text-xs text-gray-500">Who changed members, sheet settings, synced data and notifications.</p>
+          </div>
+          <div className="flex items-center gap-3">
+            <select
+              className="px-3 py-1.5 border border-gray-300 rounded text-sm bg-white outline-none"
+              value={action}
+              onChange={e => setAction(e.target.value)}
+            >
+              {ACTION_FILTERS.map(f => (
+                <option key={f.value} value={f.value}>{f.label}</option>
+              ))}
+            </select>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto space-y-2">
+          {!isLoading && events.length === 0 && (
+            <p className="text-sm text-gray-400 italic text-center py-8">No changes recorded yet.</p>
+          )}
+
+          {events.map(event => (
+            <div key={event.id} className="border border-gray-200 rounded-lg bg-gray-50/50">
+              <button
+                onClick={() => setExpanded(expanded === event.id ? null : event.id)}
+                className="w-full flex justify-between items-center p-3 text-left"
+                disabled={event.changes.length === 0}
+              >
+                <div className="flex flex-col">
+                  <span className="font-semibold text-gray-800 text-sm">
+                    {ACTION_LABELS[event.action] || event.action}
+                    {event.target && <span className="font-normal text-gray-500"> · {event.target}</span>}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {event.actorEmail} · {new Date(event.createdAt).toLocaleString()}
+                  </span>
+                </div>
+                {event.changes.length > 0 && (
+                  <span className="text-xs text-primary font-semibold">
+                    {event.changes.length} change{event.changes.length === 1 ? '' : 's'}
+                  </span>
+                )}
+              </button>
+
+              {expanded === event.id && (
+                <table className="w-full text-xs border-t border-gray-200">
+                  <thead className="text-gray-500 uppercase bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-1.5 text-left">Field</th>
+                      <th className="px-3 py-1.5 text-left">Before</th>
+                      <th className="px-3 py-1.5 text-left">After</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100 bg-white">
+                    {event.changes.map(change => (
+                      <tr key={change.field}>
+                        <td className="px-3 py-1.5 font-mono text-gray-700">{change.field}</td>
+                        <td className="px-3 py-1.5 font-mono text-red-600 break-all">{formatValue(change.before)}</td>
+                        <td className="px-3 py-1.5 font-mono text-green-700 break-all">{formatValue(change.after)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          ))}
+
+          {isLoading && <p className="text-sm text-gray-500 text-center py-4">Loading audit log...</p>}
+
+          {!isLoading && hasMore && (
+            <button
+              onClick={() => loadEvents(events[events.length - 1].createdAt)}
+              className="w-full py-2 text-sm font-semibold text-primary hover:text-indigo-800"
+            >
+              Load older changes
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
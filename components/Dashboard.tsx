@@ -1,20 +1,36 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell, ReferenceLine } from 'recharts';
-import { Balance } from '../types';
+import { Balance, BillingCycle, CycleForecast, MoneySettings, SettlementTransfer } from '../types';
+import { formatMoney } from '../services/currencyService';
+import { SettleUpPanel } from './SettleUpPanel';
+import { TrendCharts } from './TrendCharts';
+import { ForecastPanel } from './ForecastPanel';
 
 interface DashboardProps {
   balances: Balance[];
   totalCost: number;
+  totalFixed: number;
   totalMeals: number;
   mealRate: number;
+  money: MoneySettings;
+  forecast: CycleForecast;
+  cycles: BillingCycle[];
+  onOpenCycle: () => void;
+  onCloseCycle: () => void;
+  onRecordPayment?: (transfer: SettlementTransfer) => Promise<void>;
 }
 
-export const Dashboard: React.FC<DashboardProps> = ({ balances, totalCost, totalMeals, mealRate }) => {
+export const Dashboard: React.FC<DashboardProps> = ({ balances, totalCost, totalFixed, totalMeals, mealRate, money, forecast, cycles, onOpenCycle, onCloseCycle, onRecordPayment }) => {
   const data = balances.map(b => ({
     name: b.name,
     balance: parseFloat(b.balance.toFixed(2)),
   }));
 
+  const currentCycle = cycles.find(c => c.status === 'open');
+  const closedCycles = cycles.filter(c => c.status === 'closed');
+  const [selectedCycleId, setSelectedCycleId] = useState('');
+  const selectedCycle = closedCycles.find(c => c.id === selectedCycleId);
+
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
       <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
@@ -22,16 +38,22 @@ export const Dashboard: React.FC<DashboardProps> = ({ balances, totalCost, total
         <div className="grid grid-cols-2 gap-4">
           <div className="p-4 bg-primary/10 rounded-lg col-span-2">
             <span className="text-sm text-gray-600">Current Meal Rate</span>
-            <p className="text-3xl font-bold text-primary">${mealRate.toFixed(2)} <span className="text-sm font-normal text-gray-500">/ meal</span></p>
+            <p className="text-3xl font-bold text-primary">{formatMoney(mealRate, money)} <span className="text-sm font-normal text-gray-500">/ meal</span></p>
           </div>
           <div className="p-4 bg-gray-50 rounded-lg">
             <span className="text-sm text-gray-600">Total Bazar/Cost</span>
-            <p className="text-xl font-bold text-gray-800">${totalCost.toFixed(2)}</p>
+            <p className="text-xl font-bold text-gray-800">{formatMoney(totalCost, money)}</p>
           </div>
           <div className="p-4 bg-gray-50 rounded-lg">
-            <span className="text-sm text-gray-600">Total Meals</span>
+            <span className="text-sm text-gray-600">Total Meals (units)</span>
             <p className="text-xl font-bold text-gray-800">{totalMeals.toFixed(1)}</p>
           </div>
+          {totalFixed > 0 && (
+            <div className="p-4 bg-gray-50 rounded-lg col-span-2">
+              <span className="text-sm text-gray-600">Fixed Costs (split outside the meal rate)</span>
+              <p className="text-xl font-bold text-gray-800">{formatMoney(totalFixed, money)}</p>
+            </div>
+          )}
         </div>
       </div>
 
@@ -49,7 +71,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ balances, totalCost, total
             <XAxis dataKey="name" tick={{ fontSize: 12 }} />
             <YAxis />
             <Tooltip 
-              formatter={(value: number) => [`$${value}`, 'Balance']}
+              formatter={(value: number) => [formatMoney(value, money), 'Balance']}
               contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
             />
             <ReferenceLine y={0} stroke="#666" />
@@ -61,6 +83,117 @@ export const Dashboard: React.FC<DashboardProps> = ({ balances, totalCost, total
           </BarChart>
         </ResponsiveContainer>
       </div>
+
+      {balances.length > 0 && <ForecastPanel forecast={forecast} money={money} />}
+
+      <TrendCharts balances={balances} money={money} />
+
+      <SettleUpPanel balances={balances} money={money} onRecordPayment={onRecordPayment} />
+
+      {balances.length > 0 && (
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 md:col-span-2">
+          <h3 className="text-lg font-semibold text-gray-800 mb-1">Cost Breakdown</h3>
+          <p className="text-xs text-gray-500 mb-4">Each member pays their meal cost at the current rate plus their share of fixed costs.</p>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Member</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Meal Cost</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Fixed Share</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Total Cost</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {balances.map(b => (
+                  <tr key={b.personId}>
+                    <td className="px-4 py-2 font-medium text-gray-800">{b.name}</td>
+                    <td className="px-4 py-2 text-right font-mono text-gray-600">{formatMoney(b.mealCost ?? b.cost, money)}</td>
+                    <td className="px-4 py-2 text-right font-mono text-gray-600">{formatMoney(b.fixedShare || 0, money)}</td>
+                    <td className="px-4 py-2 text-right font-mono font-bold text-gray-800">{formatMoney(b.cost, money)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 md:col-span-2">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-800">Billing Cycles</h3>
+            <p className="text-xs text-gray-500">
+              {currentCycle
+                ? `Current: ${currentCycle.label} (since ${new Date(currentCycle.startDate).toLocaleDateString()})`
+                : 'No open cycle. Balances include all recorded entries.'}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {closedCycles.length > 0 && (
+              <select
+                value={selectedCycleId}
+                onChange={e => setSelectedCycleId(e.target.value)}
+                className="px-2 py-1.5 border rounded text-sm"
+              >
+                <option value="">View past cycle...</option>
+                {closedCycles.map(c => (
+                  <option key={c.id} value={c.id}>{c.label}</option>
+                ))}
+              </select>
+            )}
+            {currentCycle ? (
+              <button
+                onClick={onCloseCycle}
+                className="px-3 py-1.5 bg-slate-800 text-white rounded text-sm font-semibold hover:bg-slate-700 transition"
+              >
+                Close {currentCycle.label}
+              </button>
+            ) : (
+              <button
+                onClick={onOpenCycle}
+                className="px-3 py-1.5 bg-primary text-white rounded text-sm font-semibold hover:bg-indigo-700 transition"
+              >
+                Start Cycle
+              </button>
+            )}
+          </div>
+        </div>
+
+        {selectedCycle && (
+          <div className="border rounded-lg overflow-hidden">
+            <div className="flex gap-6 px-4 py-3 bg-gray-50 text-sm text-gray-600">
+              <span>Rate: <span className="font-bold text-gray-800">{formatMoney(selectedCycle.mealRate || 0, money)}</span></span>
+              <span>Total Cost: <span className="font-bold text-gray-800">{formatMoney(selectedCycle.totalCost || 0, money)}</span></span>
+              <span>Meals: <span className="font-bold text-gray-800">{(selectedCycle.totalMeals || 0).toFixed(1)}</span></span>
+            </div>
+            <table className="w-full text-sm text-left text-gray-500">
+              <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2">Member</th>
+                  <th className="px-4 py-2 text-right">Meals</th>
+                  <th className="px-4 py-2 text-right">Paid</th>
+                  <th className="px-4 py-2 text-right">Cost</th>
+                  <th className="px-4 py-2 text-right">Closing Balance</th>
+                </tr>
+              </thead>
+              <tbody>
+                {selectedCycle.closingBalances.map(b => (
+                  <tr key={b.memberName} className="bg-white border-t">
+                    <td className="px-4 py-2 font-medium text-gray-900">{b.memberName}</td>
+                    <td className="px-4 py-2 text-right font-mono">{b.meals.toFixed(1)}</td>
+                    <td className="px-4 py-2 text-right font-mono">{formatMoney(b.contribution, money)}</td>
+                    <td className="px-4 py-2 text-right font-mono">{formatMoney(b.cost, money)}</td>
+                    <td className={`px-4 py-2 text-right font-mono font-bold ${b.balance < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {formatMoney(b.balance, money)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
     </div>
   );
 };
\ No newline at end of file
@@ -1,21 +1,64 @@
 import React, { useState, useEffect } from 'react';
-import { Person, Balance } from '../types';
+import { Person, Balance, MoneySettings, PendingSync, SheetCell, SheetDiagnostics, SheetLayout, SheetSource, SheetsApiSource, SyncLimits, SyncedDataVersion, WorkbookTab } from '../types';
+import { dbService } from '../services/dbService';
+import { formatMoney } from '../services/currencyService';
+import { DEFAULT_SYNC_LIMITS } from '../services/syncDiffService';
 import { getApiUrl } from '../config/api';
+import { parseCSVRows } from '../services/csvReader';
+import { fetchSheetCSV, fetchSheetsApiValues, spreadsheetUrl, uploadWorkbook } from '../services/sheetService';
+import { SyncPreview } from './SyncPreview';
+import { SheetLayoutEditor } from './SheetLayoutEditor';
+import { SheetDiagnosticsReport } from './SheetDiagnosticsReport';
 
 interface DataEntryProps {
   people: Person[];
   balances: Balance[];
+  money: MoneySettings;
   onUpdatePerson: (id: string, meals: number, contribution: number) => void;
   onAddPerson: (name: string, email: string, meals: number, contribution: number) => void;
-  onSyncSheet: (url: string) => Promise<void>;
+  onSyncSheet: (url: string, source: SheetSource) => Promise<boolean>;
+  onImportSheet: (cells: SheetCell[][], fileName: string) => Promise<boolean>;
+  onSyncedDataChanged: () => void;
   isSyncing: boolean;
+  diagnostics: SheetDiagnostics | null;
 }
 
+const SYNC_LIMIT_FIELDS: { key: keyof SyncLimits; label: string }[] = [
+  { key: 'maxRemovedMembers', label: 'Members removed' },
+  { key: 'maxMealDrop', label: 'Meal drop per member' },
+  { key: 'maxBalanceChange', label: 'Balance change per member' },
+  { key: 'maxRateChangePercent', label: 'Meal rate change (%)' }
+];
+
+const SHEET_SOURCE_OPTIONS: { value: SheetSource; label: string }[] = [
+  { value: 'csv', label: 'Published CSV' },
+  { value: 'api', label: 'Sheets API' },
+  { value: 'upload', label: 'Upload File' }
+];
+
+const UPLOAD_ACCEPT = '.xlsx,.ods,.csv';
+
+// Rows with at least one filled cell, to help pick the right tab
+const countFilledRows = (tab: WorkbookTab) =>
+  tab.values.filter(row => row.some(cell => cell !== null && cell !== '')).length;
+
+const VERSION_SOURCE_LABELS: Record<SyncedDataVersion['source'], string> = {
+  manual: 'Manual sync',
+  scheduled: 'Auto-sync',
+  approved: 'Approved held sync',
+  restore: 'Restored',
+  upload: 'File upload'
+};
+
 export const DataEntry: React.FC<DataEntryProps> = ({
   people,
   balances,
+  money,
   onSyncSheet,
-  isSyncing
+  onImportSheet,
+  onSyncedDataChanged,
+  isSyncing,
+  diagnostics
 }) => {
   // Sheet State
   const [sheetUrl, setSheetUrl] = useState('');
@@ -23,10 +66,39 @@ export const DataEntry: React.FC<DataEntryProps> = ({
   const [lastFetchTime, setLastFetchTime] = useState<Date | null>(null);
   const [isLoadingConfig, setIsLoadingConfig] = useState(true);
 
+  // Sheets API Source State
+  const [sheetSource, setSheetSource] = useState<SheetSource>('csv');
+  const [sheetsApi, setSheetsApi] = useState<SheetsApiSource>({ spreadsheetId: '', tab: '', range: '' });
+  const [sheetsAccess, setSheetsAccess] = useState(false); // Signed-in manager granted read-only Sheets access
+  const [isSourceChanged, setIsSourceChanged] = useState(false);
+
+  // File Upload State
+  const [upload, setUpload] = useState<{ fileName: string; tabs: WorkbookTab[] } | null>(null);
+  const [selectedTab, setSelectedTab] = useState(0);
+  const [uploadedFileName, setUploadedFileName] = useState<string | null>(null);
+  const [uploadError, setUploadError] = useState('');
+  const [isUploading, setIsUploading] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+
+  // Layout Profile State
+  const [sheetLayout, setSheetLayout] = useState<SheetLayout | null>(null);
+  const [showLayoutEditor, setShowLayoutEditor] = useState(false);
+
   // Auto-Sync State
   const [autoSyncEnabled, setAutoSyncEnabled] = useState(false);
   const [syncTime, setSyncTime] = useState('09:00'); // Default 9 AM
 
+  // Held Sync State
+  const [syncLimits, setSyncLimits] = useState<SyncLimits>(DEFAULT_SYNC_LIMITS);
+  const [limitsMessage, setLimitsMessage] = useState('');
+  const [pendingSync, setPendingSync] = useState<PendingSync | null>(null);
+  const [showPendingSync, setShowPendingSync] = useState(false);
+  const [isResolvingPending, setIsResolvingPending] = useState(false);
+
+  // Version History State
+  const [versions, setVersions] = useState<SyncedDataVersion[]>([]);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
   // Load saved CSV URL and last fetch time on component mount
   useEffect(() => {
     const loadSheetConfig = async () => {
@@ -46,6 +118,12 @@ export const DataEntry: React.FC<DataEntryProps> = ({
           if (data.csvUrl) {
             setSheetUrl(data.csvUrl);
           }
+          setSheetSource(data.sheetSource || 'csv');
+          if (data.sheetsApi) {
+            setSheetsApi({ spreadsheetId: data.sheetsApi.spreadsheetId || '', tab: data.sheetsApi.tab || '', range: data.sheetsApi.range || '' });
+          }
+          setSheetsAccess(!!data.sheetsAccess);
+          setUploadedFileName(data.uploadedFileName || null);
           if (data.lastFetchTime) {
             setLastFetchTime(new Date(data.lastFetchTime));
           }
@@ -55,6 +133,11 @@ export const DataEntry: React.FC<DataEntryProps> = ({
           if (data.autoSyncTime) {
             setSyncTime(data.autoSyncTime);
           }
+          if (data.syncLimits) {
+            setSyncLimits(data.syncLimits);
+          }
+          setSheetLayout(data.sheetLayout || null);
+          setPendingSync(data.pendingSync || null);
         }
       } catch (error) {
         console.error('Error loading sheet config:', error);
@@ -66,6 +149,13 @@ export const DataEntry: React.FC<DataEntryProps> = ({
     loadSheetConfig();
   }, []);
 
+  // Reload the version list whenever a sync finishes
+  useEffect(() => {
+    if (!isSyncing) {
+      dbService.getSyncedVersions().then(setVersions);
+    }
+  }, [isSyncing, lastFetchTime]);
+
   // Note: Auto-sync is now handled by the server-side scheduler
   // No client-side interval needed - the server will sync data automatically
   // when autoSyncEnabled is true and the scheduled time arrives
@@ -102,8 +192,56 @@ export const DataEntry: React.FC<DataEntryProps> = ({
     saveSchedulerSettings();
   }, [autoSyncEnabled, syncTime, isLoadingConfig]);
 
+  // Uploads become the source when their data is saved, so picking the tab doesn't save anything
+  const changeSheetSource = (source: SheetSource) => {
+    setSheetSource(source);
+    if (source !== 'upload') setIsSourceChanged(true);
+  };
+
+  const changeSheetsApi = (changes: Partial<SheetsApiSource>) => {
+    setSheetsApi({ ...sheetsApi, ...changes });
+    setIsSourceChanged(true);
+  };
+
+  // Save the source setting; returns the saved Sheets API settings, or null if it failed
+  const saveSheetSource = async (): Promise<SheetsApiSource | null> => {
+    try {
+      const API_URL = getApiUrl();
+      const response = await fetch(`${API_URL}/api/sheet/source`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ sheetSource, sheetsApi })
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        alert(data.error || 'Failed to save the sheet source.');
+        return null;
+      }
+      const saved = data.sheetsApi || { spreadsheetId: '' };
+      setSheetsApi({ spreadsheetId: saved.spreadsheetId || '', tab: saved.tab || '', range: saved.range || '' });
+      setIsSourceChanged(false);
+      return saved;
+    } catch (error) {
+      console.error('Error saving sheet source:', error);
+      return null;
+    }
+  };
+
   const handleSync = async () => {
-    if (sheetUrl.trim()) {
+    // Save the source first if it was switched or its Sheets API settings edited
+    let apiSource = sheetsApi;
+    if (isSourceChanged) {
+      const saved = await saveSheetSource();
+      if (!saved) return;
+      apiSource = saved;
+    }
+
+    let url = sheetUrl.trim();
+    if (sheetSource === 'api') {
+      url = spreadsheetUrl(apiSource.spreadsheetId);
+    } else if (url) {
       // Save CSV URL to database if it's new or changed
       try {
         const API_URL = getApiUrl();
@@ -124,27 +262,183 @@ export const DataEntry: React.FC<DataEntryProps> = ({
       } catch (error) {
         console.error('Error saving CSV URL:', error);
       }
+    } else {
+      return;
+    }
 
-      // Perform the sync
-      await onSyncSheet(sheetUrl);
+    // Perform the sync (the user may cancel it from the preview)
+    const applied = await onSyncSheet(url, sheetSource);
+    if (!applied) return;
 
-      // Update last fetch time
-      try {
-        const API_URL = getApiUrl();
-        const timeResponse = await fetch(`${API_URL}/api/sheet/update-fetch-time`, {
-          method: 'POST',
-          credentials: 'include'
-        });
+    await recordFetchTime();
+  };
 
-        if (timeResponse.status === 401) {
-          // Not authenticated
-        } else if (timeResponse.ok) {
-          const data = await timeResponse.json();
-          setLastFetchTime(new Date(data.lastFetchTime));
+  const recordFetchTime = async () => {
+    try {
+      const API_URL = getApiUrl();
+      const timeResponse = await fetch(`${API_URL}/api/sheet/update-fetch-time`, {
+        method: 'POST',
+        credentials: 'include'
+      });
+
+      if (timeResponse.status === 401) {
+        // Not authenticated
+      } else if (timeResponse.ok) {
+        const data = await timeResponse.json();
+        setLastFetchTime(new Date(data.lastFetchTime));
+      }
+    } catch (error) {
+      console.error('Error updating fetch time:', error);
+    }
+  };
+
+  const handleUploadFile = async (file: File) => {
+    setUploadError('');
+    setIsUploading(true);
+    try {
+      const result = await uploadWorkbook(file);
+      setUpload(result);
+      // Start on the first tab that has something in it
+      setSelectedTab(Math.max(0, result.tabs.findIndex(tab => countFilledRows(tab) > 0)));
+    } catch (e: any) {
+      setUpload(null);
+      setUploadError(e.message || 'Failed to read the file.');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) handleUploadFile(file);
+  };
+
+  const handleImportUpload = async () => {
+    if (!upload) return;
+
+    // Same preview and save as a sync (the user may cancel it from the preview)
+    const applied = await onImportSheet(upload.tabs[selectedTab].values, upload.fileName);
+    if (!applied) return;
+
+    setUploadedFileName(upload.fileName);
+    setUpload(null);
+    setIsSourceChanged(false);
+    setAutoSyncEnabled(false); // Uploaded files have nothing to sync on a schedule
+    await recordFetchTime();
+  };
+
+  // Apply or discard a scheduled sync that was held for review
+  const handleResolvePendingSync = async (approve: boolean) => {
+    setIsResolvingPending(true);
+    try {
+      const API_URL = getApiUrl();
+      const response = await fetch(`${API_URL}/api/sheet/pending-sync${approve ? '/approve' : ''}`, {
+        method: approve ? 'POST' : 'DELETE',
+        credentials: 'include'
+      });
+
+      if (response.ok) {
+        setPendingSync(null);
+        setShowPendingSync(false);
+        if (approve) {
+          setLastFetchTime(new Date(pendingSync!.fetchedAt));
+          onSyncedDataChanged();
         }
-      } catch (error) {
-        console.error('Error updating fetch time:', error);
+      } else {
+        const data = await response.json();
+        alert(data.error || 'Failed to resolve the held sync.');
       }
+    } catch (error) {
+      console.error('Error resolving held sync:', error);
+    } finally {
+      setIsResolvingPending(false);
+    }
+  };
+
+  const handleRestoreVersion = async (version: SyncedDataVersion) => {
+    if (!confirm(`Restore the data synced on ${new Date(version.createdAt).toLocaleString()}? The current synced data is kept as a version too.`)) {
+      return;
+    }
+
+    setRestoringId(version.id);
+    try {
+      await dbService.restoreSyncedVersion(version.id);
+      setVersions(await dbService.getSyncedVersions());
+      onSyncedDataChanged();
+    } catch (e: any) {
+      alert(e.message || 'Failed to restore synced data.');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const handleSaveSyncLimits = async () => {
+    setLimitsMessage('');
+    try {
+      const API_URL = getApiUrl();
+      const response = await fetch(`${API_URL}/api/sheet/sync-limits`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(syncLimits)
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setSyncLimits(data.syncLimits);
+        setLimitsMessage('Limits saved.');
+        onSyncedDataChanged();
+      } else {
+        setLimitsMessage(data.error || 'Failed to save limits.');
+      }
+    } catch (error) {
+      console.error('Error saving sync limits:', error);
+      setLimitsMessage('Failed to save limits.');
+    }
+  };
+
+  const hasSource = sheetSource === 'upload'
+    ? !!upload
+    : sheetSource === 'api' ? !!sheetsApi.spreadsheetId.trim() : !!sheetUrl.trim();
+
+  // Cells for the layout editor; the Sheets API needs the source saved first
+  const loadSheetCells = async (): Promise<SheetCell[][]> => {
+    if (sheetSource === 'upload') {
+      if (!upload) throw new Error('Upload a file first.');
+      return upload.tabs[selectedTab].values;
+    }
+    if (sheetSource === 'csv') {
+      return parseCSVRows(await fetchSheetCSV(sheetUrl));
+    }
+    if (isSourceChanged && !(await saveSheetSource())) {
+      throw new Error('Failed to save the sheet source.');
+    }
+    return fetchSheetsApiValues();
+  };
+
+  const handleSaveSheetLayout = async (layout: SheetLayout | null) => {
+    try {
+      const API_URL = getApiUrl();
+      const response = await fetch(`${API_URL}/api/sheet/layout`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ layout })
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setSheetLayout(data.sheetLayout || null);
+        setShowLayoutEditor(false);
+        onSyncedDataChanged();
+      } else {
+        alert(data.error || 'Failed to save the sheet layout.');
+      }
+    } catch (error) {
+      console.error('Error saving sheet layout:', error);
+      alert('Failed to save the sheet layout.');
     }
   };
 
@@ -216,32 +510,184 @@ export const DataEntry: React.FC<DataEntryProps> = ({
           )}
         </div>
 
+        {/* Held Scheduled Sync */}
+        {pendingSync && (
+          <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg flex justify-between items-center gap-3">
+            <div className="text-xs text-amber-800">
+              <p className="font-bold">Scheduled sync held for review</p>
+              <p>Fetched {new Date(pendingSync.fetchedAt).toLocaleString()} · {pendingSync.diff.violations.length} critical issue(s)</p>
+            </div>
+            <button
+              onClick={() => setShowPendingSync(true)}
+              className="shrink-0 bg-amber-600 text-white px-3 py-1.5 rounded text-xs font-semibold hover:bg-amber-700 transition"
+            >
+              Review
+            </button>
+          </div>
+        )}
+
+        {/* Anomalies found in the current synced data */}
+        {versions.length > 0 && versions[0].anomalies.length > 0 && (
+          <div className="mb-4 p-3 bg-yellow-50 border border-yellow-100 rounded-lg text-xs text-yellow-800">
+            <p className="font-bold mb-1">Warnings from the last sync</p>
+            <ul className="list-disc list-inside space-y-0.5">
+              {versions[0].anomalies.map(a => (
+                <li key={a.message} className={a.severity === 'critical' ? 'font-semibold text-red-700' : ''}>{a.message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Sync Controls */}
         <div className="mb-6">
-          <label className="block text-xs font-semibold text-gray-500 uppercase mb-1">Google Sheet CSV Link</label>
-          <input
-            type="text"
-            placeholder="https://docs.google.com/.../pub?output=csv"
-            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary/50 text-sm mb-3"
-            value={sheetUrl}
-            onChange={(e) => setSheetUrl(e.target.value)}
-          />
+          <div className="flex gap-1 p-1 bg-gray-100 rounded-md mb-3 text-xs font-semibold">
+            {SHEET_SOURCE_OPTIONS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => changeSheetSource(option.value)}
+                className={`flex-1 py-1.5 rounded transition ${sheetSource === option.value ? 'bg-white text-gray-800 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {sheetSource === 'upload' ? (
+            <div className="mb-3">
+              <div
+                onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleDrop}
+                className={`border-2 border-dashed rounded-lg p-4 text-center transition ${isDragging ? 'border-primary bg-indigo-50' : 'border-gray-300 bg-gray-50/50'}`}
+              >
+                <p className="text-sm text-gray-600 mb-2">
+                  {isUploading ? 'Reading file...' : 'Drop an .xlsx, .ods or .csv file here'}
+                </p>
+                <label className="inline-block cursor-pointer text-xs font-semibold text-primary hover:text-indigo-700 underline">
+                  or choose a file
+                  <input
+                    type="file"
+                    accept={UPLOAD_ACCEPT}
+                    className="hidden"
+                    disabled={isUploading}
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) handleUploadFile(file);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+              </div>
+
+              {uploadError && <p className="text-xs text-red-600 mt-2">{uploadError}</p>}
+
+              {upload && (
+                <div className="mt-3 space-y-2">
+                  <p className="text-xs text-gray-600">
+                    <span className="font-semibold">{upload.fileName}</span> · {upload.tabs.length} tab(s)
+                  </p>
+                  {upload.tabs.length > 1 && (
+                    <label className="block">
+                      <span className="block text-xs font-semibold text-gray-500 uppercase mb-1">Tab</span>
+                      <select
+                        className="w-full px-3 py-1.5 border border-gray-300 rounded-md text-sm bg-white"
+                        value={selectedTab}
+                        onChange={(e) => setSelectedTab(Number(e.target.value))}
+                      >
+                        {upload.tabs.map((tab, index) => (
+                          <option key={tab.name} value={index}>{tab.name} ({countFilledRows(tab)} rows)</option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
+                </div>
+              )}
+
+              {!upload && uploadedFileName && (
+                <p className="text-[10px] text-gray-500 mt-2">Current data is from {uploadedFileName}.</p>
+              )}
+            </div>
+          ) : sheetSource === 'csv' ? (
+            <>
+              <label className="block text-xs font-semibold text-gray-500 uppercase mb-1">Google Sheet CSV Link</label>
+              <input
+                type="text"
+                placeholder="https://docs.google.com/.../pub?output=csv"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary/50 text-sm mb-3"
+                value={sheetUrl}
+                onChange={(e) => setSheetUrl(e.target.value)}
+              />
+            </>
+          ) : (
+            <div className="space-y-2 mb-3">
+              <label className="block">
+                <span className="block text-xs font-semibold text-gray-500 uppercase mb-1">Spreadsheet ID or Link</span>
+                <input
+                  type="text"
+                  placeholder="https://docs.google.com/spreadsheets/d/..."
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary/50 text-sm"
+                  value={sheetsApi.spreadsheetId}
+                  onChange={(e) => changeSheetsApi({ spreadsheetId: e.target.value })}
+                />
+              </label>
+              <div className="grid grid-cols-2 gap-2">
+                <label className="block">
+                  <span className="block text-xs font-semibold text-gray-500 uppercase mb-1">Tab</span>
+                  <input
+                    type="text"
+                    placeholder="First tab"
+                    className="w-full px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+                    value={sheetsApi.tab}
+                    onChange={(e) => changeSheetsApi({ tab: e.target.value })}
+                  />
+                </label>
+                <label className="block">
+                  <span className="block text-xs font-semibold text-gray-500 uppercase mb-1">Range</span>
+                  <input
+                    type="text"
+                    placeholder="Whole tab"
+                    className="w-full px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+                    value={sheetsApi.range}
+                    onChange={(e) => changeSheetsApi({ range: e.target.value })}
+                  />
+                </label>
+              </div>
+              <p className="text-[10px] text-gray-500 leading-tight">
+                {sheetsAccess
+                  ? 'Read with your Google account, so it must be able to open the sheet. Numbers are read as numbers, not text.'
+                  : <><a href={`${getApiUrl()}/auth/google/sheets`} className="text-primary font-semibold hover:underline">Allow read-only access to your Google Sheets</a> to link a sheet your Google account can open.</>}
+              </p>
+            </div>
+          )}
 
           <div className="flex gap-2">
             <button
-              onClick={handleSync}
-              disabled={isSyncing || !sheetUrl || isLoadingConfig}
+              onClick={sheetSource === 'upload' ? handleImportUpload : handleSync}
+              disabled={isSyncing || !hasSource || isLoadingConfig}
               className="w-full bg-primary text-white py-2 rounded-md hover:bg-indigo-700 transition flex justify-center items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {isSyncing ? 'Syncing...' : 'Sync Now'}
+              {isSyncing ? 'Syncing...' : sheetSource === 'upload' ? 'Import File' : 'Sync Now'}
             </button>
           </div>
 
+          <button
+            onClick={() => setShowLayoutEditor(true)}
+            disabled={!hasSource || isLoadingConfig}
+            className="w-full mt-2 text-xs text-primary hover:text-indigo-700 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {sheetLayout ? 'Edit Sheet Layout (custom)' : 'Customize Sheet Layout'}
+          </button>
+
           {lastFetchTime && (
             <p className="text-xs text-gray-500 mt-2 text-center">
               Last synced: {lastFetchTime.toLocaleString()}
             </p>
           )}
+          {diagnostics && (
+            <div className="mt-3">
+              <SheetDiagnosticsReport diagnostics={diagnostics} defaultOpen={diagnostics.strategy === 'none'} />
+            </div>
+          )}
         </div>
 
         {/* Auto Sync Settings */}
@@ -282,6 +728,75 @@ export const DataEntry: React.FC<DataEntryProps> = ({
           </div>
         </div>
 
+        {/* Sync Limits */}
+        <div className="bg-amber-50/50 p-4 rounded-lg mb-6 border border-amber-100">
+          <h4 className="text-sm font-bold text-amber-900 mb-1">Hold Scheduled Syncs</h4>
+          <p className="text-[10px] text-amber-700 mb-3 leading-tight">
+            Scheduled syncs that change more than this are held until you review them.
+          </p>
+          <div className="grid grid-cols-2 gap-2">
+            {SYNC_LIMIT_FIELDS.map(field => (
+              <label key={field.key} className="block">
+                <span className="block text-[10px] text-amber-800 mb-0.5">{field.label}</span>
+                <input
+                  type="number"
+                  min="0"
+                  className="w-full px-2 py-1 border border-amber-200 rounded text-sm bg-white"
+                  value={syncLimits[field.key]}
+                  onChange={(e) => setSyncLimits({ ...syncLimits, [field.key]: Number(e.target.value) })}
+                />
+              </label>
+            ))}
+          </div>
+          <div className="flex items-center justify-between mt-3">
+            <span className="text-xs text-amber-700">{limitsMessage}</span>
+            <button
+              onClick={handleSaveSyncLimits}
+              disabled={isLoadingConfig}
+              className="bg-amber-600 text-white px-3 py-1 rounded text-xs font-semibold hover:bg-amber-700 transition disabled:opacity-50"
+            >
+              Save Limits
+            </button>
+          </div>
+        </div>
+
+        {/* Version History */}
+        {versions.length > 0 && (
+          <div className="mb-6">
+            <h4 className="text-xs font-bold text-gray-900 uppercase tracking-wide mb-3">Sync History</h4>
+            <div className="space-y-2 max-h-48 overflow-y-auto">
+              {versions.map((version, index) => (
+                <div key={version.id} className="flex justify-between items-center p-2 border border-gray-200 rounded-lg bg-gray-50/50 text-xs">
+                  <div className="flex flex-col">
+                    <span className="font-semibold text-gray-800">
+                      {new Date(version.createdAt).toLocaleString()}
+                      <span className="ml-2 bg-gray-100 text-gray-600 px-1.5 py-0.5 rounded text-[10px] font-normal">
+                        {VERSION_SOURCE_LABELS[version.source]}
+                      </span>
+                    </span>
+                    <span className="text-gray-500">
+                      {version.peopleCount} people · {version.totalMeals} meals
+                      {version.sheetMealRate ? ` · rate ${formatMoney(version.sheetMealRate, money)}` : ''}
+                      {' · '}{version.actorEmail}
+                    </span>
+                  </div>
+                  {index === 0 ? (
+                    <span className="text-green-600 font-semibold">Current</span>
+                  ) : (
+                    <button
+                      onClick={() => handleRestoreVersion(version)}
+                      disabled={restoringId !== null}
+                      className="text-primary hover:text-indigo-800 font-semibold disabled:opacity-50"
+                    >
+                      {restoringId === version.id ? 'Restoring...' : 'Restore'}
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Read-Only Data Display */}
         <div className="flex-1">
           <h4 className="text-xs font-bold text-gray-900 uppercase tracking-wide mb-3 flex items-center gap-2">
@@ -305,7 +820,7 @@ export const DataEntry: React.FC<DataEntryProps> = ({
                   <div className="flex justify-between items-center">
                     <span className="font-semibold text-gray-800">{p.name}</span>
                     <div className={`text-xs font-bold px-2 py-1 rounded border ${isNegative ? 'bg-red-50 text-red-700 border-red-100' : 'bg-green-50 text-green-700 border-green-100'}`}>
-                      {isNegative ? 'Short: ' : 'Avail: '} {personBalance.toFixed(2)}
+                      {isNegative ? 'Short: ' : 'Avail: '} {formatMoney(personBalance, money)}
                     </div>
                   </div>
                   <div className="flex gap-4 text-xs text-gray-500 mt-1">
@@ -313,7 +828,7 @@ export const DataEntry: React.FC<DataEntryProps> = ({
                       Meals: <span className="font-mono text-gray-800 font-medium">{p.meals.toFixed(1)}</span>
                     </div>
                     <div className="flex-1 bg-white px-2 py-1 rounded border border-gray-100">
-                      Contrib/Cost: <span className="font-mono text-gray-800 font-medium">{p.contribution.toFixed(0)}</span>
+                      Contrib/Cost: <span className="font-mono text-gray-800 font-medium">{formatMoney(p.contribution, money, 0)}</span>
                     </div>
                   </div>
                 </div>
@@ -323,6 +838,35 @@ export const DataEntry: React.FC<DataEntryProps> = ({
         </div>
 
       </div>
+
+      {showPendingSync && pendingSync && (
+        <SyncPreview
+          diff={pendingSync.diff}
+          money={money}
+          title="Held Scheduled Sync"
+          description={`Fetched ${new Date(pendingSync.fetchedAt).toLocaleString()}, compared with the data synced before it.`}
+          confirmLabel="Apply Sync"
+          cancelLabel="Discard"
+          isBusy={isResolvingPending}
+          onConfirm={() => handleResolvePendingSync(true)}
+          onCancel={() => {
+            if (confirm("Discard this held sync? The data synced before it stays in place.")) {
+              handleResolvePendingSync(false);
+            }
+          }}
+          onClose={() => setShowPendingSync(false)}
+        />
+      )}
+
+      {showLayoutEditor && (
+        <SheetLayoutEditor
+          loadCells={loadSheetCells}
+          layout={sheetLayout}
+          money={money}
+          onSave={handleSaveSheetLayout}
+          onClose={() => setShowLayoutEditor(false)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
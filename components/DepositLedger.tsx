@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { dbService } from '../services/dbService';
+import { formatMoney } from '../services/currencyService';
+import { Deposit, DepositMethod, MoneySettings } from '../types';
+
+interface DepositLedgerProps {
+  deposits: Deposit[];
+  memberNames: string[];
+  money: MoneySettings;
+  onDepositsChanged: () => void;
+}
+
+const METHOD_LABELS: Record<DepositMethod, string> = {
+  cash: 'Cash',
+  bkash: 'bKash',
+  nagad: 'Nagad',
+  bank: 'Bank',
+  other: 'Other'
+};
+
+export const DepositLedger: React.FC<DepositLedgerProps> = ({ deposits, memberNames, money, onDepositsChanged }) => {
+  // Form State
+  const [memberName, setMemberName] = useState('');
+  const [amount, setAmount] = useState('');
+  const [date, setDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [method, setMethod] = useState<DepositMethod>('cash');
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const total = deposits.reduce((sum, d) => sum + d.amount, 0);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSubmitting(true);
+
+    try {
+      await dbService.addDeposit({
+        memberName,
+        amount: Number(amount),
+        date,
+        method,
+        note: note || undefined
+      });
+      setAmount('');
+      setNote('');
+      onDepositsChanged();
+    } catch (e: any) {
+      setError(e.message || "Failed to add deposit.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (confirm("Are you sure you want to delete this deposit?")) {
+      await dbService.deleteDeposit(id);
+      onDepositsChanged();
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden flex flex-col">
+      <div className="bg-gray-50 px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+        <h3 className="font-bold text-gray-800">Deposits (Joma)</h3>
+        <span className="text-xs text-gray-500">
+          Total: <span className="font-mono font-bold text-gray-800">{formatMoney(total, money)}</span>
+        </span>
+      </div>
+
+      <div className="p-6 flex flex-col gap-4">
+        {/* Add Form */}
+        <form onSubmit={handleAdd} className="bg-green-50/50 p-4 rounded-lg border border-green-100">
+          <h4 className="text-xs font-bold text-green-900 uppercase mb-3">Record Deposit</h4>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <select
+              className="px-3 py-2 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-primary/20 outline-none"
+              value={memberName}
+              onChange={e => setMemberName(e.target.value)}
+              required
+            >
+              <option value="">Member...</option>
+              {memberNames.map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              step="0.01"
+              placeholder="Amount"
+              className="px-3 py-2 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-primary/20 outline-none"
+              value={amount}
+              onChange={e => setAmount(e.target.value)}
+              required
+            />
+            <input
+              type="date"
+              className="px-3 py-2 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-primary/20 outline-none"
+              value={date}
+              onChange={e => setDate(e.target.value)}
+              required
+            />
+            <select
+              className="px-3 py-2 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-primary/20 outline-none"
+              value={method}
+              onChange={e => setMethod(e.target.value as DepositMethod)}
+            >
+              {(Object.keys(METHOD_LABELS) as DepositMethod[]).map(m => (
+                <option key={m} value={m}>{METHOD_LABELS[m]}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              placeholder="Note (optional)"
+              className="col-span-2 md:col-span-3 px-3 py-2 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-primary/20 outline-none"
+              value={note}
+              onChange={e => setNote(e.target.value)}
+            />
+            <button
+              type="submit"
+              disabled={isSubmitting || memberNames.length === 0}
+              className="bg-primary text-white px-4 py-2 rounded text-sm font-semibold hover:bg-indigo-700 transition disabled:opacity-50"
+            >
+              {isSubmitting ? 'Saving...' : 'Add'}
+            </button>
+          </div>
+          {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+        </form>
+
+        {/* List */}
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {deposits.length === 0 && (
+            <p className="text-sm text-gray-400 italic text-center py-4">
+              No deposits recorded. Add one above or sync a sheet with joma columns.
+            </p>
+          )}
+
+          {deposits.map(deposit => (
+            <div key={deposit.id} className="flex justify-between items-center p-3 border border-gray-200 rounded-lg bg-gray-50/50">
+              <div className="flex flex-col">
+                <span className="font-semibold text-gray-800 text-sm flex items-center gap-2">
+                  {deposit.memberName}
+                  {deposit.source === 'sheet' && (
+                    <span className="bg-gray-100 text-gray-600 px-1.5 py-0.5 rounded text-[10px] font-normal">Sheet</span>
+                  )}
+                </span>
+                <span className="text-xs text-gray-500">
+                  {METHOD_LABELS[deposit.method]} · {new Date(deposit.date).toLocaleDateString()}
+                  {deposit.note && ` · ${deposit.note}`}
+                </span>
+              </div>
+              <div className="flex items-center gap-3">
+                <span className="font-mono text-sm font-bold text-green-700">{formatMoney(deposit.amount, money)}</span>
+                <button onClick={() => handleDelete(deposit.id)} className="text-red-600 hover:text-red-900 text-xs font-semibold">
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
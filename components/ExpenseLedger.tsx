@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { dbService } from '../services/dbService';
+import { formatMoney } from '../services/currencyService';
+import { DBMember, Expense, MoneySettings } from '../types';
+
+interface ExpenseLedgerProps {
+  expenses: Expense[];
+  members: DBMember[];
+  money: MoneySettings;
+  onExpensesChanged: () => void;
+}
+
+export const ExpenseLedger: React.FC<ExpenseLedgerProps> = ({ expenses, members, money, onExpensesChanged }) => {
+  // Form State
+  const [payerId, setPayerId] = useState('');
+  const [amount, setAmount] = useState('');
+  const [description, setDescription] = useState('');
+  const [date, setDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const memberNames = new Map(members.map(m => [m._id, m.sheetName]));
+  const total = expenses.reduce((sum, e) => sum + e.amount, 0);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSubmitting(true);
+
+    try {
+      await dbService.addExpense({
+        payerId,
+        amount: Number(amount),
+        description,
+        date
+      });
+      setAmount('');
+      setDescription('');
+      onExpensesChanged();
+    } catch (e: any) {
+      setError(e.message || "Failed to add expense.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (confirm("Are you sure you want to delete this expense?")) {
+      await dbService.deleteExpense(id);
+      onExpensesChanged();
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden flex flex-col">
+      <div className="bg-gray-50 px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+        <h3 className="font-bold text-gray-800">Expense Ledger</h3>
+        <span className="text-xs text-gray-500">
+          Total: <span className="font-mono font-bold text-gray-800">{formatMoney(total, money)}</span>
+        </span>
+      </div>
+
+      <div className="p-6 flex flex-col gap-4">
+        {/* Add Form */}
+        <form onSubmit={handleAdd} className="bg-indigo-50/50 p-4 rounded-lg border border-indigo-100">
+          <h4 className="text-xs font-bold text-indigo-900 uppercase mb-3">Add Bazar / Expense</h4>
+          <div className="grid grid-cols-2 gap-3">
+            <select
+              className="px-3 py-2 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-primary/20 outline-none"
+              value={payerId}
+              onChange={e => setPayerId(e.target.value)}
+              required
+            >
+              <option value="">Paid by...</option>
+              {members.map(m => (
+                <option key={m._id} value={m._id}>{m.sheetName}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="Amount"
+              className="px-3 py-2 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-primary/20 outline-none"
+              value={amount}
+              onChange={e => setAmount(e.target.value)}
+              required
+            />
+            <input
+              type="text"
+              placeholder="Description (e.g. 'Rice & vegetables')"
+              className="col-span-2 px-3 py-2 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-primary/20 outline-none"
+              value={description}
+              onChange={e => setDescription(e.target.value)}
+              required
+            />
+            <input
+              type="date"
+              className="px-3 py-2 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-primary/20 outline-none"
+              value={date}
+              onChange={e => setDate(e.target.value)}
+              required
+            />
+            <button
+              type="submit"
+              disabled={isSubmitting || members.length === 0}
+              className="bg-primary text-white px-4 py-2 rounded text-sm font-semibold hover:bg-indigo-700 transition disabled:opacity-50"
+            >
+              {isSubmitting ? 'Saving...' : 'Add'}
+            </button>
+          </div>
+          {members.length === 0 && (
+            <p className="text-xs text-gray-500 mt-2">Add members first to record who paid.</p>
+          )}
+          {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+        </form>
+
+        {/* List */}
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {expenses.length === 0 && (
+            <p className="text-sm text-gray-400 italic text-center py-4">
+              No expenses recorded yet.
+            </p>
+          )}
+
+          {expenses.map(expense => (
+            <div key={expense.id} className="flex justify-between items-center p-3 border border-gray-200 rounded-lg bg-gray-50/50">
+              <div className="flex flex-col">
+                <span className="font-semibold text-gray-800 text-sm">{expense.description}</span>
+                <span className="text-xs text-gray-500">
+                  {memberNames.get(expense.payerId) || 'Unknown'} · {new Date(expense.date).toLocaleDateString()}
+                </span>
+              </div>
+              <div className="flex items-center gap-3">
+                <span className="font-mono text-sm font-bold text-gray-800">{formatMoney(expense.amount, money)}</span>
+                <button onClick={() => handleDelete(expense.id)} className="text-red-600 hover:text-red-900 text-xs font-semibold">
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
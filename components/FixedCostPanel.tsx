@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { dbService } from '../services/dbService';
+import { formatMoney } from '../services/currencyService';
+import { FixedCost, MoneySettings } from '../types';
+
+interface FixedCostPanelProps {
+  fixedCosts: FixedCost[];
+  memberNames: string[];
+  money: MoneySettings;
+  onFixedCostsChanged: () => void;
+}
+
+export const FixedCostPanel: React.FC<FixedCostPanelProps> = ({ fixedCosts, memberNames, money, onFixedCostsChanged }) => {
+  // Form State
+  const [name, setName] = useState('');
+  const [amount, setAmount] = useState('');
+  const [split, setSplit] = useState<'equal' | 'shares'>('equal');
+  const [shares, setShares] = useState<Record<string, string>>({});
+  const [recurring, setRecurring] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const total = fixedCosts.reduce((sum, c) => sum + c.amount, 0);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSubmitting(true);
+
+    try {
+      await dbService.addFixedCost({
+        name,
+        amount: Number(amount),
+        split,
+        shares: split === 'shares'
+          ? memberNames
+            .filter(m => Number(shares[m] || 0) > 0)
+            .map(m => ({ memberName: m, share: Number(shares[m]) }))
+          : [],
+        recurring
+      });
+      setName('');
+      setAmount('');
+      setShares({});
+      onFixedCostsChanged();
+    } catch (e: any) {
+      setError(e.message || "Failed to add fixed cost.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (confirm("Are you sure you want to delete this fixed cost?")) {
+      await dbService.deleteFixedCost(id);
+      onFixedCostsChanged();
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden flex flex-col">
+      <div className="bg-gray-50 px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+        <h3 className="font-bold text-gray-800">Fixed Costs</h3>
+        <span className="text-xs text-gray-500">
+          Total: <span className="font-mono font-bold text-gray-800">{formatMoney(total, money)}</span>
+        </span>
+      </div>
+
+      <div className="p-6 flex flex-col gap-4">
+        {/* Add Form */}
+        <form onSubmit={handleAdd} className="bg-rose-50/50 p-4 rounded-lg border border-rose-100">
+          <h4 className="text-xs font-bold text-rose-900 uppercase mb-3">Add Rent / Bill</h4>
+          <div className="grid grid-cols-2 gap-3">
+            <input
+              type="text"
+              placeholder="Name (e.g. 'House rent')"
+              className="px-3 py-2 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-primary/20 outline-none"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              required
+            />
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="Amount"
+              className="px-3 py-2 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-primary/20 outline-none"
+              value={amount}
+              onChange={e => setAmount(e.target.value)}
+              required
+            />
+            <select
+              className="px-3 py-2 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-primary/20 outline-none"
+              value={split}
+              onChange={e => setSplit(e.target.value as 'equal' | 'shares')}
+            >
+              <option value="equal">Split equally</option>
+              <option value="shares">Custom shares</option>
+            </select>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="checkbox" checked={recurring} onChange={e => setRecurring(e.target.checked)} />
+              Repeat every cycle
+            </label>
+
+            {split === 'shares' && (
+              <div className="col-span-2 grid grid-cols-2 gap-2">
+                {memberNames.map(m => (
+                  <label key={m} className="flex items-center justify-between gap-2 px-3 py-1.5 border border-gray-200 rounded bg-white text-sm">
+                    <span className="text-gray-700 truncate">{m}</span>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      placeholder="0"
+                      className="w-16 px-2 py-1 border border-gray-300 rounded text-sm outline-none"
+                      value={shares[m] || ''}
+                      onChange={e => setShares({ ...shares, [m]: e.target.value })}
+                    />
+                  </label>
+                ))}
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="col-span-2 bg-primary text-white px-4 py-2 rounded text-sm font-semibold hover:bg-indigo-700 transition disabled:opacity-50"
+            >
+              {isSubmitting ? 'Saving...' : 'Add'}
+            </button>
+          </div>
+          {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+        </form>
+
+        {/* List */}
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {fixedCosts.length === 0 && (
+            <p className="text-sm text-gray-400 italic text-center py-4">
+              No fixed costs this cycle.
+            </p>
+          )}
+
+          {fixedCosts.map(cost => (
+            <div key={cost.id} className="flex justify-between items-center p-3 border border-gray-200 rounded-lg bg-gray-50/50">
+              <div className="flex flex-col">
+                <span className="font-semibold text-gray-800 text-sm flex items-center gap-2">
+                  {cost.name}
+                  {cost.recurring && (
+                    <span className="bg-gray-100 text-gray-600 px-1.5 py-0.5 rounded text-[10px] font-normal">Monthly</span>
+                  )}
+                </span>
+                <span className="text-xs text-gray-500">
+                  {cost.split === 'equal'
+                    ? 'Split equally'
+                    : cost.shares.map(s => `${s.memberName} ×${s.share}`).join(', ')}
+                </span>
+              </div>
+              <div className="flex items-center gap-3">
+                <span className="font-mono text-sm font-bold text-gray-800">{formatMoney(cost.amount, money)}</span>
+                <button onClick={() => handleDelete(cost.id)} className="text-red-600 hover:text-red-900 text-xs font-semibold">
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+import React from 'react';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { formatMoney } from '../services/currencyService';
+import { CycleForecast, MoneySettings } from '../types';
+
+interface ForecastPanelProps {
+  forecast: CycleForecast;
+  money: MoneySettings;
+}
+
+export const ForecastPanel: React.FC<ForecastPanelProps> = ({ forecast, money }) => {
+  const data = forecast.points.map(p => ({
+    date: new Date(p.date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+    rate: p.rate,
+    band: [p.low, p.high]
+  }));
+
+  const confidence = Math.round(forecast.confidence * 100);
+  const members = [...forecast.members].sort((a, b) => a.projectedBalance - b.projectedBalance);
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 md:col-span-2">
+      <div className="flex flex-col md:flex-row md:justify-between md:items-start gap-2 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">Month-End Forecast</h3>
+          <p className="text-xs text-gray-500">
+            Day {forecast.elapsedDays} of {forecast.elapsedDays + forecast.remainingDays} · projected from the spend and meal pace so far
+          </p>
+        </div>
+        <div className="text-right">
+          <span className="text-xs text-gray-500">Expected rate by {new Date(forecast.cycleEnd).toLocaleDateString()}</span>
+          <p className="text-2xl font-bold text-primary">{formatMoney(forecast.projectedRate, money)}</p>
+          <span className="text-xs text-gray-400">
+            {confidence}% range: {formatMoney(forecast.rateLow, money)} – {formatMoney(forecast.rateHigh, money)}
+          </span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="h-64">
+          {forecast.remainingDays === 0 ? (
+            <p className="text-sm text-gray-400 italic text-center py-12">The cycle ends today. Nothing left to project.</p>
+          ) : (
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={data} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="date" tick={{ fontSize: 11 }} />
+                <YAxis tick={{ fontSize: 11 }} />
+                <Tooltip
+                  formatter={(value: number | number[], name: string) => Array.isArray(value)
+                    ? [`${formatMoney(value[0], money)} – ${formatMoney(value[1], money)}`, `${confidence}% range`]
+                    : [formatMoney(value, money), name]}
+                  contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+                />
+                <Area type="monotone" dataKey="band" stroke="none" fill="#4f46e5" fillOpacity={0.15} />
+                <Line type="monotone" dataKey="rate" name="Projected rate" stroke="#4f46e5" strokeWidth={2} dot={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          )}
+        </div>
+
+        <div className="overflow-y-auto max-h-64">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Member</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Meals</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Projected Balance</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {members.map(m => (
+                <tr key={m.name}>
+                  <td className="px-4 py-2 font-medium text-gray-800">{m.name}</td>
+                  <td className="px-4 py-2 text-right font-mono text-gray-600">{m.projectedMeals.toFixed(1)}</td>
+                  <td className="px-4 py-2 text-right">
+                    <span className={`font-mono font-bold ${m.projectedBalance < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {formatMoney(m.projectedBalance, money)}
+                    </span>
+                    <span className="block text-[10px] text-gray-400 font-mono">
+                      {formatMoney(m.low, money)} – {formatMoney(m.high, money)}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { dbService } from '../services/dbService';
+import { formatMoney, isValidMoneySettings } from '../services/currencyService';
+import { Group } from '../types';
+
+export const GroupSwitcher: React.FC = () => {
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  // Currency settings popover
+  const [showSettings, setShowSettings] = useState(false);
+  const [currency, setCurrency] = useState('');
+  const [locale, setLocale] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    dbService.getGroups().then(setGroups);
+  }, []);
+
+  const active = groups.find(g => g.isActive);
+
+  // Everything on screen belongs to the active group, so reload after switching
+  const handleChange = async (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = e.target.value;
+    setIsSwitching(true);
+
+    try {
+      if (value === '__new__') {
+        const name = prompt("Name of the new mess:");
+        if (!name || !name.trim()) {
+          setIsSwitching(false);
+          return;
+        }
+        await dbService.createGroup(name.trim());
+      } else {
+        await dbService.switchGroup(value);
+      }
+      window.location.reload();
+    } catch (error: any) {
+      alert(error.message || "Failed to switch group.");
+      setIsSwitching(false);
+    }
+  };
+
+  const openSettings = () => {
+    setCurrency(active?.currency || '');
+    setLocale(active?.locale || '');
+    setShowSettings(!showSettings);
+  };
+
+  const draft = { currency: currency.trim().toUpperCase(), locale: locale.trim() };
+  const isDraftValid = isValidMoneySettings(draft);
+
+  const handleSaveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!active) return;
+
+    setIsSaving(true);
+    try {
+      await dbService.updateGroup(active._id, draft);
+      window.location.reload();
+    } catch (error: any) {
+      alert(error.message || "Failed to save currency settings.");
+      setIsSaving(false);
+    }
+  };
+
+  if (groups.length === 0) return null;
+
+  return (
+    <div className="relative flex items-center gap-1">
+      <select
+        className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm font-semibold text-gray-700 bg-white focus:ring-2 focus:ring-primary/20 outline-none disabled:opacity-50"
+        value={active?._id || ''}
+        onChange={handleChange}
+        disabled={isSwitching}
+        title="Switch mess"
+      >
+        {groups.map(g => (
+          <option key={g._id} value={g._id}>{g.name}</option>
+        ))}
+        <option value="__new__">+ New mess...</option>
+      </select>
+      <button
+        onClick={openSettings}
+        className="px-2 py-1.5 text-xs font-semibold text-gray-500 hover:text-primary transition"
+        title="Currency & locale"
+      >
+        {active?.currency}
+      </button>
+
+      {showSettings && (
+        <form
+          onSubmit={handleSaveSettings}
+          className="absolute top-full right-0 mt-2 w-64 bg-white border border-gray-200 rounded-lg shadow-lg p-4 z-50 flex flex-col gap-3 text-sm"
+        >
+          <h4 className="text-xs font-bold text-gray-700 uppercase">Currency & Locale</h4>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-gray-500">Currency code</span>
+            <input
+              type="text"
+              placeholder="BDT"
+              className="px-3 py-1.5 border border-gray-300 rounded text-sm outline-none uppercase"
+              value={currency}
+              onChange={e => setCurrency(e.target.value)}
+              required
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-gray-500">Locale</span>
+            <input
+              type="text"
+              placeholder="en-BD"
+              className="px-3 py-1.5 border border-gray-300 rounded text-sm outline-none"
+              value={locale}
+              onChange={e => setLocale(e.target.value)}
+              required
+            />
+          </label>
+          <p className={`text-xs ${isDraftValid ? 'text-gray-500' : 'text-red-600'}`}>
+            {isDraftValid ? <>Preview: <span className="font-mono text-gray-800">{formatMoney(1234.5, draft)}</span></> : 'Unknown currency code or locale.'}
+          </p>
+          <button
+            type="submit"
+            disabled={isSaving || !isDraftValid}
+            className="bg-primary text-white px-4 py-1.5 rounded text-sm font-semibold hover:bg-indigo-700 transition disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { dbService } from '../services/dbService';
+import { formatMoney } from '../services/currencyService';
+import { GuestMeal, MoneySettings } from '../types';
+
+interface GuestMealLedgerProps {
+  guestMeals: GuestMeal[];
+  memberNames: string[];
+  mealRate: number;
+  money: MoneySettings;
+  onGuestMealsChanged: () => void;
+}
+
+export const GuestMealLedger: React.FC<GuestMealLedgerProps> = ({ guestMeals, memberNames, mealRate, money, onGuestMealsChanged }) => {
+  // Form State
+  const [hostName, setHostName] = useState('');
+  const [guestName, setGuestName] = useState('');
+  const [meals, setMeals] = useState('1');
+  const [multiplier, setMultiplier] = useState('1');
+  const [date, setDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const totalMeals = guestMeals.reduce((sum, g) => sum + g.meals, 0);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSubmitting(true);
+
+    try {
+      await dbService.addGuestMeal({
+        hostName,
+        guestName: guestName || undefined,
+        meals: Number(meals),
+        multiplier: Number(multiplier),
+        date
+      });
+      setGuestName('');
+      setMeals('1');
+      onGuestMealsChanged();
+    } catch (e: any) {
+      setError(e.message || "Failed to add guest meal.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (confirm("Are you sure you want to delete this guest meal?")) {
+      await dbService.deleteGuestMeal(id);
+      onGuestMealsChanged();
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden flex flex-col">
+      <div className="bg-gray-50 px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+        <h3 className="font-bold text-gray-800">Guest Meals</h3>
+        <span className="text-xs text-gray-500">
+          Total: <span className="font-mono font-bold text-gray-800">{totalMeals}</span> meals
+        </span>
+      </div>
+
+      <div className="p-6 flex flex-col gap-4">
+        {/* Add Form */}
+        <form onSubmit={handleAdd} className="bg-amber-50/50 p-4 rounded-lg border border-amber-100">
+          <h4 className="text-xs font-bold text-amber-900 uppercase mb-3">Record Guest</h4>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            <select
+              className="px-3 py-2 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-primary/20 outline-none"
+              value={hostName}
+              onChange={e => setHostName(e.target.value)}
+              required
+            >
+              <option value="">Host...</option>
+              {memberNames.map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              placeholder="Guest name (optional)"
+              className="px-3 py-2 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-primary/20 outline-none"
+              value={guestName}
+              onChange={e => setGuestName(e.target.value)}
+            />
+            <input
+              type="date"
+              className="px-3 py-2 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-primary/20 outline-none"
+              value={date}
+              onChange={e => setDate(e.target.value)}
+              required
+            />
+            <input
+              type="number"
+              min="0.5"
+              step="0.5"
+              placeholder="Meals"
+              title="Number of meals"
+              className="px-3 py-2 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-primary/20 outline-none"
+              value={meals}
+              onChange={e => setMeals(e.target.value)}
+              required
+            />
+            <input
+              type="number"
+              min="0"
+              step="0.1"
+              placeholder="Rate ×"
+              title="Guest rate multiplier (1 = regular meal rate)"
+              className="px-3 py-2 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-primary/20 outline-none"
+              value={multiplier}
+              onChange={e => setMultiplier(e.target.value)}
+              required
+            />
+            <button
+              type="submit"
+              disabled={isSubmitting || memberNames.length === 0}
+              className="bg-primary text-white px-4 py-2 rounded text-sm font-semibold hover:bg-indigo-700 transition disabled:opacity-50"
+            >
+              {isSubmitting ? 'Saving...' : 'Add'}
+            </button>
+          </div>
+          {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+        </form>
+
+        {/* List */}
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {guestMeals.length === 0 && (
+            <p className="text-sm text-gray-400 italic text-center py-4">
+              No guest meals recorded.
+            </p>
+          )}
+
+          {guestMeals.map(guest => (
+            <div key={guest.id} className="flex justify-between items-center p-3 border border-gray-200 rounded-lg bg-gray-50/50">
+              <div className="flex flex-col">
+                <span className="font-semibold text-gray-800 text-sm">
+                  {guest.guestName || 'Guest'} <span className="font-normal text-gray-500">of {guest.hostName}</span>
+                </span>
+                <span className="text-xs text-gray-500">
+                  {guest.meals} meal{guest.meals === 1 ? '' : 's'}
+                  {guest.multiplier !== 1 && ` × ${guest.multiplier}`} · {new Date(guest.date).toLocaleDateString()}
+                </span>
+              </div>
+              <div className="flex items-center gap-3">
+                <span className="font-mono text-sm font-bold text-gray-800">
+                  {formatMoney(guest.meals * guest.multiplier * mealRate, money)}
+                </span>
+                <button onClick={() => handleDelete(guest.id)} className="text-red-600 hover:text-red-900 text-xs font-semibold">
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -30,7 +30,8 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
             id: data.user._id,
             email: data.user.email,
             name: data.user.name,
-            photoURL: data.user.photoURL
+            photoURL: data.user.photoURL,
+            role: data.user.role
           });
         }
       }
@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { dbService } from '../services/dbService';
+import { weightedMealUnits } from '../services/mealTypeService';
+import { MealCounts, MealEntry, MealType } from '../types';
+
+interface MealLogProps {
+  mealEntries: MealEntry[];
+  mealTypes: MealType[];
+  memberNames: string[];
+  onMealsChanged: () => void;
+}
+
+export const MealLog: React.FC<MealLogProps> = ({ mealEntries, mealTypes, memberNames, onMealsChanged }) => {
+  // Form State
+  const [memberName, setMemberName] = useState('');
+  const [date, setDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [counts, setCounts] = useState<MealCounts>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  // Weights editor
+  const [showWeights, setShowWeights] = useState(false);
+  const [draftTypes, setDraftTypes] = useState<MealType[]>([]);
+  const [isSavingWeights, setIsSavingWeights] = useState(false);
+
+  const labels = new Map(mealTypes.map(t => [t.key, t.label]));
+  const totalUnits = mealEntries.reduce((sum, e) => sum + e.meals, 0);
+  const previewUnits = weightedMealUnits(counts, mealTypes);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSubmitting(true);
+
+    try {
+      await dbService.recordMeals(memberName, date, counts);
+      setCounts({});
+      onMealsChanged();
+    } catch (e: any) {
+      setError(e.message || "Failed to record meals.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (confirm("Are you sure you want to delete this meal entry?")) {
+      await dbService.deleteMealEntry(id);
+      onMealsChanged();
+    }
+  };
+
+  const openWeights = () => {
+    setDraftTypes(mealTypes.map(t => ({ ...t })));
+    setShowWeights(!showWeights);
+  };
+
+  const handleSaveWeights = async () => {
+    setIsSavingWeights(true);
+    try {
+      await dbService.updateMealTypes(draftTypes);
+      setShowWeights(false);
+      onMealsChanged();
+    } catch (e: any) {
+      alert(e.message || "Failed to save meal weights.");
+    } finally {
+      setIsSavingWeights(false);
+    }
+  };
+
+  const describeEntry = (entry: MealEntry) => entry.byType
+    ? Object.entries(entry.byType).map(([key, n]) => `${n} ${labels.get(key) || key}`).join(', ')
+    : 'From sheet';
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden flex flex-col">
+      <div className="bg-gray-50 px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+        <h3 className="font-bold text-gray-800">Meal Log</h3>
+        <div className="flex items-center gap-3">
+          <span className="text-xs text-gray-500">
+            Total: <span className="font-mono font-bold text-gray-800">{totalUnits.toFixed(1)}</span> units
+          </span>
+          <button onClick={openWeights} className="text-xs font-semibold text-primary hover:text-indigo-800">
+            {showWeights ? 'Close' : 'Weights'}
+          </button>
+        </div>
+      </div>
+
+      <div className="p-6 flex flex-col gap-4">
+        {/* Weights Editor */}
+        {showWeights && (
+          <div className="bg-gray-50 p-4 rounded-lg border border-gray-200">
+            <h4 className="text-xs font-bold text-gray-700 uppercase mb-3">Meal Weights</h4>
+            <div className="space-y-2">
+              {draftTypes.map((t, i) => (
+                <div key={t.key} className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    className="flex-1 px-3 py-1.5 border border-gray-300 rounded text-sm outline-none"
+                    value={t.label}
+                    onChange={e => setDraftTypes(draftTypes.map((d, j) => j === i ? { ...d, label: e.target.value } : d))}
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.25"
+                    className="w-24 px-3 py-1.5 border border-gray-300 rounded text-sm outline-none"
+                    value={t.weight}
+                    onChange={e => setDraftTypes(draftTypes.map((d, j) => j === i ? { ...d, weight: Number(e.target.value) } : d))}
+                  />
+                  <span className="text-xs text-gray-500 w-10">meal</span>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-2">Changing weights recalculates every meal recorded by type.</p>
+            <button
+              onClick={handleSaveWeights}
+              disabled={isSavingWeights}
+              className="mt-3 bg-primary text-white px-4 py-1.5 rounded text-sm font-semibold hover:bg-indigo-700 transition disabled:opacity-50"
+            >
+              {isSavingWeights ? 'Saving...' : 'Save Weights'}
+            </button>
+          </div>
+        )}
+
+        {/* Add Form */}
+        <form onSubmit={handleAdd} className="bg-sky-50/50 p-4 rounded-lg border border-sky-100">
+          <h4 className="text-xs font-bold text-sky-900 uppercase mb-3">Record Meals</h4>
+          <div className="grid grid-cols-2 gap-3">
+            <select
+              className="px-3 py-2 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-primary/20 outline-none"
+              value={memberName}
+              onChange={e => setMemberName(e.target.value)}
+              required
+            >
+              <option value="">Member...</option>
+              {memberNames.map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+            <input
+              type="date"
+              className="px-3 py-2 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-primary/20 outline-none"
+              value={date}
+              onChange={e => setDate(e.target.value)}
+              required
+            />
+            {mealTypes.map(t => (
+              <label key={t.key} className="flex items-center justify-between gap-2 px-3 py-2 border border-gray-200 rounded bg-white text-sm">
+                <span className="text-gray-700">
+                  {t.label} <span className="text-xs text-gray-400">×{t.weight}</span>
+                </span>
+                <input
+                  type="number"
+                  min="0"
+                  step="1"
+                  className="w-16 px-2 py-1 border border-gray-300 rounded text-sm outline-none"
+                  value={counts[t.key] ?? ''}
+                  onChange={e => setCounts({ ...counts, [t.key]: Number(e.target.value) })}
+                />
+              </label>
+            ))}
+            <button
+              type="submit"
+              disabled={isSubmitting || memberNames.length === 0}
+              className="bg-primary text-white px-4 py-2 rounded text-sm font-semibold hover:bg-indigo-700 transition disabled:opacity-50"
+            >
+              {isSubmitting ? 'Saving...' : `Save (${previewUnits} units)`}
+            </button>
+          </div>
+          {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+        </form>
+
+        {/* List */}
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {mealEntries.length === 0 && (
+            <p className="text-sm text-gray-400 italic text-center py-4">
+              No meals recorded. Add them above or sync a sheet with a daily grid.
+            </p>
+          )}
+
+          {mealEntries.map(entry => (
+            <div key={entry.id || `${entry.memberName}-${entry.date}`} className="flex justify-between items-center p-3 border border-gray-200 rounded-lg bg-gray-50/50">
+              <div className="flex flex-col">
+                <span className="font-semibold text-gray-800 text-sm">{entry.memberName}</span>
+                <span className="text-xs text-gray-500">
+                  {new Date(entry.date).toLocaleDateString()} · {describeEntry(entry)}
+                </span>
+              </div>
+              <div className="flex items-center gap-3">
+                <span className="font-mono text-sm font-bold text-gray-800">{entry.meals}</span>
+                {entry.id && (
+                  <button onClick={() => handleDelete(entry.id!)} className="text-red-600 hover:text-red-900 text-xs font-semibold">
+                    Delete
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,247 @@
+import React, { useEffect, useState } from 'react';
+import { dbService } from '../services/dbService';
+import { formatMoney } from '../services/currencyService';
+import { MemberStatement, User } from '../types';
+
+interface MemberPortalProps {
+  user: User;
+  onLogout: () => void;
+}
+
+export const MemberPortal: React.FC<MemberPortalProps> = ({ user, onLogout }) => {
+  const [statement, setStatement] = useState<MemberStatement | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadStatement = async (groupId?: string) => {
+    setIsLoading(true);
+    setError('');
+    try {
+      setStatement(await dbService.getMyStatement(groupId));
+    } catch (e: any) {
+      setError(e.message || "Failed to load your statement.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadStatement();
+  }, []);
+
+  // Starting a mess makes the user its manager, so reload into the manager app
+  const handleStartGroup = async () => {
+    const name = prompt("Name of your mess:");
+    if (!name || !name.trim()) return;
+
+    try {
+      await dbService.createGroup(name.trim());
+      window.location.reload();
+    } catch (e: any) {
+      alert(e.message || "Failed to create the mess.");
+    }
+  };
+
+  const balance = statement?.balance;
+  const money = statement?.money;
+  const totalMeals = statement ? statement.meals.reduce((sum, m) => sum + m.meals, 0) : 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-20 font-sans">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200 sticky top-0 z-40">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center gap-2">
+              <div className="w-8 h-8 bg-primary rounded-lg flex items-center justify-center text-white font-bold shadow-sm">M</div>
+              <h1 className="text-xl font-bold text-gray-900 tracking-tight">MealShare AI</h1>
+            </div>
+            <div className="flex items-center gap-4 text-sm">
+              <div className="hidden md:flex flex-col items-end">
+                <span className="font-semibold text-gray-700">{user.name}</span>
+                <span className="text-xs text-gray-400">{user.email}</span>
+              </div>
+              <button
+                onClick={onLogout}
+                className="text-gray-500 hover:text-red-600 transition p-1"
+                title="Logout"
+              >
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1" /></svg>
+              </button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 mt-8 flex flex-col gap-6">
+        {isLoading && <p className="text-sm text-gray-500 text-center py-12">Loading your statement...</p>}
+
+        {!isLoading && error && (
+          <div className="bg-red-50 border border-red-100 text-red-700 text-sm rounded-xl p-6 text-center">
+            {error}
+          </div>
+        )}
+
+        {!isLoading && statement && (
+          <>
+            <div className="flex flex-col md:flex-row md:items-end justify-between gap-3">
+              <div>
+                <h2 className="text-2xl font-bold text-gray-900">Hi, {statement.memberName}</h2>
+                <p className="text-gray-600 mt-1">
+                  {statement.groupName}{statement.cycleLabel && ` · Cycle ${statement.cycleLabel}`}
+                </p>
+              </div>
+              {statement.memberships.length > 1 && (
+                <select
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-primary/20 outline-none"
+                  value={statement.groupId}
+                  onChange={e => loadStatement(e.target.value)}
+                >
+                  {statement.memberships.map(m => (
+                    <option key={m.groupId} value={m.groupId}>{m.groupName}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+
+            {/* Balance */}
+            <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+              <h3 className="text-lg font-semibold text-gray-800 mb-4">My Balance</h3>
+              {balance ? (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="p-4 bg-gray-50 rounded-lg">
+                    <span className="text-sm text-gray-600">Meals</span>
+                    <p className="text-xl font-bold text-gray-800">{balance.meals.toFixed(1)}</p>
+                  </div>
+                  <div className="p-4 bg-gray-50 rounded-lg">
+                    <span className="text-sm text-gray-600">Paid</span>
+                    <p className="text-xl font-bold text-gray-800">{formatMoney(balance.contribution, money)}</p>
+                  </div>
+                  <div className="p-4 bg-gray-50 rounded-lg">
+                    <span className="text-sm text-gray-600">Cost</span>
+                    <p className="text-xl font-bold text-gray-800">{formatMoney(balance.cost, money)}</p>
+                    <span className="text-xs text-gray-400">
+                      @ {formatMoney(statement.mealRate, money)} / meal
+                      {balance.guestMeals ? ` · incl. ${balance.guestMeals} guest` : ''}
+                    </span>
+                  </div>
+                  <div className={`p-4 rounded-lg ${balance.balance < 0 ? 'bg-red-50' : 'bg-green-50'}`}>
+                    <span className="text-sm text-gray-600">{balance.balance < 0 ? 'You owe' : 'You get back'}</span>
+                    <p className={`text-xl font-bold ${balance.balance < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {formatMoney(Math.abs(balance.balance), money)}
+                    </p>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-400 italic">Your manager hasn't recorded any data for you yet.</p>
+              )}
+            </div>
+
+            {/* Meals & Deposits */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+                <div className="bg-gray-50 px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+                  <h3 className="font-bold text-gray-800">My Meals</h3>
+                  <span className="text-xs text-gray-500">Total: <span className="font-mono font-bold text-gray-800">{totalMeals}</span></span>
+                </div>
+                <div className="p-4 space-y-1 max-h-72 overflow-y-auto">
+                  {statement.meals.length === 0 && (
+                    <p className="text-sm text-gray-400 italic text-center py-4">No daily meals recorded.</p>
+                  )}
+                  {statement.meals.map(m => (
+                    <div key={m.date} className="flex justify-between text-sm px-2 py-1 rounded hover:bg-gray-50">
+                      <span className="text-gray-600">{new Date(m.date).toLocaleDateString()}</span>
+                      <span className="font-mono text-gray-800">{m.meals}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+                <div className="bg-gray-50 px-6 py-4 border-b border-gray-200">
+                  <h3 className="font-bold text-gray-800">My Deposits</h3>
+                </div>
+                <div className="p-4 space-y-2 max-h-72 overflow-y-auto">
+                  {statement.deposits.length === 0 && (
+                    <p className="text-sm text-gray-400 italic text-center py-4">No deposits recorded.</p>
+                  )}
+                  {statement.deposits.map(d => (
+                    <div key={d.id} className="flex justify-between items-center p-2 border border-gray-100 rounded-lg text-sm">
+                      <span className="text-gray-600">
+                        {new Date(d.date).toLocaleDateString()}
+                        {d.note && <span className="text-xs text-gray-400"> · {d.note}</span>}
+                      </span>
+                      <span className="font-mono font-bold text-green-700">{formatMoney(d.amount, money)}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            {/* Guests */}
+            {statement.guestMeals.length > 0 && (
+              <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+                <div className="bg-gray-50 px-6 py-4 border-b border-gray-200">
+                  <h3 className="font-bold text-gray-800">My Guests</h3>
+                </div>
+                <div className="p-4 space-y-2">
+                  {statement.guestMeals.map(g => (
+                    <div key={g.id} className="flex justify-between items-center p-2 border border-gray-100 rounded-lg text-sm">
+                      <span className="text-gray-600">
+                        {new Date(g.date).toLocaleDateString()} · {g.guestName || 'Guest'} · {g.meals} meal{g.meals === 1 ? '' : 's'}
+                        {g.multiplier !== 1 && <span className="text-xs text-gray-400"> × {g.multiplier}</span>}
+                      </span>
+                      <span className="font-mono font-bold text-gray-800">{formatMoney(g.cost, money)}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* History */}
+            <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+              <div className="bg-gray-50 px-6 py-4 border-b border-gray-200">
+                <h3 className="font-bold text-gray-800">Past Cycles</h3>
+              </div>
+              {statement.history.length === 0 ? (
+                <p className="text-sm text-gray-400 italic text-center py-6">No closed cycles yet.</p>
+              ) : (
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase">Cycle</th>
+                      <th className="px-6 py-2 text-right text-xs font-medium text-gray-500 uppercase">Meals</th>
+                      <th className="px-6 py-2 text-right text-xs font-medium text-gray-500 uppercase">Cost</th>
+                      <th className="px-6 py-2 text-right text-xs font-medium text-gray-500 uppercase">Balance</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {statement.history.map(h => (
+                      <tr key={h.label}>
+                        <td className="px-6 py-2 font-medium text-gray-800">{h.label}</td>
+                        <td className="px-6 py-2 text-right font-mono">{h.meals}</td>
+                        <td className="px-6 py-2 text-right font-mono">{formatMoney(h.cost, money)}</td>
+                        <td className={`px-6 py-2 text-right font-mono font-bold ${h.balance < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                          {formatMoney(h.balance, money)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </>
+        )}
+
+        {!isLoading && (
+          <p className="text-sm text-gray-500 text-center">
+            Managing a mess of your own?{' '}
+            <button onClick={handleStartGroup} className="text-primary font-semibold hover:underline">
+              Start one
+            </button>
+          </p>
+        )}
+      </main>
+    </div>
+  );
+};
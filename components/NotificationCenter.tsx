@@ -1,15 +1,20 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { generateReminders } from '../services/geminiService';
-import { Balance, Reminder } from '../types';
+import { dbService } from '../services/dbService';
+import { formatMoney } from '../services/currencyService';
+import { Balance, CycleForecast, MealType, MoneySettings, Reminder, ReminderLogEntry } from '../types';
 import { getApiUrl } from '../config/api';
 
 interface NotificationCenterProps {
   balances: Balance[];
   mealRate: number;
+  mealTypes?: MealType[];
+  money: MoneySettings;
+  forecast?: CycleForecast;
   onRefreshData: () => void;
 }
 
-export const NotificationCenter: React.FC<NotificationCenterProps> = ({ balances, mealRate, onRefreshData }) => {
+export const NotificationCenter: React.FC<NotificationCenterProps> = ({ balances, mealRate, mealTypes = [], money, forecast, onRefreshData }) => {
   // Config State
   const [showConfig, setShowConfig] = useState(false);
   const [scheduledTime, setScheduledTime] = useState('18:00');
@@ -25,6 +30,16 @@ export const NotificationCenter: React.FC<NotificationCenterProps> = ({ balances
   const [tone, setTone] = useState('friendly');
   const [sendStatus, setSendStatus] = useState<Record<string, 'sent' | 'error' | 'idle'>>({});
   const [isLoadingConfig, setIsLoadingConfig] = useState(true);
+  const [reminderLog, setReminderLog] = useState<ReminderLogEntry[]>([]);
+
+  const loadReminderLog = async () => {
+    setReminderLog(await dbService.getReminderLog());
+  };
+
+  // Reload sent reminders whenever balances change, since a recorded payment resolves them
+  useEffect(() => {
+    loadReminderLog();
+  }, [balances]);
 
   // Load notification configuration on mount
   useEffect(() => {
@@ -104,7 +119,7 @@ export const NotificationCenter: React.FC<NotificationCenterProps> = ({ balances
 
   const handleGenerateReminders = async () => {
     setIsGenerating(true);
-    const results = await generateReminders(balances, tone, mealRate, threshold);
+    const results = await generateReminders(balances, tone, mealRate, threshold, mealTypes, money, forecast);
     setReminders(results);
     setSendStatus({}); // Reset status
     setIsGenerating(false);
@@ -142,6 +157,7 @@ export const NotificationCenter: React.FC<NotificationCenterProps> = ({ balances
 
       if (data.success) {
         setSendStatus(prev => ({ ...prev, [reminder.personId!]: 'sent' }));
+        loadReminderLog();
 
         // Silent browser notification instead of alert
         if ("Notification" in window && Notification.permission === "granted") {
@@ -210,7 +226,7 @@ export const NotificationCenter: React.FC<NotificationCenterProps> = ({ balances
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
             <div>
-              <label className="block text-xs font-semibold text-slate-500 mb-1">Low Balance Threshold ($)</label>
+              <label className="block text-xs font-semibold text-slate-500 mb-1">Low Balance Threshold ({money.currency})</label>
               <input
                 type="number"
                 value={threshold}
@@ -315,7 +331,7 @@ export const NotificationCenter: React.FC<NotificationCenterProps> = ({ balances
                       {status === 'error' && <span className="text-[10px] bg-red-100 text-red-600 px-1.5 py-0.5 rounded">Error</span>}
                     </div>
                     <span className="text-red-500 font-bold text-xs bg-red-50 px-2 py-1 rounded border border-red-100">
-                      {reminder.amountOwed && reminder.amountOwed > 0 ? `Owes $${reminder.amountOwed.toFixed(0)}` : 'Low Funds'}
+                      {reminder.amountOwed && reminder.amountOwed > 0 ? `Owes ${formatMoney(reminder.amountOwed, money, 0)}` : 'Low Funds'}
                     </span>
                   </div>
                   <div className="relative">
@@ -335,6 +351,35 @@ export const NotificationCenter: React.FC<NotificationCenterProps> = ({ balances
             })}
           </div>
         )}
+
+        {/* Reminder History */}
+        {reminderLog.length > 0 && (
+          <div className="mt-6">
+            <h3 className="text-xs font-bold text-gray-500 uppercase mb-2">Reminder History</h3>
+            <div className="space-y-2">
+              {reminderLog.map(entry => (
+                <div key={entry.id} className="flex justify-between items-center p-2.5 border border-gray-100 rounded-lg text-xs">
+                  <div className="flex flex-col">
+                    <span className="font-semibold text-gray-800">
+                      {entry.memberName}
+                      <span className="font-normal text-gray-400"> · {new Date(entry.sentAt).toLocaleDateString()}{entry.trigger === 'scheduled' && ' · auto'}</span>
+                    </span>
+                    {entry.amountOwed > 0 && <span className="text-gray-500">Owed {formatMoney(entry.amountOwed, money)}</span>}
+                  </div>
+                  {entry.status === 'resolved' ? (
+                    <span className="bg-green-100 text-green-700 px-2 py-0.5 rounded font-medium">
+                      {entry.payment
+                        ? `Paid ${formatMoney(entry.payment.amount, money)} on ${new Date(entry.payment.date).toLocaleDateString()}`
+                        : 'Resolved'}
+                    </span>
+                  ) : (
+                    <span className="bg-amber-100 text-amber-700 px-2 py-0.5 rounded font-medium">Open</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
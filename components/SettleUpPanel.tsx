@@ -0,0 +1,78 @@
+import React, { useMemo, useState } from 'react';
+import { Balance, MoneySettings, SettlementTransfer } from '../types';
+import { planSettlements, MESS_FUND } from '../services/settlementService';
+import { formatMoney } from '../services/currencyService';
+
+interface SettleUpPanelProps {
+  balances: Balance[];
+  money: MoneySettings;
+  onRecordPayment?: (transfer: SettlementTransfer) => Promise<void>;
+}
+
+export const SettleUpPanel: React.FC<SettleUpPanelProps> = ({ balances, money, onRecordPayment }) => {
+  const plan = useMemo(() => planSettlements(balances), [balances]);
+  const [payingIndex, setPayingIndex] = useState<number | null>(null);
+
+  const handleMarkPaid = async (transfer: SettlementTransfer, index: number) => {
+    if (!onRecordPayment) return;
+    if (!confirm(`Record that ${transfer.from} paid ${transfer.to} ${formatMoney(transfer.amount, money)}?`)) return;
+
+    setPayingIndex(index);
+    try {
+      await onRecordPayment(transfer);
+    } catch (e: any) {
+      alert(e.message || "Failed to record payment.");
+    } finally {
+      setPayingIndex(null);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 md:col-span-2">
+      <div className="flex justify-between items-center mb-1">
+        <h3 className="text-lg font-semibold text-gray-800">Settle Up</h3>
+        {plan.transfers.length > 0 && (
+          <span className="text-xs text-gray-500">
+            {plan.transfers.length} transfer{plan.transfers.length === 1 ? '' : 's'} · {formatMoney(plan.totalAmount, money)} total
+          </span>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 mb-4">The fewest payments that bring everyone back to zero.</p>
+
+      {plan.transfers.length === 0 ? (
+        <p className="text-sm text-gray-400 italic text-center py-4">Everyone is settled up.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {plan.transfers.map((t, i) => (
+            <div key={i} className="flex justify-between items-center p-3 border border-gray-200 rounded-lg bg-gray-50/50 text-sm">
+              <span className="flex items-center gap-2">
+                <span className={`font-semibold ${t.from === MESS_FUND ? 'text-gray-500 italic' : 'text-red-600'}`}>{t.from}</span>
+                <svg className="w-4 h-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14 5l7 7m0 0l-7 7m7-7H3" /></svg>
+                <span className={`font-semibold ${t.to === MESS_FUND ? 'text-gray-500 italic' : 'text-green-600'}`}>{t.to}</span>
+              </span>
+              <span className="flex items-center gap-3">
+                <span className="font-mono font-bold text-gray-800">{formatMoney(t.amount, money)}</span>
+                {onRecordPayment && (
+                  <button
+                    onClick={() => handleMarkPaid(t, i)}
+                    disabled={payingIndex !== null}
+                    className="text-primary hover:text-indigo-800 text-xs font-semibold disabled:opacity-50"
+                  >
+                    {payingIndex === i ? 'Saving...' : 'Mark paid'}
+                  </button>
+                )}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {plan.fundDifference !== 0 && (
+        <p className="text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded p-2 mt-3">
+          Balances don't add up to zero, so {formatMoney(Math.abs(plan.fundDifference), money)} is
+          {plan.fundDifference > 0 ? ' paid into' : ' paid out of'} the mess fund.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import React, { useState, useEffect } from 'react';
+import { SheetDiagnostics } from '../types';
+
+interface SheetDiagnosticsReportProps {
+  diagnostics: SheetDiagnostics;
+  defaultOpen?: boolean;
+}
+
+const STRATEGY_LABELS: Record<SheetDiagnostics['strategy'], string> = {
+  'summary-table': 'Summary table',
+  'simple-list': 'Name / Meals list',
+  none: 'No data found'
+};
+
+const MAX_SKIPPED_ROWS = 20;
+
+const Fact: React.FC<{ label: string; value?: string | number; missing?: string }> = ({ label, value, missing = 'Not found' }) => (
+  <div className="flex justify-between gap-2">
+    <span className="text-gray-500">{label}</span>
+    {value !== undefined
+      ? <span className="font-mono text-gray-800">{value}</span>
+      : <span className="text-gray-400 italic">{missing}</span>}
+  </div>
+);
+
+export const SheetDiagnosticsReport: React.FC<SheetDiagnosticsReportProps> = ({ diagnostics, defaultOpen = false }) => {
+  const [isOpen, setIsOpen] = useState(defaultOpen);
+
+  // A new parse opens or closes the report again
+  useEffect(() => {
+    setIsOpen(defaultOpen);
+  }, [diagnostics]);
+
+  const missingFromSummary = diagnostics.nameMismatches.filter(m => m.missingFrom === 'summary').map(m => m.name);
+  const missingFromGrid = diagnostics.nameMismatches.filter(m => m.missingFrom === 'grid').map(m => m.name);
+  const issueCount = diagnostics.skippedRows.length + diagnostics.nameMismatches.length;
+  const isEmpty = diagnostics.strategy === 'none';
+
+  return (
+    <div className={`rounded-lg border text-xs ${isEmpty ? 'border-red-200 bg-red-50/50' : 'border-gray-200 bg-gray-50/50'}`}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between gap-2 px-3 py-2 font-semibold text-gray-700 hover:text-gray-900"
+      >
+        <span className="flex items-center gap-2">
+          <svg className={`w-3 h-3 transition-transform ${isOpen ? 'rotate-90' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" /></svg>
+          Parser report
+        </span>
+        <span className="flex items-center gap-1">
+          <span className={`px-2 py-0.5 rounded-full font-normal ${isEmpty ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700'}`}>
+            {STRATEGY_LABELS[diagnostics.strategy]}
+          </span>
+          {issueCount > 0 && (
+            <span className="px-2 py-0.5 rounded-full font-normal bg-yellow-100 text-yellow-700">{issueCount} to check</span>
+          )}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="px-3 pb-3 space-y-3">
+          {isEmpty && (
+            <p className="text-red-700">
+              No summary table (Name, Cost and Available Balance headers) or Name / Meals list was found.
+              Customize the sheet layout to point the parser at your tables.
+            </p>
+          )}
+
+          <div className="space-y-1">
+            <Fact label="Rows read" value={diagnostics.rowCount} />
+            <Fact label="Meal rate cell" value={diagnostics.rateCell} />
+            <Fact label="Meal grid header row" value={diagnostics.gridHeaderRow} />
+            {diagnostics.strategy === 'simple-list'
+              ? <Fact label="List header row" value={diagnostics.listHeaderRow} />
+              : <Fact label="Summary header row" value={diagnostics.summaryHeaderRow} />}
+            <Fact label="Saved layout" value={diagnostics.layoutUsed ? 'Used' : undefined} missing="Not used" />
+          </div>
+
+          {diagnostics.nameMismatches.length > 0 && (
+            <div className="text-yellow-800">
+              <p className="font-semibold mb-0.5">Names that don't match</p>
+              {missingFromSummary.length > 0 && (
+                <p>In the meal grid but not the member table: {missingFromSummary.join(', ')}</p>
+              )}
+              {missingFromGrid.length > 0 && (
+                <p>In the member table but not the meal grid (meals estimated from cost): {missingFromGrid.join(', ')}</p>
+              )}
+            </div>
+          )}
+
+          {diagnostics.skippedRows.length > 0 && (
+            <div className="text-yellow-800">
+              <p className="font-semibold mb-0.5">Skipped</p>
+              <ul className="space-y-0.5">
+                {diagnostics.skippedRows.slice(0, MAX_SKIPPED_ROWS).map((s, index) => (
+                  <li key={index}><span className="font-mono">Row {s.row}:</span> {s.reason}</li>
+                ))}
+              </ul>
+              {diagnostics.skippedRows.length > MAX_SKIPPED_ROWS && (
+                <p className="text-gray-500 mt-0.5">and {diagnostics.skippedRows.length - MAX_SKIPPED_ROWS} more</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,259 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { MoneySettings, SheetCell, SheetLayout } from '../types';
+import { formatMoney } from '../services/currencyService';
+import { SheetDiagnosticsReport } from './SheetDiagnosticsReport';
+import { columnIndex, columnLetters, isValidSheetLayout, parseCellRef, parseSheetRows } from '../services/sheetParser';
+
+interface SheetLayoutEditorProps {
+  loadCells: () => Promise<SheetCell[][]>; // The sheet's cells, from whichever source the group uses
+  layout: SheetLayout | null;
+  money: MoneySettings;
+  onSave: (layout: SheetLayout | null) => Promise<void>;
+  onClose: () => void;
+}
+
+// Form fields are kept as text and turned into a SheetLayout on every change
+type LayoutDraft = Record<keyof SheetLayout, string>;
+
+const PREVIEW_ROWS = 40;
+const PREVIEW_COLUMNS = 16;
+
+const LAYOUT_FIELDS: { key: keyof SheetLayout; label: string; placeholder: string }[] = [
+  { key: 'rateCell', label: 'Meal rate cell', placeholder: 'e.g. C2' },
+  { key: 'gridHeaderRow', label: 'Meal grid header row', placeholder: 'e.g. 4' },
+  { key: 'depositLabel', label: 'Deposit column header', placeholder: 'Joma' },
+  { key: 'ignoredColumns', label: 'Grid columns to skip', placeholder: 'Total, Tot / Day' },
+  { key: 'summaryHeaderRow', label: 'Summary header row', placeholder: 'e.g. 9' },
+  { key: 'summaryNameColumn', label: 'Summary name column', placeholder: 'e.g. A' },
+  { key: 'summaryCostColumn', label: 'Summary cost column', placeholder: 'e.g. B' },
+  { key: 'summaryBalanceColumn', label: 'Summary balance column', placeholder: 'e.g. C' }
+];
+
+const toDraft = (layout: SheetLayout | null): LayoutDraft => ({
+  rateCell: layout?.rateCell || '',
+  gridHeaderRow: layout?.gridHeaderRow ? String(layout.gridHeaderRow) : '',
+  depositLabel: layout?.depositLabel || '',
+  ignoredColumns: layout?.ignoredColumns?.join(', ') || '',
+  summaryHeaderRow: layout?.summaryHeaderRow ? String(layout.summaryHeaderRow) : '',
+  summaryNameColumn: layout?.summaryNameColumn || '',
+  summaryCostColumn: layout?.summaryCostColumn || '',
+  summaryBalanceColumn: layout?.summaryBalanceColumn || ''
+});
+
+// Blank fields are left out, so the parser's heuristics cover them
+const toLayout = (draft: LayoutDraft): SheetLayout => {
+  const text = (value: string) => value.trim() || undefined;
+  const row = (value: string) => value.trim() ? Number(value) : undefined;
+  const column = (value: string) => text(value)?.toUpperCase();
+  const ignored = draft.ignoredColumns.split(',').map(c => c.trim()).filter(Boolean);
+
+  const layout: SheetLayout = {
+    rateCell: column(draft.rateCell),
+    gridHeaderRow: row(draft.gridHeaderRow),
+    depositLabel: text(draft.depositLabel),
+    ignoredColumns: ignored.length > 0 ? ignored : undefined,
+    summaryHeaderRow: row(draft.summaryHeaderRow),
+    summaryNameColumn: column(draft.summaryNameColumn),
+    summaryCostColumn: column(draft.summaryCostColumn),
+    summaryBalanceColumn: column(draft.summaryBalanceColumn)
+  };
+  return Object.fromEntries(Object.entries(layout).filter(([, v]) => v !== undefined)) as SheetLayout;
+};
+
+export const SheetLayoutEditor: React.FC<SheetLayoutEditorProps> = ({
+  loadCells,
+  layout,
+  money,
+  onSave,
+  onClose
+}) => {
+  const [cells, setCells] = useState<SheetCell[][] | null>(null);
+  const [loadError, setLoadError] = useState('');
+  const [draft, setDraft] = useState<LayoutDraft>(() => toDraft(layout));
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadCells()
+      .then(setCells)
+      .catch((e: any) => setLoadError(e.message || 'Failed to fetch the sheet.'));
+  }, []);
+
+  const draftLayout = useMemo(() => toLayout(draft), [draft]);
+  const isValid = isValidSheetLayout(draftLayout);
+  const isEmpty = Object.keys(draftLayout).length === 0;
+
+  const rows = cells || [];
+  const preview = useMemo(
+    () => cells === null || !isValid ? null : parseSheetRows(cells, { locale: money.locale, layout: draftLayout }),
+    [cells, isValid, draftLayout, money.locale]
+  );
+
+  // Cells the draft layout points at, highlighted in the raw grid
+  const rateRef = draftLayout.rateCell ? parseCellRef(draftLayout.rateCell) : undefined;
+  const summaryColumns = [draftLayout.summaryNameColumn, draftLayout.summaryCostColumn, draftLayout.summaryBalanceColumn]
+    .filter((c): c is string => !!c)
+    .map(columnIndex);
+  const columnCount = Math.min(PREVIEW_COLUMNS, Math.max(0, ...rows.slice(0, PREVIEW_ROWS).map(r => r.length)));
+
+  const cellClass = (r: number, c: number) => {
+    if (rateRef && rateRef.row === r && rateRef.col === c) return 'bg-green-100 font-semibold text-green-800';
+    if (draftLayout.summaryHeaderRow && r === draftLayout.summaryHeaderRow - 1 && summaryColumns.includes(c)) return 'bg-purple-100 font-semibold text-purple-800';
+    if (draftLayout.gridHeaderRow && r === draftLayout.gridHeaderRow - 1) return 'bg-blue-50 font-semibold text-blue-800';
+    return 'text-gray-700';
+  };
+
+  const handleSave = async (next: SheetLayout | null) => {
+    setIsSaving(true);
+    try {
+      await onSave(next);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-fade-in">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-5xl overflow-hidden flex flex-col max-h-[90vh]">
+        {/* Header */}
+        <div className="bg-gray-50 px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+          <div>
+            <h3 className="text-lg font-bold text-gray-800">Sheet Layout</h3>
+            <p className="text-xs text-gray-500">Tell the sync where your sheet keeps its data. Blank fields are detected from the headers.</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Mapping */}
+          <div className="space-y-3">
+            {LAYOUT_FIELDS.map(field => (
+              <label key={field.key} className="block">
+                <span className="block text-xs font-semibold text-gray-500 uppercase mb-1">{field.label}</span>
+                <input
+                  type={field.key === 'gridHeaderRow' || field.key === 'summaryHeaderRow' ? 'number' : 'text'}
+                  min="1"
+                  placeholder={field.placeholder}
+                  className="w-full px-3 py-1.5 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary/50 text-sm"
+                  value={draft[field.key]}
+                  onChange={(e) => setDraft({ ...draft, [field.key]: e.target.value })}
+                />
+              </label>
+            ))}
+            {!isValid && (
+              <p className="text-xs text-red-600">Use cells like C2, row numbers from 1 and column letters like B.</p>
+            )}
+          </div>
+
+          <div className="lg:col-span-2 space-y-4 min-w-0">
+            {/* Raw sheet */}
+            <div>
+              <h4 className="text-xs font-bold text-gray-900 uppercase tracking-wide mb-2">Sheet</h4>
+              {loadError && <p className="text-sm text-red-600">{loadError}</p>}
+              {cells === null && !loadError && <p className="text-sm text-gray-400 italic">Loading sheet...</p>}
+              {rows.length > 0 && (
+                <div className="overflow-auto max-h-64 border border-gray-200 rounded-lg">
+                  <table className="text-[11px] font-mono">
+                    <thead className="bg-gray-50 text-gray-500 sticky top-0">
+                      <tr>
+                        <th className="px-2 py-1"></th>
+                        {Array.from({ length: columnCount }, (_, c) => (
+                          <th key={c} className="px-2 py-1 font-semibold">{columnLetters(c)}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {rows.slice(0, PREVIEW_ROWS).map((row, r) => (
+                        <tr key={r}>
+                          <td className="px-2 py-1 bg-gray-50 text-gray-500 text-right">{r + 1}</td>
+                          {Array.from({ length: columnCount }, (_, c) => (
+                            <td key={c} className={`px-2 py-1 whitespace-nowrap max-w-[8rem] truncate ${cellClass(r, c)}`}>{String(row[c] ?? '')}</td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+
+            {/* Parse preview */}
+            {preview && (
+              <div>
+                <h4 className="text-xs font-bold text-gray-900 uppercase tracking-wide mb-2 flex items-center gap-2">
+                  Preview
+                  {!isEmpty && (
+                    <span className={`px-2 py-0.5 rounded-full text-[10px] font-normal ${preview.diagnostics.layoutUsed ? 'bg-green-100 text-green-700' : 'bg-yellow-100 text-yellow-700'}`}>
+                      {preview.diagnostics.layoutUsed ? 'Layout matched' : 'Layout not matched, using headers'}
+                    </span>
+                  )}
+                </h4>
+                <p className="text-xs text-gray-500 mb-2">
+                  Meal rate {preview.extractedRate ? formatMoney(preview.extractedRate, money) : 'not found'}
+                  {' · '}{preview.mealEntries.length} daily meal entries · {preview.deposits.length} deposits
+                </p>
+                <div className="mb-3">
+                  <SheetDiagnosticsReport diagnostics={preview.diagnostics} defaultOpen={preview.people.length === 0} />
+                </div>
+                {preview.people.length === 0 ? (
+                  <p className="text-sm text-gray-400 italic">No members found with this layout.</p>
+                ) : (
+                  <table className="w-full text-sm border border-gray-200 rounded-lg overflow-hidden">
+                    <thead className="bg-gray-50 text-xs text-gray-500 uppercase">
+                      <tr>
+                        <th className="px-3 py-2 text-left">Member</th>
+                        <th className="px-3 py-2 text-right">Meals</th>
+                        <th className="px-3 py-2 text-right">Paid</th>
+                        <th className="px-3 py-2 text-right">Sheet balance</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {preview.people.map(p => (
+                        <tr key={p.id}>
+                          <td className="px-3 py-2 font-medium text-gray-800">{p.name}</td>
+                          <td className="px-3 py-2 text-right font-mono">{p.meals}</td>
+                          <td className="px-3 py-2 text-right font-mono">{formatMoney(p.contribution, money)}</td>
+                          <td className="px-3 py-2 text-right font-mono text-gray-500">
+                            {p.customBalance !== undefined ? formatMoney(p.customBalance, money) : '—'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-between gap-3">
+          <button
+            onClick={() => handleSave(null)}
+            disabled={isSaving || !layout}
+            className="px-4 py-2 text-sm font-semibold text-red-600 hover:text-red-800 disabled:opacity-50"
+          >
+            Reset to Automatic
+          </button>
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              disabled={isSaving}
+              className="px-4 py-2 text-sm font-semibold text-gray-600 hover:text-gray-800 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => handleSave(isEmpty ? null : draftLayout)}
+              disabled={isSaving || !isValid}
+              className="bg-primary text-white px-4 py-2 rounded text-sm font-semibold hover:bg-indigo-700 transition disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save Layout'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,169 @@
+import React from 'react';
+import { formatMoney } from '../services/currencyService';
+import { MoneySettings, SyncDiff } from '../types';
+
+interface SyncPreviewProps {
+  diff: SyncDiff;
+  money: MoneySettings;
+  title: string;
+  description: string;
+  confirmLabel: string;
+  cancelLabel?: string;
+  isBusy?: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+  onClose?: () => void; // Header close button; defaults to onCancel
+}
+
+const Delta: React.FC<{ before: string; after: string; changed: boolean }> = ({ before, after, changed }) => (
+  changed ? (
+    <span className="font-mono">
+      <span className="text-gray-400 line-through mr-1">{before}</span>
+      <span className="text-gray-800 font-semibold">{after}</span>
+    </span>
+  ) : (
+    <span className="font-mono text-gray-500">{after}</span>
+  )
+);
+
+export const SyncPreview: React.FC<SyncPreviewProps> = ({
+  diff,
+  money,
+  title,
+  description,
+  confirmLabel,
+  cancelLabel = 'Cancel',
+  isBusy = false,
+  onConfirm,
+  onCancel,
+  onClose = onCancel
+}) => {
+  const rateChanged = diff.rateAfter !== diff.rateBefore;
+  const warnings = (diff.anomalies || []).filter(a => a.severity === 'warning');
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-fade-in">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl overflow-hidden flex flex-col max-h-[90vh]">
+        {/* Header */}
+        <div className="bg-gray-50 px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+          <div>
+            <h3 className="text-lg font-bold text-gray-800">{title}</h3>
+            <p className="text-xs text-gray-500">{description}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto space-y-4">
+          {diff.violations.length > 0 && (
+            <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+              <p className="font-semibold mb-1">This sync looks wrong:</p>
+              <ul className="list-disc list-inside space-y-0.5 text-xs">
+                {diff.violations.map(v => <li key={v}>{v}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {warnings.length > 0 && (
+            <div className="p-3 bg-yellow-50 border border-yellow-100 rounded-lg text-sm text-yellow-800">
+              <p className="font-semibold mb-1">Worth checking:</p>
+              <ul className="list-disc list-inside space-y-0.5 text-xs">
+                {warnings.map(w => <li key={w.message}>{w.message}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {/* Summary */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-center">
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <span className="block text-xs text-gray-500">Meal rate</span>
+              <Delta before={formatMoney(diff.rateBefore, money)} after={formatMoney(diff.rateAfter, money)} changed={rateChanged} />
+            </div>
+            <div className="p-3 bg-green-50 rounded-lg">
+              <span className="block text-xs text-green-700">Added</span>
+              <span className="font-bold text-green-800">{diff.added.length}</span>
+            </div>
+            <div className="p-3 bg-red-50 rounded-lg">
+              <span className="block text-xs text-red-700">Removed</span>
+              <span className="font-bold text-red-800">{diff.removed.length}</span>
+            </div>
+            <div className="p-3 bg-blue-50 rounded-lg">
+              <span className="block text-xs text-blue-700">Changed / unchanged</span>
+              <span className="font-bold text-blue-800">{diff.changed.length} / {diff.unchangedCount}</span>
+            </div>
+          </div>
+
+          {diff.added.length > 0 && (
+            <p className="text-sm text-gray-700">
+              <span className="font-semibold text-green-700">New members: </span>
+              {diff.added.join(', ')}
+            </p>
+          )}
+
+          {diff.removed.length > 0 && (
+            <p className="text-sm text-gray-700">
+              <span className="font-semibold text-red-700">No longer in the sheet: </span>
+              {diff.removed.join(', ')}
+            </p>
+          )}
+
+          {diff.changed.length > 0 && (
+            <table className="w-full text-sm border border-gray-200 rounded-lg overflow-hidden">
+              <thead className="bg-gray-50 text-xs text-gray-500 uppercase">
+                <tr>
+                  <th className="px-3 py-2 text-left">Member</th>
+                  <th className="px-3 py-2 text-right">Meals</th>
+                  <th className="px-3 py-2 text-right">Paid</th>
+                  <th className="px-3 py-2 text-right">Balance</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {diff.changed.map(c => (
+                  <tr key={c.name}>
+                    <td className="px-3 py-2 font-medium text-gray-800">{c.name}</td>
+                    <td className="px-3 py-2 text-right">
+                      <Delta before={String(c.mealsBefore)} after={String(c.mealsAfter)} changed={c.mealsBefore !== c.mealsAfter} />
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <Delta
+                        before={formatMoney(c.contributionBefore, money)}
+                        after={formatMoney(c.contributionAfter, money)}
+                        changed={c.contributionBefore !== c.contributionAfter}
+                      />
+                    </td>
+                    <td className={`px-3 py-2 text-right ${c.balanceAfter < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      <Delta
+                        before={formatMoney(c.balanceBefore, money)}
+                        after={formatMoney(c.balanceAfter, money)}
+                        changed={c.balanceBefore !== c.balanceAfter}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-3">
+          <button
+            onClick={onCancel}
+            disabled={isBusy}
+            className="px-4 py-2 text-sm font-semibold text-gray-600 hover:text-gray-800 disabled:opacity-50"
+          >
+            {cancelLabel}
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={isBusy}
+            className="bg-primary text-white px-4 py-2 rounded text-sm font-semibold hover:bg-indigo-700 transition disabled:opacity-50"
+          >
+            {isBusy ? 'Applying...' : confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
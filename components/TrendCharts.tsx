@@ -0,0 +1,170 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { dbService } from '../services/dbService';
+import { formatMoney } from '../services/currencyService';
+import { Balance, BalanceSnapshot, MoneySettings } from '../types';
+
+interface TrendChartsProps {
+  balances: Balance[];
+  money: MoneySettings;
+}
+
+const LINE_COLORS = ['#4f46e5', '#10b981', '#f59e0b', '#ef4444', '#0ea5e9', '#8b5cf6', '#ec4899', '#14b8a6', '#84cc16', '#64748b'];
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+const daysAgo = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return toDateInput(date);
+};
+
+const PRESETS = [
+  { label: '7D', days: 7 },
+  { label: '30D', days: 30 },
+  { label: '90D', days: 90 }
+];
+
+export const TrendCharts: React.FC<TrendChartsProps> = ({ balances, money }) => {
+  const [from, setFrom] = useState(() => daysAgo(30));
+  const [to, setTo] = useState(() => toDateInput(new Date()));
+  const [metric, setMetric] = useState<'balance' | 'meals'>('balance');
+  const [snapshots, setSnapshots] = useState<BalanceSnapshot[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Reload when the range changes, and when balances change since a sync adds a snapshot
+  useEffect(() => {
+    setIsLoading(true);
+    dbService.getHistory(from, to)
+      .then(setSnapshots)
+      .finally(() => setIsLoading(false));
+  }, [from, to, balances]);
+
+  const memberNames = useMemo(
+    () => Array.from(new Set(snapshots.flatMap(s => s.people.map(p => p.name)))),
+    [snapshots]
+  );
+
+  // One row per snapshot, with a column per member for the selected metric
+  const data = useMemo(() => snapshots.map(s => {
+    const row: Record<string, number | string> = {
+      takenAt: new Date(s.takenAt).toLocaleDateString(),
+      mealRate: parseFloat(s.mealRate.toFixed(2))
+    };
+    for (const p of s.people) {
+      row[p.name] = parseFloat(p[metric].toFixed(2));
+    }
+    return row;
+  }), [snapshots, metric]);
+
+  const applyPreset = (days: number) => {
+    setFrom(daysAgo(days));
+    setTo(toDateInput(new Date()));
+  };
+
+  const tooltipStyle = { borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 md:col-span-2">
+      <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">Trends</h3>
+          <p className="text-xs text-gray-500">Built from the balance snapshot stored on every sync.</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          {PRESETS.map(p => (
+            <button
+              key={p.label}
+              onClick={() => applyPreset(p.days)}
+              className={`px-2 py-1 rounded text-xs font-semibold transition ${from === daysAgo(p.days) && to === toDateInput(new Date()) ? 'bg-primary text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+            >
+              {p.label}
+            </button>
+          ))}
+          <input
+            type="date"
+            className="px-2 py-1 border border-gray-300 rounded text-xs outline-none"
+            value={from}
+            max={to}
+            onChange={e => setFrom(e.target.value)}
+          />
+          <span className="text-gray-400">–</span>
+          <input
+            type="date"
+            className="px-2 py-1 border border-gray-300 rounded text-xs outline-none"
+            value={to}
+            min={from}
+            onChange={e => setTo(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {snapshots.length === 0 ? (
+        <p className="text-sm text-gray-400 italic text-center py-12">
+          {isLoading ? 'Loading history...' : 'No syncs in this range yet. Each sheet sync adds a point to these charts.'}
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="h-72">
+            <h4 className="text-sm font-semibold text-gray-700 mb-2">Meal Rate</h4>
+            <ResponsiveContainer width="100%" height="90%">
+              <LineChart data={data} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="takenAt" tick={{ fontSize: 11 }} />
+                <YAxis tick={{ fontSize: 11 }} />
+                <Tooltip formatter={(value: number) => [formatMoney(value, money), 'Meal rate']} contentStyle={tooltipStyle} />
+                <Line type="monotone" dataKey="mealRate" stroke="#4f46e5" strokeWidth={2} dot={{ r: 3 }} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="h-72">
+            <div className="flex justify-between items-center mb-2">
+              <h4 className="text-sm font-semibold text-gray-700">
+                {metric === 'balance' ? 'Member Balances' : 'Cumulative Meals'}
+              </h4>
+              <div className="flex gap-1 text-xs">
+                <button
+                  onClick={() => setMetric('balance')}
+                  className={`px-2 py-0.5 rounded font-semibold ${metric === 'balance' ? 'bg-primary/10 text-primary' : 'text-gray-500 hover:text-gray-700'}`}
+                >
+                  Balance
+                </button>
+                <button
+                  onClick={() => setMetric('meals')}
+                  className={`px-2 py-0.5 rounded font-semibold ${metric === 'meals' ? 'bg-primary/10 text-primary' : 'text-gray-500 hover:text-gray-700'}`}
+                >
+                  Meals
+                </button>
+              </div>
+            </div>
+            <ResponsiveContainer width="100%" height="90%">
+              <LineChart data={data} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="takenAt" tick={{ fontSize: 11 }} />
+                <YAxis tick={{ fontSize: 11 }} />
+                <Tooltip
+                  formatter={(value: number, name: string) => [metric === 'balance' ? formatMoney(value, money) : value, name]}
+                  contentStyle={tooltipStyle}
+                />
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+                {metric === 'balance' && <ReferenceLine y={0} stroke="#666" />}
+                {memberNames.map((name, i) => (
+                  <Line
+                    key={name}
+                    type="monotone"
+                    dataKey={name}
+                    stroke={LINE_COLORS[i % LINE_COLORS.length]}
+                    strokeWidth={2}
+                    dot={false}
+                    connectNulls
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
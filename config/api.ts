@@ -29,7 +29,7 @@ export const getApiUrl = (): string => {
   
   // Fallback for deployed environment (Netlify Functions)
   if (typeof window !== 'undefined' && window.location.hostname !== 'localhost') {
-    return '/.netlify/functions/server-cjs';
+    return '/.netlify/functions/server';
   }
   
   // Default fallback for local development
@@ -1,6 +1,7 @@
 import serverless from 'serverless-http';
 import express from 'express';
 import session from 'express-session';
+import { MongoStore } from 'connect-mongo';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import passport from '../../server/config/passport.js';
@@ -9,6 +10,20 @@ import authRoutes from '../../server/routes/auth.js';
 import memberRoutes from '../../server/routes/members.js';
 import notificationRoutes from '../../server/routes/notifications.js';
 import sheetRoutes from '../../server/routes/sheet.js';
+import expenseRoutes from '../../server/routes/expenses.js';
+import mealRoutes from '../../server/routes/meals.js';
+import depositRoutes from '../../server/routes/deposits.js';
+import guestMealRoutes from '../../server/routes/guestMeals.js';
+import fixedCostRoutes from '../../server/routes/fixedCosts.js';
+import settlementRoutes from '../../server/routes/settlements.js';
+import paymentRoutes from '../../server/routes/payments.js';
+import historyRoutes from '../../server/routes/history.js';
+import forecastRoutes from '../../server/routes/forecast.js';
+import auditRoutes from '../../server/routes/audit.js';
+import cycleRoutes from '../../server/routes/cycles.js';
+import groupRoutes from '../../server/routes/groups.js';
+import portalRoutes from '../../server/routes/portal.js';
+import { migrateLegacyUsers } from '../../server/services/groupService.js';
 
 // Load environment variables first
 dotenv.config();
@@ -21,6 +36,8 @@ const ensureDB = async () => {
   if (!dbConnected) {
     try {
       await connectDB();
+      // There is no long-running server here to migrate pre-group accounts at startup
+      await migrateLegacyUsers();
       dbConnected = true;
       console.log('✅ Database connected');
     } catch (error) {
@@ -48,17 +65,36 @@ app.use(cors({
   origin: process.env.CLIENT_URL || process.env.URL || '*',
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization']
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-File-Name']
 }));
 
+// serverless-http can hand JSON bodies over as raw bytes, which express.json() then skips
+app.use((req, res, next) => {
+  if (Buffer.isBuffer(req.body) && req.headers['content-type']?.includes('application/json')) {
+    try {
+      req.body = JSON.parse(req.body.toString('utf8'));
+    } catch (error) {
+      console.error('❌ Failed to parse JSON body:', error);
+    }
+  }
+  next();
+});
+
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
-// Session configuration for serverless
+// Session configuration for serverless: sessions live in MongoDB, since
+// each function instance has its own memory
 app.use(session({
   secret: process.env.SESSION_SECRET || 'fallback-secret-change-in-production',
   resave: false,
   saveUninitialized: false,
+  store: MongoStore.create({
+    mongoUrl: process.env.MONGODB_URI,
+    ttl: 24 * 60 * 60, // 1 day
+    touchAfter: 24 * 3600 // Lazy session update
+  }),
+  name: 'mealshare.sid',
   cookie: {
     maxAge: 24 * 60 * 60 * 1000, // 24 hours
     httpOnly: true,
@@ -103,6 +139,19 @@ app.use('/auth', authRoutes);
 app.use('/api/members', memberRoutes);
 app.use('/api/notifications', notificationRoutes);
 app.use('/api/sheet', sheetRoutes);
+app.use('/api/expenses', expenseRoutes);
+app.use('/api/meals', mealRoutes);
+app.use('/api/deposits', depositRoutes);
+app.use('/api/guest-meals', guestMealRoutes);
+app.use('/api/fixed-costs', fixedCostRoutes);
+app.use('/api/settlements', settlementRoutes);
+app.use('/api/payments', paymentRoutes);
+app.use('/api/history', historyRoutes);
+app.use('/api/forecast', forecastRoutes);
+app.use('/api/audit', auditRoutes);
+app.use('/api/cycles', cycleRoutes);
+app.use('/api/groups', groupRoutes);
+app.use('/api/portal', portalRoutes);
 
 // Health check (for backward compatibility)
 app.get('/health', (req, res) => {
@@ -1,7 +1,9 @@
 import passport from 'passport';
-import { Strategy as GoogleStrategy } from 'passport-google-oauth20';
+import { Strategy as GoogleStrategy, GoogleCallbackParameters, Profile, VerifyCallback } from 'passport-google-oauth20';
 import dotenv from 'dotenv';
 import User, { IUser } from '../models/User.js';
+import { resolveUserRole } from '../services/portalService.js';
+import { SHEETS_SCOPE } from '../services/sheetsApiService.js';
 
 // Load environment variables
 dotenv.config();
@@ -14,28 +16,40 @@ passport.use(
       clientSecret: process.env.GOOGLE_CLIENT_SECRET!,
       callbackURL: process.env.GOOGLE_CALLBACK_URL || '/.netlify/functions/server/auth/google/callback'
     },
-    async (accessToken, refreshToken, profile, done) => {
+    async (accessToken: string, refreshToken: string, params: GoogleCallbackParameters, profile: Profile, done: VerifyCallback) => {
       try {
+        // Granted through /auth/google/sheets; plain logins don't get a refresh token
+        const sheetsRefreshToken = refreshToken && params.scope?.split(' ').includes(SHEETS_SCOPE)
+          ? refreshToken
+          : undefined;
+
         // Check if user already exists
         let user = await User.findOne({ googleId: profile.id });
 
         if (user) {
-          // Update last login
+          // Update last login (and role, in case they became a member or manager since)
           user.lastLogin = new Date();
+          user.role = await resolveUserRole(user);
+          if (sheetsRefreshToken) user.sheetsRefreshToken = sheetsRefreshToken;
           user = await user.save();
           return done(null, user);
         }
 
         // Create new user
-        const newUser = await User.create({
+        const newUser = new User({
           googleId: profile.id,
           email: profile.emails?.[0]?.value,
           name: profile.displayName,
           photoURL: profile.photos?.[0]?.value,
           createdAt: new Date(),
-          lastLogin: new Date()
+          lastLogin: new Date(),
+          sheetsRefreshToken: sheetsRefreshToken || null
         });
 
+        // Members listed in a mess get the read-only portal
+        newUser.role = await resolveUserRole(newUser);
+        await newUser.save();
+
         done(null, newUser);
       } catch (error) {
         done(error as Error, undefined);
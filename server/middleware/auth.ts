@@ -6,3 +6,11 @@ export const isAuthenticated = (req: Request, res: Response, next: NextFunction)
   }
   res.status(401).json({ error: 'Authentication required' });
 };
+
+// Members signed in through the self-service portal may only use /api/portal
+export const requireManager = (req: Request, res: Response, next: NextFunction) => {
+  if ((req.user as any)?.role !== 'member') {
+    return next();
+  }
+  res.status(403).json({ error: 'Manager access required' });
+};
@@ -0,0 +1,13 @@
+import { Request, Response, NextFunction } from 'express';
+import { resolveActiveGroup } from '../services/groupService.js';
+
+// Attach the authenticated user's active group to the request as req.group
+export const withGroup = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    (req as any).group = await resolveActiveGroup(req.user as any);
+    next();
+  } catch (error) {
+    console.error('Error resolving active group:', error);
+    res.status(500).json({ error: 'Failed to resolve active group' });
+  }
+};
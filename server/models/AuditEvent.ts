@@ -0,0 +1,64 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IAuditChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+export interface IAuditEvent extends Document {
+  groupId: mongoose.Types.ObjectId;
+  actorId?: mongoose.Types.ObjectId; // Empty for the scheduler
+  actorEmail: string;
+  action: string;                    // e.g. 'member.update', 'sheet.config.update'
+  target?: string;                   // What was changed, e.g. the member's sheet name
+  changes: IAuditChange[];
+  createdAt: Date;
+}
+
+// Audit events are write-once: every field is immutable and there is no updatedAt
+const AuditEventSchema: Schema = new Schema({
+  groupId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Group',
+    required: true,
+    immutable: true
+  },
+  actorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    default: null,
+    immutable: true
+  },
+  actorEmail: {
+    type: String,
+    required: true,
+    immutable: true
+  },
+  action: {
+    type: String,
+    required: true,
+    immutable: true
+  },
+  target: {
+    type: String,
+    default: null,
+    immutable: true
+  },
+  changes: {
+    type: [{
+      _id: false,
+      field: { type: String, required: true },
+      before: { type: Schema.Types.Mixed, default: null },
+      after: { type: Schema.Types.Mixed, default: null }
+    }],
+    immutable: true
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+AuditEventSchema.index({ groupId: 1, createdAt: -1 });
+AuditEventSchema.index({ groupId: 1, action: 1, createdAt: -1 });
+
+export default mongoose.model<IAuditEvent>('AuditEvent', AuditEventSchema);
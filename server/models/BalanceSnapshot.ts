@@ -0,0 +1,69 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import type { SyncedDataSource } from './SyncedDataVersion.js';
+
+export interface ISnapshotPerson {
+  name: string;
+  meals: number;
+  contribution: number;
+  cost: number;
+  balance: number;
+}
+
+export interface IBalanceSnapshot extends Document {
+  groupId: mongoose.Types.ObjectId;
+  source: SyncedDataSource;
+  mealRate: number;
+  totalCost: number;
+  totalMeals: number;
+  people: ISnapshotPerson[];
+  createdAt: Date;
+}
+
+// Snapshots are write-once: every field is immutable and there is no updatedAt
+const BalanceSnapshotSchema: Schema = new Schema({
+  groupId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Group',
+    required: true,
+    immutable: true
+  },
+  // The sync that produced it: same sources as the synced data versions
+  source: {
+    type: String,
+    enum: ['manual', 'scheduled', 'approved', 'restore', 'upload'],
+    required: true,
+    immutable: true
+  },
+  mealRate: {
+    type: Number,
+    required: true,
+    immutable: true
+  },
+  totalCost: {
+    type: Number,
+    required: true,
+    immutable: true
+  },
+  totalMeals: {
+    type: Number,
+    required: true,
+    immutable: true
+  },
+  people: {
+    type: [{
+      _id: false,
+      name: { type: String, required: true },
+      meals: { type: Number, default: 0 },
+      contribution: { type: Number, default: 0 },
+      cost: { type: Number, default: 0 },
+      balance: { type: Number, default: 0 }
+    }],
+    immutable: true
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+BalanceSnapshotSchema.index({ groupId: 1, createdAt: -1 });
+
+export default mongoose.model<IBalanceSnapshot>('BalanceSnapshot', BalanceSnapshotSchema);
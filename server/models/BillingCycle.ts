@@ -0,0 +1,98 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IBillingCycle extends Document {
+  groupId: mongoose.Types.ObjectId;
+  label: string;
+  startDate: Date;
+  endDate?: Date;
+  status: 'open' | 'closed';
+  mealRate?: number;
+  totalCost?: number;
+  totalMeals?: number;
+  openingBalances: {
+    memberName: string;
+    amount: number;
+  }[];
+  closingBalances: {
+    memberName: string;
+    meals: number;
+    contribution: number;
+    cost: number;
+    balance: number;
+  }[];
+  closedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const BillingCycleSchema: Schema = new Schema({
+  groupId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Group',
+    required: true,
+    index: true
+  },
+  label: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  startDate: {
+    type: Date,
+    required: true
+  },
+  endDate: {
+    type: Date,
+    default: null
+  },
+  status: {
+    type: String,
+    enum: ['open', 'closed'],
+    default: 'open'
+  },
+
+  // Frozen when the cycle is closed
+  mealRate: {
+    type: Number,
+    default: null
+  },
+  totalCost: {
+    type: Number,
+    default: null
+  },
+  totalMeals: {
+    type: Number,
+    default: null
+  },
+
+  // Carried forward from the previous cycle's closing balances
+  openingBalances: {
+    type: [{
+      _id: false,
+      memberName: { type: String, required: true },
+      amount: { type: Number, required: true }
+    }],
+    default: []
+  },
+  closingBalances: {
+    type: [{
+      _id: false,
+      memberName: { type: String, required: true },
+      meals: { type: Number, default: 0 },
+      contribution: { type: Number, default: 0 },
+      cost: { type: Number, default: 0 },
+      balance: { type: Number, default: 0 }
+    }],
+    default: []
+  },
+  closedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+BillingCycleSchema.index({ groupId: 1, startDate: -1 });
+
+export default mongoose.model<IBillingCycle>('BillingCycle', BillingCycleSchema);
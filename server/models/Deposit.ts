@@ -0,0 +1,58 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IDeposit extends Document {
+  groupId: mongoose.Types.ObjectId;
+  memberName: string;
+  amount: number;
+  date: Date;
+  method: 'cash' | 'bkash' | 'nagad' | 'bank' | 'other';
+  note?: string;
+  source: 'manual' | 'sheet';
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DepositSchema: Schema = new Schema({
+  groupId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Group',
+    required: true,
+    index: true
+  },
+  memberName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  amount: {
+    type: Number,
+    required: true
+  },
+  date: {
+    type: Date,
+    required: true,
+    default: Date.now
+  },
+  method: {
+    type: String,
+    enum: ['cash', 'bkash', 'nagad', 'bank', 'other'],
+    default: 'cash'
+  },
+  note: {
+    type: String,
+    default: null,
+    trim: true
+  },
+  source: {
+    type: String,
+    enum: ['manual', 'sheet'],
+    default: 'manual'
+  }
+}, {
+  timestamps: true
+});
+
+// A member's deposits of a day, by where they came from
+DepositSchema.index({ groupId: 1, memberName: 1, date: 1, source: 1 });
+
+export default mongoose.model<IDeposit>('Deposit', DepositSchema);
@@ -0,0 +1,47 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IExpense extends Document {
+  groupId: mongoose.Types.ObjectId;
+  payerId: mongoose.Types.ObjectId;
+  amount: number;
+  description: string;
+  date: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ExpenseSchema: Schema = new Schema({
+  groupId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Group',
+    required: true,
+    index: true
+  },
+  payerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Member',
+    required: true
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  description: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  date: {
+    type: Date,
+    required: true,
+    default: Date.now
+  }
+}, {
+  timestamps: true
+});
+
+// Ledger is always listed newest first per group
+ExpenseSchema.index({ groupId: 1, date: -1 });
+
+export default mongoose.model<IExpense>('Expense', ExpenseSchema);
@@ -0,0 +1,66 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IFixedCost extends Document {
+  groupId: mongoose.Types.ObjectId;
+  cycleId?: mongoose.Types.ObjectId;
+  name: string;
+  amount: number;
+  split: 'equal' | 'shares';
+  shares: {
+    memberName: string;
+    share: number;
+  }[];
+  recurring: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const FixedCostSchema: Schema = new Schema({
+  groupId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Group',
+    required: true,
+    index: true
+  },
+  // Billing cycle the cost belongs to (null while no cycle is open)
+  cycleId: {
+    type: Schema.Types.ObjectId,
+    ref: 'BillingCycle',
+    default: null
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  split: {
+    type: String,
+    enum: ['equal', 'shares'],
+    default: 'equal'
+  },
+  // Relative weights when split by shares, e.g. a bigger room paying 2 shares of rent
+  shares: {
+    type: [{
+      _id: false,
+      memberName: { type: String, required: true, trim: true },
+      share: { type: Number, required: true, min: 0 }
+    }],
+    default: []
+  },
+  // Recurring costs (rent, internet) are copied into the next cycle when it opens
+  recurring: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+FixedCostSchema.index({ groupId: 1, cycleId: 1 });
+
+export default mongoose.model<IFixedCost>('FixedCost', FixedCostSchema);
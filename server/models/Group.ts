@@ -0,0 +1,203 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { DEFAULT_MEAL_TYPES } from '../../services/mealTypeService.js';
+import { DEFAULT_MONEY_SETTINGS } from '../../services/currencyService.js';
+import { DEFAULT_SYNC_LIMITS } from '../../services/syncDiffService.js';
+import type { SheetLayout, SheetSource, SheetsApiSource, SyncDiff, SyncLimits } from '../../types.js';
+
+export interface INotificationConfig {
+  scheduledTime?: string;
+  threshold?: number;
+  emailEnabled?: boolean;
+  autoSend?: boolean;
+  isEnabled?: boolean;
+  tone?: string;
+}
+
+// A scheduled sync held back because its diff went past the sync limits
+export interface IPendingSync {
+  people: any[];
+  sheetMealRate?: number | null;
+  mealEntries: any[];
+  deposits: any[];
+  diff: SyncDiff;
+  fetchedAt: Date;
+}
+
+export interface IGroup extends Document {
+  ownerId: mongoose.Types.ObjectId;
+  name: string;
+  csvUrl?: string;
+
+  // Where syncs read the sheet from; 'api' reads sheetsApi with the Google account of the manager who linked it
+  sheetSource: SheetSource;
+  sheetsApi?: (SheetsApiSource & { linkedBy?: mongoose.Types.ObjectId | null }) | null;
+  uploadedFileName?: string | null; // Last file saved while the source is 'upload'
+
+  // Where the parser finds the rate, meal grid and summary table; null uses the header heuristics
+  sheetLayout?: SheetLayout | null;
+
+  // Money formatting for the UI, emails and reminder prompts
+  currency: string;
+  locale: string;
+  lastFetchTime?: Date;
+
+  // Synced data storage
+  syncedPeople?: any[];
+  sheetMealRate?: number;
+  syncedAt?: Date | null; // When the sheet behind syncedPeople was read
+
+  // Auto-sync scheduler settings
+  autoSyncEnabled?: boolean;
+  autoSyncTime?: string;
+
+  // Scheduled syncs past these limits wait for review in pendingSync
+  syncLimits: SyncLimits;
+  pendingSync?: IPendingSync | null;
+
+  // Notification center configuration
+  notificationConfig?: INotificationConfig;
+
+  // Meal types and their weights in meal units
+  mealTypes: {
+    key: string;
+    label: string;
+    weight: number;
+  }[];
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const GroupSchema: Schema = new Schema({
+  ownerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  csvUrl: {
+    type: String,
+    default: null
+  },
+  sheetSource: {
+    type: String,
+    enum: ['csv', 'api', 'upload'],
+    default: 'csv'
+  },
+  sheetsApi: {
+    type: {
+      _id: false,
+      spreadsheetId: { type: String, trim: true },
+      tab: { type: String, trim: true },
+      range: { type: String, trim: true },
+      linkedBy: { type: Schema.Types.ObjectId, ref: 'User' }
+    },
+    default: null
+  },
+  uploadedFileName: {
+    type: String,
+    default: null
+  },
+  sheetLayout: {
+    type: Schema.Types.Mixed,
+    default: null
+  },
+
+  // Money formatting for the UI, emails and reminder prompts
+  currency: {
+    type: String,
+    default: DEFAULT_MONEY_SETTINGS.currency,
+    uppercase: true,
+    trim: true
+  },
+  locale: {
+    type: String,
+    default: DEFAULT_MONEY_SETTINGS.locale,
+    trim: true
+  },
+  lastFetchTime: {
+    type: Date,
+    default: null
+  },
+
+  // Synced data storage
+  syncedPeople: {
+    type: [Schema.Types.Mixed],
+    default: []
+  },
+  sheetMealRate: {
+    type: Number,
+    default: null
+  },
+  // Carried-forward balances only apply to sheet data read after the cycle opened
+  syncedAt: {
+    type: Date,
+    default: null
+  },
+
+  // Auto-sync scheduler settings
+  autoSyncEnabled: {
+    type: Boolean,
+    default: false
+  },
+  autoSyncTime: {
+    type: String,
+    default: '09:00'
+  },
+
+  // Scheduled syncs past these limits wait for review in pendingSync
+  syncLimits: {
+    type: {
+      _id: false,
+      maxRemovedMembers: { type: Number, min: 0, default: DEFAULT_SYNC_LIMITS.maxRemovedMembers },
+      maxMealDrop: { type: Number, min: 0, default: DEFAULT_SYNC_LIMITS.maxMealDrop },
+      maxBalanceChange: { type: Number, min: 0, default: DEFAULT_SYNC_LIMITS.maxBalanceChange },
+      maxRateChangePercent: { type: Number, min: 0, default: DEFAULT_SYNC_LIMITS.maxRateChangePercent }
+    },
+    default: () => ({ ...DEFAULT_SYNC_LIMITS })
+  },
+  pendingSync: {
+    type: Schema.Types.Mixed,
+    default: null
+  },
+
+  // Notification center configuration
+  notificationConfig: {
+    type: {
+      scheduledTime: { type: String, default: '18:00' },
+      threshold: { type: Number, default: 100 },
+      emailEnabled: { type: Boolean, default: false },
+      autoSend: { type: Boolean, default: false },
+      isEnabled: { type: Boolean, default: false },
+      tone: { type: String, default: 'friendly' }
+    },
+    default: () => ({
+      scheduledTime: '18:00',
+      threshold: 100,
+      emailEnabled: false,
+      autoSend: false,
+      isEnabled: false,
+      tone: 'friendly'
+    })
+  },
+
+  // Meal types and their weights in meal units
+  mealTypes: {
+    type: [{
+      _id: false,
+      key: { type: String, required: true, trim: true },
+      label: { type: String, required: true, trim: true },
+      weight: { type: Number, required: true, min: 0 }
+    }],
+    default: () => DEFAULT_MEAL_TYPES.map(t => ({ ...t }))
+  }
+}, {
+  timestamps: true
+});
+
+export default mongoose.model<IGroup>('Group', GroupSchema);
@@ -0,0 +1,60 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IGuestMeal extends Document {
+  groupId: mongoose.Types.ObjectId;
+  hostName: string;
+  guestName?: string;
+  date: Date;
+  meals: number;
+  multiplier: number;
+  note?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const GuestMealSchema: Schema = new Schema({
+  groupId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Group',
+    required: true,
+    index: true
+  },
+  // Member who brought the guest and is charged for their meals
+  hostName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  guestName: {
+    type: String,
+    default: null,
+    trim: true
+  },
+  date: {
+    type: Date,
+    required: true,
+    default: Date.now
+  },
+  meals: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  // Guest meals can be charged above (or below) the regular meal rate
+  multiplier: {
+    type: Number,
+    default: 1,
+    min: 0
+  },
+  note: {
+    type: String,
+    default: null,
+    trim: true
+  }
+}, {
+  timestamps: true
+});
+
+GuestMealSchema.index({ groupId: 1, date: 1 });
+
+export default mongoose.model<IGuestMeal>('GuestMeal', GuestMealSchema);
@@ -0,0 +1,54 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IMealEntry extends Document {
+  groupId: mongoose.Types.ObjectId;
+  memberName: string;
+  date: Date;
+  meals: number;
+  byType?: Record<string, number>;
+  source: 'sheet' | 'manual';
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MealEntrySchema: Schema = new Schema({
+  groupId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Group',
+    required: true,
+    index: true
+  },
+  memberName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  date: {
+    type: Date,
+    required: true
+  },
+  // Weighted meal units (sheet grids only give this total)
+  meals: {
+    type: Number,
+    required: true,
+    default: 0
+  },
+  // Per-type counts for entries recorded by meal type
+  byType: {
+    type: Schema.Types.Mixed,
+    default: null
+  },
+  source: {
+    type: String,
+    enum: ['sheet', 'manual'],
+    default: 'sheet'
+  }
+}, {
+  timestamps: true
+});
+
+// One entry per member per day for each group
+MealEntrySchema.index({ groupId: 1, memberName: 1, date: 1 }, { unique: true });
+MealEntrySchema.index({ groupId: 1, date: 1 });
+
+export default mongoose.model<IMealEntry>('MealEntry', MealEntrySchema);
@@ -2,6 +2,7 @@ import mongoose, { Schema, Document } from 'mongoose';
 
 export interface IMember extends Document {
   userId: mongoose.Types.ObjectId;
+  groupId: mongoose.Types.ObjectId;
   sheetName: string;
   email: string;
   phone?: string;
@@ -16,6 +17,12 @@ const MemberSchema: Schema = new Schema({
     required: true,
     index: true
   },
+  groupId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Group',
+    required: true,
+    index: true
+  },
   sheetName: {
     type: String,
     required: true,
@@ -35,7 +42,7 @@ const MemberSchema: Schema = new Schema({
   timestamps: true
 });
 
-// Compound index to ensure unique sheet names per user
-MemberSchema.index({ userId: 1, sheetName: 1 }, { unique: true });
+// Compound index to ensure unique sheet names per group
+MemberSchema.index({ groupId: 1, sheetName: 1 }, { unique: true });
 
 export default mongoose.model<IMember>('Member', MemberSchema);
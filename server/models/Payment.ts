@@ -0,0 +1,60 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IPayment extends Document {
+  groupId: mongoose.Types.ObjectId;
+  fromName?: string;
+  toName?: string;
+  amount: number;
+  date: Date;
+  method: 'cash' | 'bkash' | 'nagad' | 'bank' | 'other';
+  note?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PaymentSchema: Schema = new Schema({
+  groupId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Group',
+    required: true,
+    index: true
+  },
+  // Member who paid (null: paid out of the mess fund)
+  fromName: {
+    type: String,
+    default: null,
+    trim: true
+  },
+  // Member who received (null: paid into the mess fund)
+  toName: {
+    type: String,
+    default: null,
+    trim: true
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  date: {
+    type: Date,
+    required: true,
+    default: Date.now
+  },
+  method: {
+    type: String,
+    enum: ['cash', 'bkash', 'nagad', 'bank', 'other'],
+    default: 'cash'
+  },
+  note: {
+    type: String,
+    default: null,
+    trim: true
+  }
+}, {
+  timestamps: true
+});
+
+PaymentSchema.index({ groupId: 1, date: 1 });
+
+export default mongoose.model<IPayment>('Payment', PaymentSchema);
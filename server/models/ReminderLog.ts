@@ -0,0 +1,67 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IReminderLog extends Document {
+  groupId: mongoose.Types.ObjectId;
+  memberName: string;
+  email: string;
+  message: string;
+  amountOwed: number;
+  trigger: 'manual' | 'scheduled';
+  status: 'open' | 'resolved';
+  resolvedAt?: Date;
+  paymentId?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReminderLogSchema: Schema = new Schema({
+  groupId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Group',
+    required: true,
+    index: true
+  },
+  memberName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  email: {
+    type: String,
+    required: true
+  },
+  message: {
+    type: String,
+    required: true
+  },
+  amountOwed: {
+    type: Number,
+    default: 0
+  },
+  trigger: {
+    type: String,
+    enum: ['manual', 'scheduled'],
+    default: 'manual'
+  },
+  // Open until the member records a payment
+  status: {
+    type: String,
+    enum: ['open', 'resolved'],
+    default: 'open'
+  },
+  resolvedAt: {
+    type: Date,
+    default: null
+  },
+  paymentId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Payment',
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+ReminderLogSchema.index({ groupId: 1, memberName: 1, status: 1 });
+
+export default mongoose.model<IReminderLog>('ReminderLog', ReminderLogSchema);
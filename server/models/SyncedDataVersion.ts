@@ -0,0 +1,84 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import type { SyncAnomaly } from '../../types.js';
+
+export type SyncedDataSource = 'manual' | 'scheduled' | 'approved' | 'restore' | 'upload';
+
+export interface ISyncedDataVersion extends Document {
+  groupId: mongoose.Types.ObjectId;
+  source: SyncedDataSource;
+  actorEmail: string; // 'scheduler' for automatic syncs
+  people: any[];
+  sheetMealRate?: number | null;
+  mealEntries: any[];
+  deposits: any[];
+  restoredFrom?: mongoose.Types.ObjectId | null;
+  anomalies: SyncAnomaly[];
+  createdAt: Date;
+}
+
+// Versions are write-once copies of what a sync stored on the group
+const SyncedDataVersionSchema: Schema = new Schema({
+  groupId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Group',
+    required: true,
+    immutable: true
+  },
+  // Manual sync, scheduled auto-sync, an approved held sync, a restore of an older version or a file upload
+  source: {
+    type: String,
+    enum: ['manual', 'scheduled', 'approved', 'restore', 'upload'],
+    required: true,
+    immutable: true
+  },
+  actorEmail: {
+    type: String,
+    required: true,
+    immutable: true
+  },
+  people: {
+    type: [Schema.Types.Mixed],
+    default: [],
+    immutable: true
+  },
+  sheetMealRate: {
+    type: Number,
+    default: null,
+    immutable: true
+  },
+  // The meal grid and Joma deposits synced alongside, so a restore brings them back too
+  mealEntries: {
+    type: [Schema.Types.Mixed],
+    default: [],
+    immutable: true
+  },
+  deposits: {
+    type: [Schema.Types.Mixed],
+    default: [],
+    immutable: true
+  },
+  restoredFrom: {
+    type: Schema.Types.ObjectId,
+    ref: 'SyncedDataVersion',
+    default: null,
+    immutable: true
+  },
+  // Suspicious values found when this data was synced (see services/anomalyService.ts)
+  anomalies: {
+    type: [{
+      _id: false,
+      kind: { type: String, required: true },
+      severity: { type: String, enum: ['critical', 'warning'], required: true },
+      member: { type: String },
+      message: { type: String, required: true }
+    }],
+    default: [],
+    immutable: true
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+SyncedDataVersionSchema.index({ groupId: 1, createdAt: -1 });
+
+export default mongoose.model<ISyncedDataVersion>('SyncedDataVersion', SyncedDataVersionSchema);
@@ -5,6 +5,11 @@ export interface IUser extends Document {
   email: string;
   name: string;
   photoURL?: string;
+  role: 'manager' | 'member';
+  activeGroupId?: mongoose.Types.ObjectId;
+  sheetsRefreshToken?: string | null; // Read-only Google Sheets grant; never sent to the client
+
+  // Legacy single-mess settings, moved into the user's first Group on first use
   csvUrl?: string;
   lastFetchTime?: Date;
   createdAt: Date;
@@ -52,6 +57,24 @@ const UserSchema: Schema = new Schema({
     type: String,
     default: null
   },
+  role: {
+    type: String,
+    enum: ['manager', 'member'],
+    default: 'manager'
+  },
+  activeGroupId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Group',
+    default: null
+  },
+  // Offline grant of read-only Sheets access, used to read the sheets this user links
+  sheetsRefreshToken: {
+    type: String,
+    default: null,
+    select: false
+  },
+
+  // Legacy single-mess settings, moved into the user's first Group on first use
   csvUrl: {
     type: String,
     default: null
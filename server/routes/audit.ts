@@ -0,0 +1,45 @@
+import express, { Request, Response } from 'express';
+import AuditEvent from '../models/AuditEvent.js';
+import { isAuthenticated, requireManager } from '../middleware/auth.js';
+import { withGroup } from '../middleware/group.js';
+import { escapeRegExp } from '../services/nameMatchService.js';
+
+const router = express.Router();
+
+// Apply authentication middleware to all audit routes
+router.use(isAuthenticated);
+router.use(requireManager);
+router.use(withGroup);
+
+// @route   GET /api/audit?action=member&before=ISO-date&limit=50
+// @desc    Get audit events of the active group, newest first. `action` matches
+//          a prefix (e.g. 'member' or 'sheet.config'); `before` pages back in time.
+// @access  Private
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const groupId = (req as any).group._id;
+    const { action, before, limit } = req.query as { action?: string; before?: string; limit?: string };
+
+    const query: any = { groupId };
+    if (action) {
+      query.action = { $regex: new RegExp(`^${escapeRegExp(String(action))}`) };
+    }
+    if (before) {
+      const date = new Date(before);
+      if (isNaN(date.getTime())) {
+        return res.status(400).json({ error: 'before must be a date' });
+      }
+      query.createdAt = { $lt: date };
+    }
+
+    const max = Math.min(Number(limit) || 50, 200);
+    const events = await AuditEvent.find(query).sort({ createdAt: -1 }).limit(max);
+
+    res.json(events);
+  } catch (error) {
+    console.error('Error fetching audit log:', error);
+    res.status(500).json({ error: 'Failed to fetch audit log' });
+  }
+});
+
+export default router;
@@ -1,5 +1,7 @@
 import express, { Request, Response } from 'express';
 import passport from 'passport';
+import { isAuthenticated } from '../middleware/auth.js';
+import { SHEETS_SCOPE } from '../services/sheetsApiService.js';
 
 const router = express.Router();
 
@@ -10,6 +12,16 @@ router.get('/google', passport.authenticate('google', {
   scope: ['profile', 'email']
 }));
 
+// @route   GET /auth/google/sheets
+// @desc    Ask for read-only access to the user's Google Sheets, kept for scheduled syncs
+// @access  Private
+router.get('/google/sheets', isAuthenticated, passport.authenticate('google', {
+  scope: ['profile', 'email', SHEETS_SCOPE],
+  accessType: 'offline',
+  prompt: 'consent',
+  includeGrantedScopes: true
+}));
+
 // @route   GET /auth/google/callback
 // @desc    Google OAuth callback
 // @access  Public
@@ -0,0 +1,177 @@
+import express, { Request, Response } from 'express';
+import BillingCycle from '../models/BillingCycle.js';
+import FixedCost from '../models/FixedCost.js';
+import { isAuthenticated, requireManager } from '../middleware/auth.js';
+import { withGroup } from '../middleware/group.js';
+import { loadLedgerState } from '../services/ledgerStateService.js';
+import { calculateBalances } from '../../services/balanceService.js';
+
+const router = express.Router();
+
+// Apply authentication middleware to all billing cycle routes
+router.use(isAuthenticated);
+router.use(requireManager);
+router.use(withGroup);
+
+// "YYYY-MM" of a date, used as the default cycle label
+const monthLabel = (date: Date) =>
+  `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}`;
+
+// Copy recurring fixed costs (rent, internet...) into a newly opened cycle
+const carryForwardFixedCosts = async (groupId: any, fromCycleId: any, toCycleId: any) => {
+  const recurring = await FixedCost.find({ groupId, cycleId: fromCycleId, recurring: true });
+  if (recurring.length === 0) return;
+
+  await FixedCost.insertMany(recurring.map(c => ({
+    groupId,
+    cycleId: toCycleId,
+    name: c.name,
+    amount: c.amount,
+    split: c.split,
+    shares: c.shares.map(s => ({ memberName: s.memberName, share: s.share })),
+    recurring: true
+  })));
+};
+
+// @route   GET /api/cycles
+// @desc    Get all billing cycles, newest first
+// @access  Private
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const groupId = (req as any).group._id;
+    const cycles = await BillingCycle.find({ groupId }).sort({ startDate: -1 });
+
+    res.json(cycles);
+  } catch (error) {
+    console.error('Error fetching billing cycles:', error);
+    res.status(500).json({ error: 'Failed to fetch billing cycles' });
+  }
+});
+
+// @route   GET /api/cycles/current
+// @desc    Get the open billing cycle (null if none)
+// @access  Private
+router.get('/current', async (req: Request, res: Response) => {
+  try {
+    const groupId = (req as any).group._id;
+    const cycle = await BillingCycle.findOne({ groupId, status: 'open' });
+
+    res.json(cycle);
+  } catch (error) {
+    console.error('Error fetching current billing cycle:', error);
+    res.status(500).json({ error: 'Failed to fetch current billing cycle' });
+  }
+});
+
+// @route   POST /api/cycles/open
+// @desc    Open a new billing cycle, carrying forward the last closing balances
+// @access  Private
+router.post('/open', async (req: Request, res: Response) => {
+  try {
+    const groupId = (req as any).group._id;
+    const { label, startDate } = req.body;
+
+    const existing = await BillingCycle.findOne({ groupId, status: 'open' });
+    if (existing) {
+      return res.status(400).json({ error: `Cycle ${existing.label} is still open. Close it first.` });
+    }
+
+    const start = startDate ? new Date(startDate) : new Date();
+    if (isNaN(start.getTime())) {
+      return res.status(400).json({ error: 'Invalid start date' });
+    }
+
+    const previous = await BillingCycle.findOne({ groupId, status: 'closed' }).sort({ startDate: -1 });
+
+    const cycle = new BillingCycle({
+      groupId,
+      label: label || monthLabel(start),
+      startDate: start,
+      status: 'open',
+      openingBalances: (previous?.closingBalances || []).map(b => ({
+        memberName: b.memberName,
+        amount: b.balance
+      }))
+    });
+
+    await cycle.save();
+
+    // Recurring costs come from the last cycle, or from before cycles were used
+    await carryForwardFixedCosts(groupId, previous ? previous._id : null, cycle._id);
+
+    console.log(`📅 Billing cycle ${cycle.label} opened for group ${(req as any).group.name}`);
+
+    res.status(201).json(cycle);
+  } catch (error) {
+    console.error('Error opening billing cycle:', error);
+    res.status(500).json({ error: 'Failed to open billing cycle' });
+  }
+});
+
+// @route   POST /api/cycles/:id/close
+// @desc    Close a billing cycle, freezing its meal rate and balances
+// @access  Private
+router.post('/:id/close', async (req: Request, res: Response) => {
+  try {
+    const groupId = (req as any).group._id;
+    const { id } = req.params;
+    const { openNext } = req.body;
+
+    const cycle = await BillingCycle.findOne({ _id: id, groupId });
+    if (!cycle) {
+      return res.status(404).json({ error: 'Billing cycle not found' });
+    }
+    if (cycle.status === 'closed') {
+      return res.status(400).json({ error: 'Billing cycle is already closed' });
+    }
+
+    const group = (req as any).group;
+    const { people, sheetMealRate, totalCost } = await loadLedgerState(group);
+    const summary = calculateBalances(people, { sheetMealRate, totalCost });
+
+    const now = new Date();
+    cycle.status = 'closed';
+    cycle.endDate = now;
+    cycle.closedAt = now;
+    cycle.mealRate = summary.mealRate;
+    cycle.totalCost = summary.totalCost;
+    cycle.totalMeals = summary.totalMeals;
+    cycle.closingBalances = summary.balances.map(b => ({
+      memberName: b.name,
+      meals: b.meals,
+      contribution: b.contribution,
+      cost: b.cost,
+      balance: b.balance
+    }));
+    await cycle.save();
+
+    console.log(`🔒 Billing cycle ${cycle.label} closed for group ${group.name} at rate ${summary.mealRate.toFixed(2)}`);
+
+    let nextCycle = null;
+    if (openNext) {
+      // The next cycle is labelled with the month after the one just closed
+      const nextMonth = new Date(cycle.startDate.getFullYear(), cycle.startDate.getMonth() + 1, 1);
+      nextCycle = new BillingCycle({
+        groupId,
+        label: monthLabel(nextMonth),
+        startDate: now,
+        status: 'open',
+        openingBalances: cycle.closingBalances.map(b => ({
+          memberName: b.memberName,
+          amount: b.balance
+        }))
+      });
+      await nextCycle.save();
+      await carryForwardFixedCosts(groupId, cycle._id, nextCycle._id);
+
+      console.log(`📅 Billing cycle ${nextCycle.label} opened for group ${group.name}`);
+    }
+
+    res.json({ cycle, nextCycle });
+  } catch (error) {
+    console.error('Error closing billing cycle:', error);
+    res.status(500).json({ error: 'Failed to close billing cycle' });
+  }
+});
+
+export default router;
@@ -0,0 +1,135 @@
+import express, { Request, Response } from 'express';
+import Deposit from '../models/Deposit.js';
+import { isAuthenticated, requireManager } from '../middleware/auth.js';
+import { withGroup } from '../middleware/group.js';
+import { exactNameFilter } from '../services/nameMatchService.js';
+
+const router = express.Router();
+
+const DEPOSIT_METHODS = ['cash', 'bkash', 'nagad', 'bank', 'other'];
+
+// Apply authentication middleware to all deposit routes
+router.use(isAuthenticated);
+router.use(requireManager);
+router.use(withGroup);
+
+// @route   GET /api/deposits?member=Name
+// @desc    Get all deposits (joma) for the active group
+// @access  Private
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const groupId = (req as any).group._id;
+    const { member } = req.query as { member?: string };
+
+    const query: any = { groupId };
+    if (member) {
+      query.memberName = exactNameFilter(member);
+    }
+
+    const deposits = await Deposit.find(query).sort({ date: -1, createdAt: -1 });
+
+    res.json(deposits);
+  } catch (error) {
+    console.error('Error fetching deposits:', error);
+    res.status(500).json({ error: 'Failed to fetch deposits' });
+  }
+});
+
+// @route   POST /api/deposits
+// @desc    Record a deposit
+// @access  Private
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const groupId = (req as any).group._id;
+    const { memberName, amount, date, method, note } = req.body;
+
+    if (!memberName || amount === undefined) {
+      return res.status(400).json({ error: 'Member and amount are required' });
+    }
+
+    if (isNaN(Number(amount))) {
+      return res.status(400).json({ error: 'Amount must be a number' });
+    }
+
+    if (method && !DEPOSIT_METHODS.includes(method)) {
+      return res.status(400).json({ error: `Method must be one of: ${DEPOSIT_METHODS.join(', ')}` });
+    }
+
+    const newDeposit = new Deposit({
+      groupId,
+      memberName,
+      amount: Number(amount),
+      date: date ? new Date(date) : new Date(),
+      method: method || 'cash',
+      note,
+      source: 'manual'
+    });
+
+    await newDeposit.save();
+    res.status(201).json(newDeposit);
+  } catch (error) {
+    console.error('Error adding deposit:', error);
+    res.status(500).json({ error: 'Failed to add deposit' });
+  }
+});
+
+// @route   PUT /api/deposits/:id
+// @desc    Update a deposit
+// @access  Private
+router.put('/:id', async (req: Request, res: Response) => {
+  try {
+    const groupId = (req as any).group._id;
+    const { id } = req.params;
+    const { memberName, amount, date, method, note } = req.body;
+
+    const deposit = await Deposit.findOne({ _id: id, groupId });
+
+    if (!deposit) {
+      return res.status(404).json({ error: 'Deposit not found' });
+    }
+
+    if (method && !DEPOSIT_METHODS.includes(method)) {
+      return res.status(400).json({ error: `Method must be one of: ${DEPOSIT_METHODS.join(', ')}` });
+    }
+
+    if (memberName) deposit.memberName = memberName;
+    if (amount !== undefined) {
+      if (isNaN(Number(amount))) {
+        return res.status(400).json({ error: 'Amount must be a number' });
+      }
+      deposit.amount = Number(amount);
+    }
+    if (date) deposit.date = new Date(date);
+    if (method) deposit.method = method;
+    if (note !== undefined) deposit.note = note;
+
+    await deposit.save();
+    res.json(deposit);
+  } catch (error) {
+    console.error('Error updating deposit:', error);
+    res.status(500).json({ error: 'Failed to update deposit' });
+  }
+});
+
+// @route   DELETE /api/deposits/:id
+// @desc    Delete a deposit
+// @access  Private
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const groupId = (req as any).group._id;
+    const { id } = req.params;
+
+    const result = await Deposit.findOneAndDelete({ _id: id, groupId });
+
+    if (!result) {
+      return res.status(404).json({ error: 'Deposit not found' });
+    }
+
+    res.json({ message: 'Deposit deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting deposit:', error);
+    res.status(500).json({ error: 'Failed to delete deposit' });
+  }
+});
+
+export default router;
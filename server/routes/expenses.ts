@@ -0,0 +1,127 @@
+import express, { Request, Response } from 'express';
+import Expense from '../models/Expense.js';
+import Member from '../models/Member.js';
+import { isAuthenticated, requireManager } from '../middleware/auth.js';
+import { withGroup } from '../middleware/group.js';
+
+const router = express.Router();
+
+// Apply authentication middleware to all expense routes
+router.use(isAuthenticated);
+router.use(requireManager);
+router.use(withGroup);
+
+// @route   GET /api/expenses
+// @desc    Get all expenses for the active group
+// @access  Private
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const groupId = (req as any).group._id;
+    const expenses = await Expense.find({ groupId }).sort({ date: -1, createdAt: -1 });
+
+    res.json(expenses);
+  } catch (error) {
+    console.error('Error fetching expenses:', error);
+    res.status(500).json({ error: 'Failed to fetch expenses' });
+  }
+});
+
+// @route   POST /api/expenses
+// @desc    Add a new expense
+// @access  Private
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const groupId = (req as any).group._id;
+    const { payerId, amount, description, date } = req.body;
+
+    if (!payerId || amount === undefined || !description) {
+      return res.status(400).json({ error: 'Payer, amount and description are required' });
+    }
+
+    if (isNaN(Number(amount)) || Number(amount) < 0) {
+      return res.status(400).json({ error: 'Amount must be a positive number' });
+    }
+
+    // The payer must be one of this user's members
+    const payer = await Member.findOne({ _id: payerId, groupId });
+    if (!payer) {
+      return res.status(400).json({ error: 'Payer not found' });
+    }
+
+    const newExpense = new Expense({
+      groupId,
+      payerId,
+      amount: Number(amount),
+      description,
+      date: date ? new Date(date) : new Date()
+    });
+
+    await newExpense.save();
+    res.status(201).json(newExpense);
+  } catch (error) {
+    console.error('Error adding expense:', error);
+    res.status(500).json({ error: 'Failed to add expense' });
+  }
+});
+
+// @route   PUT /api/expenses/:id
+// @desc    Update an expense
+// @access  Private
+router.put('/:id', async (req: Request, res: Response) => {
+  try {
+    const groupId = (req as any).group._id;
+    const { id } = req.params;
+    const { payerId, amount, description, date } = req.body;
+
+    const expense = await Expense.findOne({ _id: id, groupId });
+
+    if (!expense) {
+      return res.status(404).json({ error: 'Expense not found' });
+    }
+
+    if (payerId) {
+      const payer = await Member.findOne({ _id: payerId, groupId });
+      if (!payer) {
+        return res.status(400).json({ error: 'Payer not found' });
+      }
+      expense.payerId = payer._id as any;
+    }
+    if (amount !== undefined) {
+      if (isNaN(Number(amount)) || Number(amount) < 0) {
+        return res.status(400).json({ error: 'Amount must be a positive number' });
+      }
+      expense.amount = Number(amount);
+    }
+    if (description) expense.description = description;
+    if (date) expense.date = new Date(date);
+
+    await expense.save();
+    res.json(expense);
+  } catch (error) {
+    console.error('Error updating expense:', error);
+    res.status(500).json({ error: 'Failed to update expense' });
+  }
+});
+
+// @route   DELETE /api/expenses/:id
+// @desc    Delete an expense
+// @access  Private
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const groupId = (req as any).group._id;
+    const { id } = req.params;
+
+    const result = await Expense.findOneAndDelete({ _id: id, groupId });
+
+    if (!result) {
+      return res.status(404).json({ error: 'Expense not found' });
+    }
+
+    res.json({ message: 'Expense deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting expense:', error);
+    res.status(500).json({ error: 'Failed to delete expense' });
+  }
+});
+
+export default router;
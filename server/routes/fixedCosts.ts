@@ -0,0 +1,160 @@
+import express, { Request, Response } from 'express';
+import FixedCost from '../models/FixedCost.js';
+import BillingCycle from '../models/BillingCycle.js';
+import { isAuthenticated, requireManager } from '../middleware/auth.js';
+import { withGroup } from '../middleware/group.js';
+
+const router = express.Router();
+
+// Apply authentication middleware to all fixed cost routes
+router.use(isAuthenticated);
+router.use(requireManager);
+router.use(withGroup);
+
+// Validate a shares list; returns an error message or null
+const validateShares = (shares: any): string | null => {
+  if (!Array.isArray(shares) || shares.length === 0) {
+    return 'Custom split needs at least one member share';
+  }
+  for (const s of shares) {
+    if (!s.memberName || isNaN(Number(s.share)) || Number(s.share) < 0) {
+      return 'Each share needs a member name and a share of zero or more';
+    }
+  }
+  if (!shares.some((s: any) => Number(s.share) > 0)) {
+    return 'At least one member must have a share';
+  }
+  return null;
+};
+
+// @route   GET /api/fixed-costs?cycleId=
+// @desc    Get fixed costs of a billing cycle (defaults to the open cycle)
+// @access  Private
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const groupId = (req as any).group._id;
+    const { cycleId } = req.query as { cycleId?: string };
+
+    let targetCycleId: any = cycleId || null;
+    if (!cycleId) {
+      const open = await BillingCycle.findOne({ groupId, status: 'open' });
+      targetCycleId = open ? open._id : null;
+    }
+
+    const fixedCosts = await FixedCost.find({ groupId, cycleId: targetCycleId }).sort({ createdAt: 1 });
+
+    res.json(fixedCosts);
+  } catch (error) {
+    console.error('Error fetching fixed costs:', error);
+    res.status(500).json({ error: 'Failed to fetch fixed costs' });
+  }
+});
+
+// @route   POST /api/fixed-costs
+// @desc    Add a fixed cost to the open billing cycle
+// @access  Private
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const groupId = (req as any).group._id;
+    const { name, amount, split, shares, recurring } = req.body;
+
+    if (!name || amount === undefined) {
+      return res.status(400).json({ error: 'Name and amount are required' });
+    }
+
+    if (isNaN(Number(amount)) || Number(amount) < 0) {
+      return res.status(400).json({ error: 'Amount must be zero or more' });
+    }
+
+    if (split === 'shares') {
+      const sharesError = validateShares(shares);
+      if (sharesError) {
+        return res.status(400).json({ error: sharesError });
+      }
+    }
+
+    const open = await BillingCycle.findOne({ groupId, status: 'open' });
+
+    const newFixedCost = new FixedCost({
+      groupId,
+      cycleId: open ? open._id : null,
+      name,
+      amount: Number(amount),
+      split: split === 'shares' ? 'shares' : 'equal',
+      shares: split === 'shares' ? shares.map((s: any) => ({ memberName: s.memberName, share: Number(s.share) })) : [],
+      recurring: recurring !== undefined ? Boolean(recurring) : true
+    });
+
+    await newFixedCost.save();
+    res.status(201).json(newFixedCost);
+  } catch (error) {
+    console.error('Error adding fixed cost:', error);
+    res.status(500).json({ error: 'Failed to add fixed cost' });
+  }
+});
+
+// @route   PUT /api/fixed-costs/:id
+// @desc    Update a fixed cost
+// @access  Private
+router.put('/:id', async (req: Request, res: Response) => {
+  try {
+    const groupId = (req as any).group._id;
+    const { id } = req.params;
+    const { name, amount, split, shares, recurring } = req.body;
+
+    const fixedCost = await FixedCost.findOne({ _id: id, groupId });
+
+    if (!fixedCost) {
+      return res.status(404).json({ error: 'Fixed cost not found' });
+    }
+
+    if (name) fixedCost.name = name;
+    if (amount !== undefined) {
+      if (isNaN(Number(amount)) || Number(amount) < 0) {
+        return res.status(400).json({ error: 'Amount must be zero or more' });
+      }
+      fixedCost.amount = Number(amount);
+    }
+    if (split === 'equal') {
+      fixedCost.split = 'equal';
+      fixedCost.shares = [];
+    } else if (split === 'shares') {
+      const sharesError = validateShares(shares);
+      if (sharesError) {
+        return res.status(400).json({ error: sharesError });
+      }
+      fixedCost.split = 'shares';
+      fixedCost.shares = shares.map((s: any) => ({ memberName: s.memberName, share: Number(s.share) }));
+    }
+    if (recurring !== undefined) fixedCost.recurring = Boolean(recurring);
+
+    await fixedCost.save();
+    res.json(fixedCost);
+  } catch (error) {
+    console.error('Error updating fixed cost:', error);
+    res.status(500).json({ error: 'Failed to update fixed cost' });
+  }
+});
+
+// @route   DELETE /api/fixed-costs/:id
+// @desc    Delete a fixed cost
+// @access  Private
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const groupId = (req as any).group._id;
+    const { id } = req.params;
+
+    const result = await FixedCost.findOneAndDelete({ _id: id, groupId });
+
+    if (!result) {
+      return res.status(404).json({ error: 'Fixed cost not found' });
+    }
+
+    res.json({ message: 'Fixed cost deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting fixed cost:', error);
+    res.status(500).json({ error: 'Failed to delete fixed cost' });
+  }
+});
+
+export default router;
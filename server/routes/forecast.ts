@@ -0,0 +1,26 @@
+import express, { Request, Response } from 'express';
+import { isAuthenticated, requireManager } from '../middleware/auth.js';
+import { withGroup } from '../middleware/group.js';
+import { loadCycleForecast } from '../services/ledgerStateService.js';
+
+const router = express.Router();
+
+// Apply authentication middleware to all forecast routes
+router.use(isAuthenticated);
+router.use(requireManager);
+router.use(withGroup);
+
+// @route   GET /api/forecast
+// @desc    Project the end-of-cycle meal rate (with a 90% band) and each member's balance
+// @access  Private
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const forecast = await loadCycleForecast((req as any).group);
+    res.json(forecast);
+  } catch (error) {
+    console.error('Error building forecast:', error);
+    res.status(500).json({ error: 'Failed to build forecast' });
+  }
+});
+
+export default router;
@@ -0,0 +1,167 @@
+import express, { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Group from '../models/Group.js';
+import { isAuthenticated, requireManager } from '../middleware/auth.js';
+import { resolveActiveGroup, deleteGroupWithData } from '../services/groupService.js';
+import { isValidMoneySettings } from '../../services/currencyService.js';
+import { schedulerService } from '../services/schedulerService.js';
+
+const router = express.Router();
+
+// Apply authentication middleware to all group routes. Members may start
+// a group of their own; everything else is for managers.
+router.use(isAuthenticated);
+
+// @route   GET /api/groups
+// @desc    Get all groups owned by the user, with the active one flagged
+// @access  Private
+router.get('/', requireManager, async (req: Request, res: Response) => {
+  try {
+    const user = req.user as any;
+    const active = await resolveActiveGroup(user);
+    const groups = await Group.find({ ownerId: user._id })
+      .select('name currency locale createdAt')
+      .sort({ createdAt: 1 });
+
+    res.json(groups.map(g => ({
+      _id: g._id,
+      name: g.name,
+      currency: g.currency,
+      locale: g.locale,
+      isActive: g._id.toString() === active._id.toString()
+    })));
+  } catch (error) {
+    console.error('Error fetching groups:', error);
+    res.status(500).json({ error: 'Failed to fetch groups' });
+  }
+});
+
+// @route   POST /api/groups
+// @desc    Create a new group and switch to it (a member starting their own mess becomes its manager)
+// @access  Private (members and managers)
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const user = req.user as any;
+    const { name } = req.body;
+
+    if (!name || !name.trim()) {
+      return res.status(400).json({ error: 'Group name is required' });
+    }
+
+    // Make sure a manager's legacy data has been moved into a default group
+    // first; a member starting their first mess only gets this one
+    if (user.role !== 'member') {
+      await resolveActiveGroup(user);
+    }
+
+    const group = await Group.create({ ownerId: user._id, name: name.trim() });
+
+    user.activeGroupId = group._id as mongoose.Types.ObjectId;
+    user.role = 'manager';
+    await user.save();
+
+    console.log(`🏠 Group "${group.name}" created for user ${user.email}`);
+
+    res.status(201).json({ _id: group._id, name: group.name, currency: group.currency, locale: group.locale, isActive: true });
+  } catch (error) {
+    console.error('Error creating group:', error);
+    res.status(500).json({ error: 'Failed to create group' });
+  }
+});
+
+// @route   PUT /api/groups/:id
+// @desc    Rename a group and/or change its currency and locale
+// @access  Private
+router.put('/:id', requireManager, async (req: Request, res: Response) => {
+  try {
+    const user = req.user as any;
+    const { name, currency, locale } = req.body;
+
+    if (name !== undefined && !String(name).trim()) {
+      return res.status(400).json({ error: 'Group name is required' });
+    }
+
+    const group = await Group.findOne({ _id: req.params.id, ownerId: user._id });
+
+    if (!group) {
+      return res.status(404).json({ error: 'Group not found' });
+    }
+
+    const money = {
+      currency: currency !== undefined ? String(currency).trim().toUpperCase() : group.currency,
+      locale: locale !== undefined ? String(locale).trim() : group.locale
+    };
+
+    if (!isValidMoneySettings(money)) {
+      return res.status(400).json({ error: 'Currency must be an ISO 4217 code (e.g. BDT) and locale a language tag (e.g. en-BD)' });
+    }
+
+    if (name !== undefined) group.name = String(name).trim();
+    group.currency = money.currency;
+    group.locale = money.locale;
+    await group.save();
+
+    res.json({ _id: group._id, name: group.name, currency: group.currency, locale: group.locale });
+  } catch (error) {
+    console.error('Error updating group:', error);
+    res.status(500).json({ error: 'Failed to update group' });
+  }
+});
+
+// @route   POST /api/groups/:id/activate
+// @desc    Switch the user's active group
+// @access  Private
+router.post('/:id/activate', requireManager, async (req: Request, res: Response) => {
+  try {
+    const user = req.user as any;
+    const group = await Group.findOne({ _id: req.params.id, ownerId: user._id });
+
+    if (!group) {
+      return res.status(404).json({ error: 'Group not found' });
+    }
+
+    user.activeGroupId = group._id;
+    await user.save();
+
+    res.json({ message: 'Active group updated', _id: group._id, name: group.name });
+  } catch (error) {
+    console.error('Error switching group:', error);
+    res.status(500).json({ error: 'Failed to switch group' });
+  }
+});
+
+// @route   DELETE /api/groups/:id
+// @desc    Delete a group with all its members and records (the user's last group cannot be deleted)
+// @access  Private
+router.delete('/:id', requireManager, async (req: Request, res: Response) => {
+  try {
+    const user = req.user as any;
+    const count = await Group.countDocuments({ ownerId: user._id });
+
+    if (count <= 1) {
+      return res.status(400).json({ error: 'You must keep at least one group' });
+    }
+
+    const group = await Group.findOne({ _id: req.params.id, ownerId: user._id });
+
+    if (!group) {
+      return res.status(404).json({ error: 'Group not found' });
+    }
+
+    await deleteGroupWithData(group._id);
+
+    schedulerService.stopAllSchedulersForGroup(group._id.toString());
+
+    if (user.activeGroupId?.toString() === group._id.toString()) {
+      user.activeGroupId = null;
+      await user.save();
+    }
+
+    res.json({ message: 'Group deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting group:', error);
+    res.status(500).json({ error: 'Failed to delete group' });
+  }
+});
+
+export default router;
@@ -0,0 +1,95 @@
+import express, { Request, Response } from 'express';
+import GuestMeal from '../models/GuestMeal.js';
+import { isAuthenticated, requireManager } from '../middleware/auth.js';
+import { withGroup } from '../middleware/group.js';
+import { exactNameFilter } from '../services/nameMatchService.js';
+
+const router = express.Router();
+
+// Apply authentication middleware to all guest meal routes
+router.use(isAuthenticated);
+router.use(requireManager);
+router.use(withGroup);
+
+// @route   GET /api/guest-meals?host=Name
+// @desc    Get all guest meals for the active group
+// @access  Private
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const groupId = (req as any).group._id;
+    const { host } = req.query as { host?: string };
+
+    const query: any = { groupId };
+    if (host) {
+      query.hostName = exactNameFilter(host);
+    }
+
+    const guestMeals = await GuestMeal.find(query).sort({ date: -1, createdAt: -1 });
+
+    res.json(guestMeals);
+  } catch (error) {
+    console.error('Error fetching guest meals:', error);
+    res.status(500).json({ error: 'Failed to fetch guest meals' });
+  }
+});
+
+// @route   POST /api/guest-meals
+// @desc    Record guest meals charged to a host member
+// @access  Private
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const groupId = (req as any).group._id;
+    const { hostName, guestName, date, meals, multiplier, note } = req.body;
+
+    if (!hostName || meals === undefined) {
+      return res.status(400).json({ error: 'Host and number of meals are required' });
+    }
+
+    if (isNaN(Number(meals)) || Number(meals) <= 0) {
+      return res.status(400).json({ error: 'Meals must be a positive number' });
+    }
+
+    if (multiplier !== undefined && (isNaN(Number(multiplier)) || Number(multiplier) < 0)) {
+      return res.status(400).json({ error: 'Multiplier must be zero or more' });
+    }
+
+    const newGuestMeal = new GuestMeal({
+      groupId,
+      hostName,
+      guestName,
+      date: date ? new Date(date) : new Date(),
+      meals: Number(meals),
+      multiplier: multiplier !== undefined ? Number(multiplier) : 1,
+      note
+    });
+
+    await newGuestMeal.save();
+    res.status(201).json(newGuestMeal);
+  } catch (error) {
+    console.error('Error adding guest meal:', error);
+    res.status(500).json({ error: 'Failed to add guest meal' });
+  }
+});
+
+// @route   DELETE /api/guest-meals/:id
+// @desc    Delete a guest meal entry
+// @access  Private
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const groupId = (req as any).group._id;
+    const { id } = req.params;
+
+    const result = await GuestMeal.findOneAndDelete({ _id: id, groupId });
+
+    if (!result) {
+      return res.status(404).json({ error: 'Guest meal not found' });
+    }
+
+    res.json({ message: 'Guest meal deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting guest meal:', error);
+    res.status(500).json({ error: 'Failed to delete guest meal' });
+  }
+});
+
+export default router;
@@ -0,0 +1,73 @@
+import express, { Request, Response } from 'express';
+import BalanceSnapshot from '../models/BalanceSnapshot.js';
+import { isAuthenticated, requireManager } from '../middleware/auth.js';
+import { withGroup } from '../middleware/group.js';
+
+const router = express.Router();
+
+// Apply authentication middleware to all history routes
+router.use(isAuthenticated);
+router.use(requireManager);
+router.use(withGroup);
+
+// @route   GET /api/history?member=Name&from=YYYY-MM-DD&to=YYYY-MM-DD&limit=100
+// @desc    Get balance snapshots over time, oldest first. With a member, only
+//          that member's meals and balance at each snapshot are returned.
+// @access  Private
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const groupId = (req as any).group._id;
+    const { member, from, to, limit } = req.query as { member?: string; from?: string; to?: string; limit?: string };
+
+    const query: any = { groupId };
+    if (from || to) {
+      query.createdAt = {};
+      if (from) query.createdAt.$gte = new Date(from);
+      if (to) query.createdAt.$lte = new Date(`${to}T23:59:59.999Z`);
+
+      if (Object.values(query.createdAt).some(d => isNaN((d as Date).getTime()))) {
+        return res.status(400).json({ error: 'from and to must be dates (YYYY-MM-DD)' });
+      }
+    }
+
+    const max = Math.min(Number(limit) || 100, 500);
+
+    // Newest first so the limit keeps the latest snapshots, then oldest first for charting
+    const snapshots = (await BalanceSnapshot.find(query).sort({ createdAt: -1 }).limit(max)).reverse();
+
+    if (!member) {
+      return res.json(snapshots.map(s => ({
+        _id: s._id,
+        takenAt: s.createdAt,
+        source: s.source,
+        mealRate: s.mealRate,
+        totalCost: s.totalCost,
+        totalMeals: s.totalMeals,
+        people: s.people
+      })));
+    }
+
+    const key = member.trim().toLowerCase();
+    const points = snapshots
+      .map(s => {
+        const person = s.people.find(p => p.name.trim().toLowerCase() === key);
+        return person ? {
+          takenAt: s.createdAt,
+          source: s.source,
+          mealRate: s.mealRate,
+          meals: person.meals,
+          contribution: person.contribution,
+          cost: person.cost,
+          balance: person.balance
+        } : null;
+      })
+      .filter(Boolean);
+
+    res.json({ member, points });
+  } catch (error) {
+    console.error('Error fetching balance history:', error);
+    res.status(500).json({ error: 'Failed to fetch balance history' });
+  }
+});
+
+export default router;
@@ -0,0 +1,181 @@
+import express, { Request, Response } from 'express';
+import MealEntry from '../models/MealEntry.js';
+import { isAuthenticated, requireManager } from '../middleware/auth.js';
+import { withGroup } from '../middleware/group.js';
+import { weightedMealUnits } from '../../services/mealTypeService.js';
+import { exactNameFilter } from '../services/nameMatchService.js';
+
+const router = express.Router();
+
+// Apply authentication middleware to all meal routes
+router.use(isAuthenticated);
+router.use(requireManager);
+router.use(withGroup);
+
+// @route   GET /api/meals?from=YYYY-MM-DD&to=YYYY-MM-DD&member=Name
+// @desc    Get per-day meal entries for the active group
+// @access  Private
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const groupId = (req as any).group._id;
+    const { from, to, member } = req.query as { from?: string; to?: string; member?: string };
+
+    const query: any = { groupId };
+
+    if (from || to) {
+      query.date = {};
+      if (from) {
+        const fromDate = new Date(`${from}T00:00:00.000Z`);
+        if (isNaN(fromDate.getTime())) {
+          return res.status(400).json({ error: 'Invalid "from" date. Use YYYY-MM-DD' });
+        }
+        query.date.$gte = fromDate;
+      }
+      if (to) {
+        const toDate = new Date(`${to}T00:00:00.000Z`);
+        if (isNaN(toDate.getTime())) {
+          return res.status(400).json({ error: 'Invalid "to" date. Use YYYY-MM-DD' });
+        }
+        query.date.$lte = toDate;
+      }
+    }
+
+    if (member) {
+      query.memberName = exactNameFilter(member);
+    }
+
+    const entries = await MealEntry.find(query).sort({ date: 1, memberName: 1 });
+
+    res.json(entries.map(e => ({
+      id: e._id,
+      memberName: e.memberName,
+      date: e.date.toISOString().slice(0, 10),
+      meals: e.meals,
+      byType: e.byType || undefined,
+      source: e.source
+    })));
+  } catch (error) {
+    console.error('Error fetching meal entries:', error);
+    res.status(500).json({ error: 'Failed to fetch meal entries' });
+  }
+});
+
+// @route   POST /api/meals
+// @desc    Record a member's meals for a day by meal type (replaces that day's entry)
+// @access  Private
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const group = (req as any).group;
+    const { memberName, date, byType } = req.body;
+
+    if (!memberName || !date || !byType || typeof byType !== 'object') {
+      return res.status(400).json({ error: 'Member, date and meals by type are required' });
+    }
+
+    const day = new Date(`${date}T00:00:00.000Z`);
+    if (isNaN(day.getTime())) {
+      return res.status(400).json({ error: 'Invalid date. Use YYYY-MM-DD' });
+    }
+
+    const knownTypes = new Set(group.mealTypes.map((t: any) => t.key));
+    const counts: Record<string, number> = {};
+    for (const [key, value] of Object.entries(byType)) {
+      const count = Number(value);
+      if (!knownTypes.has(key)) {
+        return res.status(400).json({ error: `Unknown meal type: ${key}` });
+      }
+      if (isNaN(count) || count < 0) {
+        return res.status(400).json({ error: 'Meal counts must be zero or more' });
+      }
+      if (count > 0) counts[key] = count;
+    }
+
+    const entry = await MealEntry.findOneAndUpdate(
+      { groupId: group._id, memberName: memberName.trim(), date: day },
+      { $set: { meals: weightedMealUnits(counts, group.mealTypes), byType: counts, source: 'manual' } },
+      { new: true, upsert: true }
+    );
+
+    res.status(201).json({
+      id: entry._id,
+      memberName: entry.memberName,
+      date: entry.date.toISOString().slice(0, 10),
+      meals: entry.meals,
+      byType: entry.byType || undefined,
+      source: entry.source
+    });
+  } catch (error) {
+    console.error('Error recording meals:', error);
+    res.status(500).json({ error: 'Failed to record meals' });
+  }
+});
+
+// @route   DELETE /api/meals/:id
+// @desc    Delete a meal entry
+// @access  Private
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const groupId = (req as any).group._id;
+    const result = await MealEntry.findOneAndDelete({ _id: req.params.id, groupId });
+
+    if (!result) {
+      return res.status(404).json({ error: 'Meal entry not found' });
+    }
+
+    res.json({ message: 'Meal entry deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting meal entry:', error);
+    res.status(500).json({ error: 'Failed to delete meal entry' });
+  }
+});
+
+// @route   GET /api/meals/types
+// @desc    Get the active group's meal types and weights
+// @access  Private
+router.get('/types', async (req: Request, res: Response) => {
+  res.json((req as any).group.mealTypes);
+});
+
+// @route   PUT /api/meals/types
+// @desc    Replace the meal types and weights, re-weighting recorded meals
+// @access  Private
+router.put('/types', async (req: Request, res: Response) => {
+  try {
+    const group = (req as any).group;
+    const { mealTypes } = req.body;
+
+    if (!Array.isArray(mealTypes) || mealTypes.length === 0) {
+      return res.status(400).json({ error: 'At least one meal type is required' });
+    }
+
+    const keys = new Set<string>();
+    for (const t of mealTypes) {
+      if (!t.key || !t.label || isNaN(Number(t.weight)) || Number(t.weight) < 0) {
+        return res.status(400).json({ error: 'Each meal type needs a key, label and a weight of zero or more' });
+      }
+      if (keys.has(t.key)) {
+        return res.status(400).json({ error: `Duplicate meal type: ${t.key}` });
+      }
+      keys.add(t.key);
+    }
+
+    group.mealTypes = mealTypes.map((t: any) => ({ key: t.key, label: t.label, weight: Number(t.weight) }));
+    await group.save();
+
+    // Entries recorded by type are stored as weighted units, so recompute them
+    const typed = await MealEntry.find({ groupId: group._id, byType: { $ne: null } });
+    for (const entry of typed) {
+      entry.meals = weightedMealUnits(entry.byType || {}, group.mealTypes);
+      await entry.save();
+    }
+
+    console.log(`🍽️ Meal types updated for group ${group.name} (${typed.length} entries re-weighted)`);
+
+    res.json(group.mealTypes);
+  } catch (error) {
+    console.error('Error updating meal types:', error);
+    res.status(500).json({ error: 'Failed to update meal types' });
+  }
+});
+
+export default router;
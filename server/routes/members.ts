@@ -1,19 +1,27 @@
 import express, { Request, Response } from 'express';
 import Member from '../models/Member.js';
-import { isAuthenticated } from '../middleware/auth.js';
+import { isAuthenticated, requireManager } from '../middleware/auth.js';
+import { withGroup } from '../middleware/group.js';
+import { recordAudit } from '../services/auditService.js';
+import { exactNameFilter } from '../services/nameMatchService.js';
 
 const router = express.Router();
 
+// Fields recorded in the audit log
+const auditFields = (m: any) => ({ sheetName: m.sheetName, email: m.email, phone: m.phone || null });
+
 // Apply authentication middleware to all member routes
 router.use(isAuthenticated);
+router.use(requireManager);
+router.use(withGroup);
 
 // @route   GET /api/members
-// @desc    Get all members for the authenticated user
+// @desc    Get all members of the active group
 // @access  Private
 router.get('/', async (req: Request, res: Response) => {
   try {
-    const userId = (req.user as any)._id;
-    const members = await Member.find({ userId }).sort({ createdAt: -1 });
+    const groupId = (req as any).group._id;
+    const members = await Member.find({ groupId }).sort({ createdAt: -1 });
     
     res.json(members);
   } catch (error) {
@@ -28,16 +36,17 @@ router.get('/', async (req: Request, res: Response) => {
 router.post('/', async (req: Request, res: Response) => {
   try {
     const userId = (req.user as any)._id;
+    const groupId = (req as any).group._id;
     const { sheetName, email, phone } = req.body;
 
     if (!sheetName || !email) {
       return res.status(400).json({ error: 'Sheet name and email are required' });
     }
 
-    // Check if member with same sheetName already exists for this user
+    // Check if member with same sheetName already exists in this group
     const existingMember = await Member.findOne({ 
-      userId, 
-      sheetName: { $regex: new RegExp(`^${sheetName}$`, 'i') }
+      groupId, 
+      sheetName: exactNameFilter(sheetName)
     });
 
     if (existingMember) {
@@ -46,12 +55,19 @@ router.post('/', async (req: Request, res: Response) => {
 
     const newMember = new Member({
       userId,
+      groupId,
       sheetName,
       email,
       phone
     });
 
     await newMember.save();
+    await recordAudit(groupId, req.user as any, {
+      action: 'member.create',
+      target: newMember.sheetName,
+      after: auditFields(newMember)
+    });
+
     res.status(201).json(newMember);
   } catch (error) {
     console.error('Error adding member:', error);
@@ -64,21 +80,30 @@ router.post('/', async (req: Request, res: Response) => {
 // @access  Private
 router.put('/:id', async (req: Request, res: Response) => {
   try {
-    const userId = (req.user as any)._id;
+    const groupId = (req as any).group._id;
     const { id } = req.params;
     const { sheetName, email, phone } = req.body;
 
-    const member = await Member.findOne({ _id: id, userId });
+    const member = await Member.findOne({ _id: id, groupId });
 
     if (!member) {
       return res.status(404).json({ error: 'Member not found' });
     }
 
+    const before = auditFields(member);
+
     if (sheetName) member.sheetName = sheetName;
     if (email) member.email = email;
     if (phone !== undefined) member.phone = phone;
 
     await member.save();
+    await recordAudit(groupId, req.user as any, {
+      action: 'member.update',
+      target: member.sheetName,
+      before,
+      after: auditFields(member)
+    });
+
     res.json(member);
   } catch (error) {
     console.error('Error updating member:', error);
@@ -91,15 +116,21 @@ router.put('/:id', async (req: Request, res: Response) => {
 // @access  Private
 router.delete('/:id', async (req: Request, res: Response) => {
   try {
-    const userId = (req.user as any)._id;
+    const groupId = (req as any).group._id;
     const { id } = req.params;
 
-    const result = await Member.findOneAndDelete({ _id: id, userId });
+    const result = await Member.findOneAndDelete({ _id: id, groupId });
 
     if (!result) {
       return res.status(404).json({ error: 'Member not found' });
     }
 
+    await recordAudit(groupId, req.user as any, {
+      action: 'member.delete',
+      target: result.sheetName,
+      before: auditFields(result)
+    });
+
     res.json({ message: 'Member deleted successfully' });
   } catch (error) {
     console.error('Error deleting member:', error);
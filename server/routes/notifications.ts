@@ -1,8 +1,12 @@
 import express from 'express';
 import { emailService } from '../../services/emailService.js';
-import { isAuthenticated } from '../middleware/auth.js';
+import { isAuthenticated, requireManager } from '../middleware/auth.js';
+import { withGroup } from '../middleware/group.js';
 import Member from '../models/Member.js';
-import User from '../models/User.js';
+import ReminderLog from '../models/ReminderLog.js';
+import { logReminder } from '../services/reminderLogService.js';
+import { recordAudit } from '../services/auditService.js';
+import { exactNameFilter } from '../services/nameMatchService.js';
 import { schedulerService } from '../services/schedulerService.js';
 
 const router = express.Router();
@@ -16,7 +20,7 @@ interface SendEmailRequest {
 }
 
 // Send email notification to a specific user
-router.post('/send-email', isAuthenticated, async (req, res) => {
+router.post('/send-email', isAuthenticated, requireManager, withGroup, async (req, res) => {
   try {
     const { personId, email, name, message, amountOwed } = req.body as SendEmailRequest;
 
@@ -35,8 +39,8 @@ router.post('/send-email', isAuthenticated, async (req, res) => {
     if (!recipientEmail) {
       // Try to find member by sheetName (case-insensitive)
       const member = await Member.findOne({ 
-        userId: (req.user as any)._id,
-        sheetName: { $regex: new RegExp(`^${name}$`, 'i') }
+        groupId: (req as any).group._id,
+        sheetName: exactNameFilter(name)
       });
 
       console.log('🔍 Member lookup result:', member ? `Found: ${member.email}` : 'Not found');
@@ -69,11 +73,24 @@ router.post('/send-email', isAuthenticated, async (req, res) => {
       recipientEmail,
       name,
       message,
-      amountOwed
+      amountOwed,
+      { currency: (req as any).group.currency, locale: (req as any).group.locale }
     );
 
     if (success) {
       console.log(`✅ Email sent successfully to ${recipientEmail}`);
+      await recordAudit((req as any).group._id, req.user as any, {
+        action: 'notification.email.send',
+        target: name,
+        after: { email: recipientEmail, amountOwed: amountOwed || 0 }
+      });
+      await logReminder((req as any).group._id, {
+        memberName: name,
+        email: recipientEmail,
+        message,
+        amountOwed,
+        trigger: 'manual'
+      });
       res.json({ 
         success: true, 
         message: `Email sent successfully to ${recipientEmail}` 
@@ -95,7 +112,7 @@ router.post('/send-email', isAuthenticated, async (req, res) => {
 });
 
 // Send batch emails
-router.post('/send-batch-emails', isAuthenticated, async (req, res) => {
+router.post('/send-batch-emails', isAuthenticated, requireManager, withGroup, async (req, res) => {
   try {
     const { notifications } = req.body as { notifications: SendEmailRequest[] };
 
@@ -122,8 +139,8 @@ router.post('/send-batch-emails', isAuthenticated, async (req, res) => {
         // Look up email if not provided
         if (!recipientEmail) {
           const member = await Member.findOne({ 
-            userId: (req.user as any)._id,
-            sheetName: { $regex: new RegExp(`^${notification.name}$`, 'i') }
+            groupId: (req as any).group._id,
+            sheetName: exactNameFilter(notification.name)
           });
 
           if (member) {
@@ -144,12 +161,20 @@ router.post('/send-batch-emails', isAuthenticated, async (req, res) => {
           recipientEmail,
           notification.name,
           notification.message,
-          notification.amountOwed
+          notification.amountOwed,
+          { currency: (req as any).group.currency, locale: (req as any).group.locale }
         );
 
         if (success) {
           results.sent++;
           console.log(`✅ Sent to ${notification.name}`);
+          await logReminder((req as any).group._id, {
+            memberName: notification.name,
+            email: recipientEmail,
+            message: notification.message,
+            amountOwed: notification.amountOwed,
+            trigger: 'manual'
+          });
         } else {
           results.failed++;
           results.errors.push(`Failed to send email to ${notification.name}`);
@@ -166,6 +191,11 @@ router.post('/send-batch-emails', isAuthenticated, async (req, res) => {
     }
 
     console.log(`📊 Batch send complete: ${results.sent} sent, ${results.failed} failed`);
+    await recordAudit((req as any).group._id, req.user as any, {
+      action: 'notification.email.batch',
+      target: `${notifications.length} members`,
+      after: { sent: results.sent, failed: results.failed }
+    });
 
     res.json({ 
       success: true, 
@@ -180,8 +210,24 @@ router.post('/send-batch-emails', isAuthenticated, async (req, res) => {
   }
 });
 
+// Get sent reminders, newest first, with the payment that resolved them
+router.get('/reminders', isAuthenticated, requireManager, withGroup, async (req, res) => {
+  try {
+    const limit = Math.min(Number(req.query.limit) || 50, 200);
+    const reminders = await ReminderLog.find({ groupId: (req as any).group._id })
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .populate('paymentId', 'amount date method');
+
+    res.json({ success: true, reminders });
+  } catch (error) {
+    console.error('Error fetching reminder log:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch reminder log' });
+  }
+});
+
 // Test email configuration
-router.get('/test-email', isAuthenticated, async (req, res) => {
+router.get('/test-email', isAuthenticated, requireManager, async (req, res) => {
   try {
     const user = req.user as any;
     const testEmail = user?.email;
@@ -221,7 +267,7 @@ router.get('/test-email', isAuthenticated, async (req, res) => {
 });
 
 // Check email service status
-router.get('/email-status', isAuthenticated, async (req, res) => {
+router.get('/email-status', isAuthenticated, requireManager, async (req, res) => {
   try {
     const isConfigured = process.env.EMAIL_USER && process.env.EMAIL_PASSWORD;
     const isVerified = isConfigured ? await emailService.verifyConnection() : false;
@@ -243,12 +289,11 @@ router.get('/email-status', isAuthenticated, async (req, res) => {
 });
 
 // Get notification configuration
-router.get('/config', isAuthenticated, async (req, res) => {
+router.get('/config', isAuthenticated, requireManager, withGroup, async (req, res) => {
   try {
-    const userId = (req.user as any)._id;
-    const user = await User.findById(userId).select('notificationConfig');
+    const group = (req as any).group;
     
-    const config = user?.notificationConfig || {
+    const config = group.notificationConfig || {
       scheduledTime: '18:00',
       threshold: 100,
       emailEnabled: false,
@@ -271,22 +316,16 @@ router.get('/config', isAuthenticated, async (req, res) => {
 });
 
 // Save notification configuration
-router.post('/config', isAuthenticated, async (req, res) => {
+router.post('/config', isAuthenticated, requireManager, withGroup, async (req, res) => {
   try {
-    const userId = (req.user as any)._id;
+    const group = (req as any).group;
+    const groupId = group._id.toString();
     const { scheduledTime, threshold, emailEnabled, autoSend, isEnabled, tone } = req.body;
-
-    const user = await User.findById(userId);
-    if (!user) {
-      return res.status(404).json({ 
-        success: false, 
-        error: 'User not found' 
-      });
-    }
+    const before = group.notificationConfig ? JSON.parse(JSON.stringify(group.notificationConfig)) : null;
 
     // Initialize notificationConfig if it doesn't exist
-    if (!user.notificationConfig) {
-      user.notificationConfig = {
+    if (!group.notificationConfig) {
+      group.notificationConfig = {
         scheduledTime: '18:00',
         threshold: 100,
         emailEnabled: false,
@@ -297,30 +336,35 @@ router.post('/config', isAuthenticated, async (req, res) => {
     }
 
     // Update only provided fields
-    if (scheduledTime !== undefined) user.notificationConfig.scheduledTime = scheduledTime;
-    if (threshold !== undefined) user.notificationConfig.threshold = threshold;
-    if (emailEnabled !== undefined) user.notificationConfig.emailEnabled = emailEnabled;
-    if (autoSend !== undefined) user.notificationConfig.autoSend = autoSend;
-    if (isEnabled !== undefined) user.notificationConfig.isEnabled = isEnabled;
-    if (tone !== undefined) user.notificationConfig.tone = tone;
-
-    await user.save();
+    if (scheduledTime !== undefined) group.notificationConfig.scheduledTime = scheduledTime;
+    if (threshold !== undefined) group.notificationConfig.threshold = threshold;
+    if (emailEnabled !== undefined) group.notificationConfig.emailEnabled = emailEnabled;
+    if (autoSend !== undefined) group.notificationConfig.autoSend = autoSend;
+    if (isEnabled !== undefined) group.notificationConfig.isEnabled = isEnabled;
+    if (tone !== undefined) group.notificationConfig.tone = tone;
+
+    await group.save();
+    await recordAudit(group._id, req.user as any, {
+      action: 'notification.config.update',
+      before,
+      after: group.notificationConfig
+    });
 
-    console.log(`✅ Notification config saved for user ${user.email}:`, user.notificationConfig);
+    console.log(`✅ Notification config saved for group ${group.name}:`, group.notificationConfig);
 
     // Restart or stop the scheduler based on the new configuration
     if (isEnabled && autoSend && emailEnabled) {
-      await schedulerService.startNotificationScheduler(userId.toString());
-      console.log(`🔄 Notification scheduler restarted for user ${user.email}`);
+      await schedulerService.startNotificationScheduler(groupId);
+      console.log(`🔄 Notification scheduler restarted for group ${group.name}`);
     } else {
-      schedulerService.stopScheduler(userId.toString(), 'notification');
-      console.log(`⏹️ Notification scheduler stopped for user ${user.email}`);
+      schedulerService.stopScheduler(groupId, 'notification');
+      console.log(`⏹️ Notification scheduler stopped for group ${group.name}`);
     }
 
     res.json({ 
       success: true, 
       message: 'Notification configuration saved successfully',
-      config: user.notificationConfig
+      config: group.notificationConfig
     });
   } catch (error) {
     console.error('Error saving notification config:', error);
@@ -332,7 +376,7 @@ router.post('/config', isAuthenticated, async (req, res) => {
 });
 
 // Get scheduler status (for debugging)
-router.get('/scheduler-status', isAuthenticated, async (req, res) => {
+router.get('/scheduler-status', isAuthenticated, requireManager, async (req, res) => {
   try {
     const status = schedulerService.getSchedulerStatus();
     res.json({
@@ -349,14 +393,15 @@ router.get('/scheduler-status', isAuthenticated, async (req, res) => {
 });
 
 // Manually trigger scheduled task (for testing)
-router.post('/trigger-manual-run', isAuthenticated, async (req, res) => {
+router.post('/trigger-manual-run', isAuthenticated, requireManager, withGroup, async (req, res) => {
   try {
-    const userId = (req.user as any)._id.toString();
+    const groupId = (req as any).group._id.toString();
     
-    console.log(`🔧 Manual notification trigger requested by user ${userId}`);
+    console.log(`🔧 Manual notification trigger requested for group ${groupId}`);
+    await recordAudit(groupId, req.user as any, { action: 'notification.run.trigger' });
     
     // Run the task asynchronously
-    schedulerService.triggerManualNotification(userId).catch(err => {
+    schedulerService.triggerManualNotification(groupId).catch(err => {
       console.error('Error in manual notification trigger:', err);
     });
 
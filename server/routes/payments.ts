@@ -0,0 +1,116 @@
+import express, { Request, Response } from 'express';
+import Payment from '../models/Payment.js';
+import { isAuthenticated, requireManager } from '../middleware/auth.js';
+import { withGroup } from '../middleware/group.js';
+import { resolveOpenReminders, reopenReminders } from '../services/reminderLogService.js';
+import { exactNameFilter } from '../services/nameMatchService.js';
+
+const router = express.Router();
+
+const PAYMENT_METHODS = ['cash', 'bkash', 'nagad', 'bank', 'other'];
+
+// Apply authentication middleware to all payment routes
+router.use(isAuthenticated);
+router.use(requireManager);
+router.use(withGroup);
+
+// @route   GET /api/payments?member=Name
+// @desc    Get settlement payments for the active group
+// @access  Private
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const groupId = (req as any).group._id;
+    const { member } = req.query as { member?: string };
+
+    const query: any = { groupId };
+    if (member) {
+      const nameFilter = exactNameFilter(member);
+      query.$or = [{ fromName: nameFilter }, { toName: nameFilter }];
+    }
+
+    const payments = await Payment.find(query).sort({ date: -1, createdAt: -1 });
+
+    res.json(payments);
+  } catch (error) {
+    console.error('Error fetching payments:', error);
+    res.status(500).json({ error: 'Failed to fetch payments' });
+  }
+});
+
+// @route   POST /api/payments
+// @desc    Record a settlement payment and resolve the payer's open reminders
+// @access  Private
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const groupId = (req as any).group._id;
+    const { fromName, toName, amount, date, method, note } = req.body;
+
+    if (!fromName && !toName) {
+      return res.status(400).json({ error: 'A payment needs a payer or a receiver' });
+    }
+
+    if ((fromName && typeof fromName !== 'string') || (toName && typeof toName !== 'string')) {
+      return res.status(400).json({ error: 'Payer and receiver must be member names' });
+    }
+
+    if (fromName && toName && fromName.trim().toLowerCase() === toName.trim().toLowerCase()) {
+      return res.status(400).json({ error: 'Payer and receiver must be different' });
+    }
+
+    if (amount === undefined || isNaN(Number(amount)) || Number(amount) <= 0) {
+      return res.status(400).json({ error: 'Amount must be a positive number' });
+    }
+
+    if (method && !PAYMENT_METHODS.includes(method)) {
+      return res.status(400).json({ error: `Method must be one of: ${PAYMENT_METHODS.join(', ')}` });
+    }
+
+    const payment = new Payment({
+      groupId,
+      fromName: fromName || null,
+      toName: toName || null,
+      amount: Number(amount),
+      date: date ? new Date(date) : new Date(),
+      method: method || 'cash',
+      note
+    });
+
+    await payment.save();
+
+    const resolvedReminders = fromName
+      ? await resolveOpenReminders(groupId, fromName, payment._id as any)
+      : 0;
+
+    console.log(`💸 Payment of ${payment.amount} recorded from ${fromName || 'mess fund'} to ${toName || 'mess fund'} (${resolvedReminders} reminders resolved)`);
+
+    res.status(201).json({ payment, resolvedReminders });
+  } catch (error) {
+    console.error('Error recording payment:', error);
+    res.status(500).json({ error: 'Failed to record payment' });
+  }
+});
+
+// @route   DELETE /api/payments/:id
+// @desc    Delete a payment and reopen the reminders it resolved
+// @access  Private
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const groupId = (req as any).group._id;
+    const { id } = req.params;
+
+    const result = await Payment.findOneAndDelete({ _id: id, groupId });
+
+    if (!result) {
+      return res.status(404).json({ error: 'Payment not found' });
+    }
+
+    await reopenReminders(result._id as any);
+
+    res.json({ message: 'Payment deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting payment:', error);
+    res.status(500).json({ error: 'Failed to delete payment' });
+  }
+});
+
+export default router;
@@ -0,0 +1,44 @@
+import express, { Request, Response } from 'express';
+import Group from '../models/Group.js';
+import { isAuthenticated } from '../middleware/auth.js';
+import { findMemberships, buildMemberStatement } from '../services/portalService.js';
+
+const router = express.Router();
+
+// Apply authentication middleware to all portal routes
+router.use(isAuthenticated);
+
+// @route   GET /api/portal/me?groupId=
+// @desc    Get the signed-in member's own balance, meals, deposits and history
+// @access  Private (members and managers)
+router.get('/me', async (req: Request, res: Response) => {
+  try {
+    const memberships = await findMemberships(req.user as any);
+
+    if (memberships.length === 0) {
+      return res.status(404).json({ error: 'No member record is linked to your email' });
+    }
+
+    const { groupId } = req.query as { groupId?: string };
+    const member = (groupId && memberships.find(m => m.groupId.toString() === groupId)) || memberships[0];
+
+    const statement = await buildMemberStatement(member);
+    const groups = await Group.find({ _id: { $in: memberships.map(m => m.groupId) } }).select('name');
+    const groupNames = new Map(groups.map(g => [g._id.toString(), g.name]));
+
+    res.json({
+      ...statement,
+      groupId: member.groupId,
+      memberships: memberships.map(m => ({
+        groupId: m.groupId,
+        groupName: groupNames.get(m.groupId.toString()) || 'Mess',
+        memberName: m.sheetName
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching member statement:', error);
+    res.status(500).json({ error: 'Failed to fetch member statement' });
+  }
+});
+
+export default router;
@@ -0,0 +1,40 @@
+import express, { Request, Response } from 'express';
+import { isAuthenticated, requireManager } from '../middleware/auth.js';
+import { withGroup } from '../middleware/group.js';
+import { loadLedgerState } from '../services/ledgerStateService.js';
+import { calculateBalances } from '../../services/balanceService.js';
+import { planSettlements } from '../../services/settlementService.js';
+
+const router = express.Router();
+
+// Apply authentication middleware to all settlement routes
+router.use(isAuthenticated);
+router.use(requireManager);
+router.use(withGroup);
+
+// @route   GET /api/settlements/plan?tolerance=1
+// @desc    Get the smallest set of transfers that settles the current balances
+// @access  Private
+router.get('/plan', async (req: Request, res: Response) => {
+  try {
+    const { tolerance } = req.query as { tolerance?: string };
+    const minAmount = tolerance !== undefined ? Number(tolerance) : 1;
+
+    if (isNaN(minAmount) || minAmount < 0) {
+      return res.status(400).json({ error: 'Tolerance must be zero or more' });
+    }
+
+    const { people, sheetMealRate, totalCost } = await loadLedgerState((req as any).group);
+    const { balances, mealRate } = calculateBalances(people, { sheetMealRate, totalCost });
+
+    res.json({
+      mealRate,
+      ...planSettlements(balances, minAmount)
+    });
+  } catch (error) {
+    console.error('Error planning settlements:', error);
+    res.status(500).json({ error: 'Failed to plan settlements' });
+  }
+});
+
+export default router;
@@ -1,23 +1,103 @@
 import express from 'express';
-import User from '../models/User.js';
-import { isAuthenticated } from '../middleware/auth.js';
+import mongoose from 'mongoose';
+import SyncedDataVersion, { SyncedDataSource } from '../models/SyncedDataVersion.js';
+import { isAuthenticated, requireManager } from '../middleware/auth.js';
+import { withGroup } from '../middleware/group.js';
 import { schedulerService } from '../services/schedulerService.js';
+import { saveSheetMealEntries } from '../services/mealLogService.js';
+import { saveSheetDeposits } from '../services/depositService.js';
+import { recordBalanceSnapshot } from '../services/snapshotService.js';
+import { recordAudit } from '../services/auditService.js';
+import { recordSyncedVersion, SyncedData } from '../services/syncVersionService.js';
+import { DEFAULT_SYNC_LIMITS, diffSync, isValidSyncLimits } from '../../services/syncDiffService.js';
+import { isValidSheetLayout, sheetPeriod } from '../../services/sheetParser.js';
+import { hasSheetSource, linkedSheetsToken, userSheetsToken } from '../services/sheetSourceService.js';
+import {
+  canReadSpreadsheet,
+  fetchSheetsApiValues,
+  isValidSheetsApiRange,
+  parseSpreadsheetId
+} from '../services/sheetsApiService.js';
+import { isSupportedUpload, MAX_UPLOAD_BYTES, readWorkbook } from '../services/workbookService.js';
 
 const router = express.Router();
 
-// Get user's sheet configuration
-router.get('/config', isAuthenticated, async (req, res) => {
+/**
+ * Keep the meal log and sheet deposits in step, store synced sheet data on the group,
+ * audit the change, keep a restorable version and snapshot the resulting balances.
+ */
+const applySyncedData = async (
+  req: express.Request,
+  change: {
+    action: string;
+    source: SyncedDataSource;
+    restoredFrom?: mongoose.Types.ObjectId;
+    syncedAt?: Date;
+    period?: { from: string; to: string }; // Days whose sheet rows are replaced; defaults to the data's own
+  },
+  data: SyncedData
+) => {
+  const group = (req as any).group;
+  const before = { sheetMealRate: group.sheetMealRate || null, people: group.syncedPeople || [] };
+
+  // Anomalies are saved with the version; a manager has already seen and accepted them
+  const { anomalies } = diffSync(
+    before,
+    { people: data.people || [], sheetMealRate: data.sheetMealRate },
+    group.syncLimits || DEFAULT_SYNC_LIMITS,
+    { currency: group.currency, locale: group.locale }
+  );
+
+  // Keep the per-day attendance log in step with the grid. It and the deposits are
+  // written first, so a failure there leaves the group's synced data untouched.
+  const period = change.period || sheetPeriod([...(data.mealEntries || []), ...(data.deposits || [])].map(e => e?.date));
+  const mealEntryCount = await saveSheetMealEntries(group._id, data.mealEntries || [], period);
+
+  // Joma columns replace the sheet-sourced deposits of the days the grid covers
+  const depositCount = await saveSheetDeposits(group._id, data.deposits || [], period);
+
+  group.syncedPeople = data.people || [];
+  group.sheetMealRate = data.sheetMealRate || null;
+  group.syncedAt = change.syncedAt || new Date();
+  group.pendingSync = null; // Whatever was held is now out of date
+  await group.save();
+  await recordAudit(group._id, req.user as any, {
+    action: change.action,
+    target: change.restoredFrom?.toString(),
+    before,
+    after: { sheetMealRate: group.sheetMealRate, people: group.syncedPeople }
+  });
+
+  const version = await recordSyncedVersion(group, change.source, { ...data, anomalies }, req.user as any, change.restoredFrom);
+
+  // Keep an immutable record of the balances this sync produced
+  const snapshot = await recordBalanceSnapshot(group, change.source);
+
+  return { mealEntryCount, depositCount, snapshot, version, anomalies };
+};
+
+// Get the active group's sheet configuration
+router.get('/config', isAuthenticated, requireManager, withGroup, async (req, res) => {
   try {
-    const userId = (req.user as any)._id;
-    const user = await User.findById(userId).select('csvUrl lastFetchTime syncedPeople sheetMealRate autoSyncEnabled autoSyncTime');
+    const group = (req as any).group;
     
     res.json({
-      csvUrl: user?.csvUrl || null,
-      lastFetchTime: user?.lastFetchTime || null,
-      syncedPeople: user?.syncedPeople || [],
-      sheetMealRate: user?.sheetMealRate || null,
-      autoSyncEnabled: user?.autoSyncEnabled || false,
-      autoSyncTime: user?.autoSyncTime || '09:00'
+      csvUrl: group.csvUrl || null,
+      sheetSource: group.sheetSource || 'csv',
+      sheetsApi: group.sheetsApi || null,
+      uploadedFileName: group.uploadedFileName || null,
+      sheetsAccess: !!(await userSheetsToken((req.user as any)?._id)),
+      sheetLayout: group.sheetLayout || null,
+      lastFetchTime: group.lastFetchTime || null,
+      syncedPeople: group.syncedPeople || [],
+      sheetMealRate: group.sheetMealRate || null,
+      syncedAt: group.syncedAt || null,
+      autoSyncEnabled: group.autoSyncEnabled || false,
+      autoSyncTime: group.autoSyncTime || '09:00',
+      syncLimits: group.syncLimits || DEFAULT_SYNC_LIMITS,
+      pendingSync: group.pendingSync
+        ? { fetchedAt: group.pendingSync.fetchedAt, diff: group.pendingSync.diff }
+        : null
     });
   } catch (error) {
     console.error('Error fetching sheet config:', error);
@@ -26,9 +106,8 @@ router.get('/config', isAuthenticated, async (req, res) => {
 });
 
 // Save/Update CSV URL
-router.post('/config', isAuthenticated, async (req, res) => {
+router.post('/config', isAuthenticated, requireManager, withGroup, async (req, res) => {
   try {
-    const userId = (req.user as any)._id;
     const { csvUrl } = req.body;
 
     if (!csvUrl) {
@@ -42,19 +121,22 @@ router.post('/config', isAuthenticated, async (req, res) => {
       return res.status(400).json({ error: 'Invalid URL format' });
     }
 
-    const user = await User.findById(userId);
-    if (!user) {
-      return res.status(404).json({ error: 'User not found' });
-    }
+    const group = (req as any).group;
+    const before = { csvUrl: group.csvUrl || null };
 
-    user.csvUrl = csvUrl;
-    await user.save();
+    group.csvUrl = csvUrl;
+    await group.save();
+    await recordAudit(group._id, req.user as any, {
+      action: 'sheet.config.update',
+      before,
+      after: { csvUrl: group.csvUrl }
+    });
 
-    console.log(`✅ CSV URL saved for user ${user.email}: ${csvUrl}`);
+    console.log(`✅ CSV URL saved for group ${group.name}: ${csvUrl}`);
 
     res.json({ 
       success: true, 
-      csvUrl: user.csvUrl,
+      csvUrl: group.csvUrl,
       message: 'CSV URL saved successfully' 
     });
   } catch (error) {
@@ -64,23 +146,24 @@ router.post('/config', isAuthenticated, async (req, res) => {
 });
 
 // Update last fetch time (called after successful data fetch)
-router.post('/update-fetch-time', isAuthenticated, async (req, res) => {
+router.post('/update-fetch-time', isAuthenticated, requireManager, withGroup, async (req, res) => {
   try {
-    const userId = (req.user as any)._id;
-
-    const user = await User.findById(userId);
-    if (!user) {
-      return res.status(404).json({ error: 'User not found' });
-    }
-
-    user.lastFetchTime = new Date();
-    await user.save();
+    const group = (req as any).group;
+    const before = { lastFetchTime: group.lastFetchTime || null };
+
+    group.lastFetchTime = new Date();
+    await group.save();
+    await recordAudit(group._id, req.user as any, {
+      action: 'sheet.fetch-time.update',
+      before,
+      after: { lastFetchTime: group.lastFetchTime }
+    });
 
-    console.log(`✅ Last fetch time updated for user ${user.email}`);
+    console.log(`✅ Last fetch time updated for group ${group.name}`);
 
     res.json({ 
       success: true, 
-      lastFetchTime: user.lastFetchTime,
+      lastFetchTime: group.lastFetchTime,
       message: 'Fetch time updated successfully' 
     });
   } catch (error) {
@@ -90,20 +173,21 @@ router.post('/update-fetch-time', isAuthenticated, async (req, res) => {
 });
 
 // Delete CSV URL configuration
-router.delete('/config', isAuthenticated, async (req, res) => {
+router.delete('/config', isAuthenticated, requireManager, withGroup, async (req, res) => {
   try {
-    const userId = (req.user as any)._id;
-
-    const user = await User.findById(userId);
-    if (!user) {
-      return res.status(404).json({ error: 'User not found' });
-    }
-
-    user.csvUrl = undefined;
-    user.lastFetchTime = undefined;
-    await user.save();
+    const group = (req as any).group;
+    const before = { csvUrl: group.csvUrl || null, lastFetchTime: group.lastFetchTime || null };
+
+    group.csvUrl = undefined;
+    group.lastFetchTime = undefined;
+    await group.save();
+    await recordAudit(group._id, req.user as any, {
+      action: 'sheet.config.delete',
+      before,
+      after: { csvUrl: null, lastFetchTime: null }
+    });
 
-    console.log(`🗑️ CSV URL deleted for user ${user.email}`);
+    console.log(`🗑️ CSV URL deleted for group ${group.name}`);
 
     res.json({ 
       success: true, 
@@ -115,27 +199,171 @@ router.delete('/config', isAuthenticated, async (req, res) => {
   }
 });
 
-// Save synced data (people and meal rate)
-router.post('/save-data', isAuthenticated, async (req, res) => {
+// Choose between the published CSV link and the Sheets API
+router.post('/source', isAuthenticated, requireManager, withGroup, async (req, res) => {
+  try {
+    const { sheetSource, sheetsApi } = req.body;
+
+    if (sheetSource !== 'csv' && sheetSource !== 'api') {
+      return res.status(400).json({ error: 'Sheet source must be "csv" or "api"' });
+    }
+
+    let apiSource = null;
+    if (sheetSource === 'api') {
+      const spreadsheetId = parseSpreadsheetId(String(sheetsApi?.spreadsheetId || ''));
+      if (!spreadsheetId) {
+        return res.status(400).json({ error: 'Enter a spreadsheet ID or the sheet\'s URL' });
+      }
+      const range = String(sheetsApi?.range || '').trim();
+      if (!isValidSheetsApiRange(range)) {
+        return res.status(400).json({ error: 'Range must look like A1:Z200' });
+      }
+      apiSource = { spreadsheetId, tab: String(sheetsApi?.tab || '').trim(), range };
+    }
+
+    // The sheet is read with the linking manager's own Google access, so they must be able to open it
+    const user = req.user as any;
+    if (apiSource) {
+      const refreshToken = await userSheetsToken(user._id);
+      if (!refreshToken) {
+        return res.status(403).json({ error: 'Allow read-only access to your Google Sheets first' });
+      }
+      if (!await canReadSpreadsheet(apiSource.spreadsheetId, refreshToken)) {
+        return res.status(403).json({ error: 'Your Google account can\'t open this spreadsheet' });
+      }
+    }
+
+    const group = (req as any).group;
+    const before = { sheetSource: group.sheetSource || 'csv', sheetsApi: group.sheetsApi || null };
+
+    group.sheetSource = sheetSource;
+    if (apiSource) group.sheetsApi = { ...apiSource, linkedBy: user._id };
+    await group.save();
+    await recordAudit(group._id, req.user as any, {
+      action: 'sheet.source.update',
+      before,
+      after: { sheetSource: group.sheetSource, sheetsApi: group.sheetsApi || null }
+    });
+
+    // The scheduler only runs for groups with a usable source
+    if (group.autoSyncEnabled && hasSheetSource(group)) {
+      await schedulerService.startSyncScheduler(group._id.toString());
+    } else {
+      schedulerService.stopScheduler(group._id.toString(), 'sync');
+    }
+
+    console.log(`✅ Sheet source for group ${group.name}: ${group.sheetSource}`);
+
+    res.json({ success: true, sheetSource: group.sheetSource, sheetsApi: group.sheetsApi || null });
+  } catch (error) {
+    console.error('Error saving sheet source:', error);
+    res.status(500).json({ error: 'Failed to save sheet source' });
+  }
+});
+
+// Typed cell values of the group's sheet, read through the Sheets API
+router.get('/api-values', isAuthenticated, requireManager, withGroup, async (req, res) => {
   try {
-    const userId = (req.user as any)._id;
-    const { people, sheetMealRate } = req.body;
+    const group = (req as any).group;
 
-    const user = await User.findById(userId);
-    if (!user) {
-      return res.status(404).json({ error: 'User not found' });
+    if (group.sheetSource !== 'api' || !group.sheetsApi?.spreadsheetId) {
+      return res.status(400).json({ error: 'This group does not read its sheet through the Sheets API' });
     }
 
-    user.syncedPeople = people || [];
-    user.sheetMealRate = sheetMealRate || null;
-    await user.save();
+    const values = await fetchSheetsApiValues(group.sheetsApi, await linkedSheetsToken(group));
+    res.json({ values });
+  } catch (error) {
+    console.error('Error reading sheet through the Sheets API:', error);
+    res.status(500).json({ error: 'Failed to read the sheet. Check that the manager who linked it can still open it.' });
+  }
+});
+
+// Read an uploaded .xlsx, .ods or .csv file into tabs of cells; nothing is saved until /save-data
+router.post(
+  '/upload',
+  isAuthenticated,
+  requireManager,
+  withGroup,
+  express.raw({ type: 'application/octet-stream', limit: MAX_UPLOAD_BYTES }),
+  // The body parser rejects files over the limit before the handler runs
+  (error: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+    if (error?.type === 'entity.too.large') {
+      return res.status(413).json({ error: `The file is too large. Upload a file of up to ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB` });
+    }
+    next(error);
+  },
+  async (req: express.Request, res: express.Response) => {
+    try {
+      const rawFileName = String(req.headers['x-file-name'] || '');
+      let fileName: string;
+      try {
+        fileName = decodeURIComponent(rawFileName);
+      } catch {
+        // Malformed escapes: use the name as sent and let the extension check decide
+        fileName = rawFileName;
+      }
+
+      if (!isSupportedUpload(fileName)) {
+        return res.status(400).json({ error: 'Upload an .xlsx, .ods or .csv file' });
+      }
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ error: 'The file is empty' });
+      }
+
+      let tabs;
+      try {
+        tabs = readWorkbook(req.body, fileName);
+      } catch (error) {
+        console.warn(`⚠️ Could not read uploaded file ${fileName}:`, error);
+        return res.status(400).json({ error: 'Could not read the file. Is it a spreadsheet?' });
+      }
+
+      res.json({ fileName, tabs });
+    } catch (error) {
+      console.error('Error reading uploaded file:', error);
+      res.status(500).json({ error: 'Failed to read uploaded file' });
+    }
+  }
+);
 
-    console.log(`✅ Synced data saved for user ${user.email}: ${people?.length || 0} people, meal rate: ${sheetMealRate || 'null'}`);
+// Save synced data (people and meal rate). With a fileName the data came from an
+// uploaded file, which becomes the group's source and stops scheduled syncs.
+router.post('/save-data', isAuthenticated, requireManager, withGroup, async (req, res) => {
+  try {
+    const { people, sheetMealRate, mealEntries, deposits, fileName } = req.body;
+    const isUpload = typeof fileName === 'string' && fileName.trim() !== '';
+
+    const group = (req as any).group;
+    if (isUpload) {
+      group.sheetSource = 'upload';
+      group.uploadedFileName = fileName.trim();
+    }
+
+    const change = isUpload
+      ? { action: 'sheet.data.upload', source: 'upload' as const }
+      : { action: 'sheet.data.save', source: 'manual' as const };
+    const { mealEntryCount, depositCount, snapshot, anomalies } = await applySyncedData(req, change, {
+      people,
+      sheetMealRate,
+      mealEntries,
+      deposits
+    });
+
+    if (isUpload) {
+      schedulerService.stopScheduler(group._id.toString(), 'sync');
+    }
+
+    console.log(`✅ Synced data saved for group ${group.name}: ${people?.length || 0} people, ${mealEntryCount} meal entries, ${depositCount} deposits, meal rate: ${sheetMealRate || 'null'}`);
 
     res.json({ 
       success: true, 
       message: 'Synced data saved successfully',
-      peopleCount: people?.length || 0
+      peopleCount: people?.length || 0,
+      mealEntryCount,
+      depositCount,
+      snapshotId: snapshot?._id || null,
+      syncedAt: group.syncedAt,
+      anomalies
     });
   } catch (error) {
     console.error('Error saving synced data:', error);
@@ -143,37 +371,238 @@ router.post('/save-data', isAuthenticated, async (req, res) => {
   }
 });
 
+// Apply a scheduled sync that was held for review
+router.post('/pending-sync/approve', isAuthenticated, requireManager, withGroup, async (req, res) => {
+  try {
+    const group = (req as any).group;
+    const pending = group.pendingSync;
+
+    if (!pending) {
+      return res.status(404).json({ error: 'No held sync to approve' });
+    }
+
+    group.lastFetchTime = new Date(pending.fetchedAt);
+    const { mealEntryCount, depositCount, snapshot } = await applySyncedData(
+      req,
+      { action: 'sheet.data.approve', source: 'approved', syncedAt: new Date(pending.fetchedAt) },
+      pending
+    );
+
+    console.log(`✅ Held sync approved for group ${group.name}: ${pending.people.length} people`);
+
+    res.json({
+      success: true,
+      message: 'Held sync applied successfully',
+      peopleCount: pending.people.length,
+      mealEntryCount,
+      depositCount,
+      snapshotId: snapshot?._id || null
+    });
+  } catch (error) {
+    console.error('Error approving held sync:', error);
+    res.status(500).json({ error: 'Failed to approve held sync' });
+  }
+});
+
+// Discard a scheduled sync that was held for review
+router.delete('/pending-sync', isAuthenticated, requireManager, withGroup, async (req, res) => {
+  try {
+    const group = (req as any).group;
+
+    if (!group.pendingSync) {
+      return res.status(404).json({ error: 'No held sync to discard' });
+    }
+
+    const violations = group.pendingSync.diff?.violations || [];
+    group.pendingSync = null;
+    await group.save();
+    await recordAudit(group._id, req.user as any, {
+      action: 'sheet.data.discard',
+      before: { violations }
+    });
+
+    console.log(`🗑️ Held sync discarded for group ${group.name}`);
+
+    res.json({ success: true, message: 'Held sync discarded' });
+  } catch (error) {
+    console.error('Error discarding held sync:', error);
+    res.status(500).json({ error: 'Failed to discard held sync' });
+  }
+});
+
+// Save the limits past which scheduled syncs are held for review
+router.post('/sync-limits', isAuthenticated, requireManager, withGroup, async (req, res) => {
+  try {
+    const limits = req.body;
+
+    if (!isValidSyncLimits(limits)) {
+      return res.status(400).json({ error: 'Sync limits must be non-negative numbers' });
+    }
+
+    const group = (req as any).group;
+    const before = { ...(group.syncLimits?.toObject?.() || group.syncLimits || DEFAULT_SYNC_LIMITS) };
+
+    group.syncLimits = {
+      maxRemovedMembers: limits.maxRemovedMembers,
+      maxMealDrop: limits.maxMealDrop,
+      maxBalanceChange: limits.maxBalanceChange,
+      maxRateChangePercent: limits.maxRateChangePercent
+    };
+    await group.save();
+    await recordAudit(group._id, req.user as any, {
+      action: 'sheet.limits.update',
+      before,
+      after: group.syncLimits
+    });
+
+    console.log(`✅ Sync limits saved for group ${group.name}`);
+
+    res.json({ success: true, syncLimits: group.syncLimits });
+  } catch (error) {
+    console.error('Error saving sync limits:', error);
+    res.status(500).json({ error: 'Failed to save sync limits' });
+  }
+});
+
+// Save the group's sheet layout profile (null goes back to the header heuristics)
+router.post('/layout', isAuthenticated, requireManager, withGroup, async (req, res) => {
+  try {
+    const { layout } = req.body;
+
+    if (layout !== null && !isValidSheetLayout(layout)) {
+      return res.status(400).json({ error: 'Invalid sheet layout' });
+    }
+
+    const group = (req as any).group;
+    const before = { sheetLayout: group.sheetLayout || null };
+
+    group.sheetLayout = layout;
+    group.markModified('sheetLayout');
+    await group.save();
+    await recordAudit(group._id, req.user as any, {
+      action: 'sheet.layout.update',
+      before,
+      after: { sheetLayout: group.sheetLayout }
+    });
+
+    console.log(`✅ Sheet layout ${layout ? 'saved' : 'cleared'} for group ${group.name}`);
+
+    res.json({ success: true, sheetLayout: group.sheetLayout });
+  } catch (error) {
+    console.error('Error saving sheet layout:', error);
+    res.status(500).json({ error: 'Failed to save sheet layout' });
+  }
+});
+
+// List recent versions of the synced data, newest first
+router.get('/versions', isAuthenticated, requireManager, withGroup, async (req, res) => {
+  try {
+    const group = (req as any).group;
+    const max = Math.min(Number(req.query.limit) || 20, 50);
+
+    const versions = await SyncedDataVersion.find({ groupId: group._id })
+      .sort({ createdAt: -1 })
+      .limit(max)
+      .select('source actorEmail people sheetMealRate restoredFrom anomalies createdAt');
+
+    res.json(versions.map(v => ({
+      _id: v._id,
+      createdAt: v.createdAt,
+      source: v.source,
+      actorEmail: v.actorEmail,
+      sheetMealRate: v.sheetMealRate ?? null,
+      peopleCount: v.people.length,
+      totalMeals: v.people.reduce((sum: number, p: any) => sum + (Number(p.meals) || 0), 0),
+      restoredFrom: v.restoredFrom || null,
+      anomalies: v.anomalies || []
+    })));
+  } catch (error) {
+    console.error('Error fetching synced data versions:', error);
+    res.status(500).json({ error: 'Failed to fetch synced data versions' });
+  }
+});
+
+// Restore an earlier version of the synced data
+router.post('/versions/:id/restore', isAuthenticated, requireManager, withGroup, async (req, res) => {
+  try {
+    const group = (req as any).group;
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ error: 'Invalid version id' });
+    }
+
+    const version = await SyncedDataVersion.findOne({ _id: id, groupId: group._id });
+    if (!version) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    // Rows the current data brought in are replaced too, even on days the restored version doesn't have
+    const current = await SyncedDataVersion.findOne({ groupId: group._id }).sort({ createdAt: -1 });
+    const period = sheetPeriod([version, current].flatMap(v => [...(v?.mealEntries || []), ...(v?.deposits || [])].map(e => e?.date)));
+
+    const { mealEntryCount, depositCount, snapshot, version: restored } = await applySyncedData(
+      req,
+      {
+        action: 'sheet.data.restore',
+        source: 'restore',
+        restoredFrom: version._id as mongoose.Types.ObjectId,
+        syncedAt: version.createdAt,
+        period
+      },
+      version.toObject()
+    );
+
+    console.log(`⏪ Synced data restored for group ${group.name} from version ${version._id}`);
+
+    res.json({
+      success: true,
+      message: 'Synced data restored successfully',
+      peopleCount: version.people.length,
+      mealEntryCount,
+      depositCount,
+      snapshotId: snapshot?._id || null,
+      versionId: restored?._id || null
+    });
+  } catch (error) {
+    console.error('Error restoring synced data version:', error);
+    res.status(500).json({ error: 'Failed to restore synced data' });
+  }
+});
+
 // Save auto-sync scheduler settings
-router.post('/save-scheduler', isAuthenticated, async (req, res) => {
+router.post('/save-scheduler', isAuthenticated, requireManager, withGroup, async (req, res) => {
   try {
-    const userId = (req.user as any)._id;
     const { autoSyncEnabled, autoSyncTime } = req.body;
 
-    const user = await User.findById(userId);
-    if (!user) {
-      return res.status(404).json({ error: 'User not found' });
-    }
+    const group = (req as any).group;
+    const before = { autoSyncEnabled: group.autoSyncEnabled, autoSyncTime: group.autoSyncTime };
 
-    if (autoSyncEnabled !== undefined) user.autoSyncEnabled = autoSyncEnabled;
-    if (autoSyncTime !== undefined) user.autoSyncTime = autoSyncTime;
-    await user.save();
+    if (autoSyncEnabled !== undefined) group.autoSyncEnabled = autoSyncEnabled;
+    if (autoSyncTime !== undefined) group.autoSyncTime = autoSyncTime;
+    await group.save();
+    await recordAudit(group._id, req.user as any, {
+      action: 'sheet.scheduler.update',
+      before,
+      after: { autoSyncEnabled: group.autoSyncEnabled, autoSyncTime: group.autoSyncTime }
+    });
 
-    console.log(`✅ Auto-sync settings saved for user ${user.email}: enabled=${user.autoSyncEnabled}, time=${user.autoSyncTime}`);
+    console.log(`✅ Auto-sync settings saved for group ${group.name}: enabled=${group.autoSyncEnabled}, time=${group.autoSyncTime}`);
 
     // Start or stop the sync scheduler based on the new configuration
-    if (user.autoSyncEnabled && user.csvUrl) {
-      await schedulerService.startSyncScheduler(userId.toString());
-      console.log(`🔄 Sync scheduler started for user ${user.email}`);
+    if (group.autoSyncEnabled && hasSheetSource(group)) {
+      await schedulerService.startSyncScheduler(group._id.toString());
+      console.log(`🔄 Sync scheduler started for group ${group.name}`);
     } else {
-      schedulerService.stopScheduler(userId.toString(), 'sync');
-      console.log(`⏹️ Sync scheduler stopped for user ${user.email}`);
+      schedulerService.stopScheduler(group._id.toString(), 'sync');
+      console.log(`⏹️ Sync scheduler stopped for group ${group.name}`);
     }
 
     res.json({ 
       success: true, 
       message: 'Auto-sync settings saved successfully',
-      autoSyncEnabled: user.autoSyncEnabled,
-      autoSyncTime: user.autoSyncTime
+      autoSyncEnabled: group.autoSyncEnabled,
+      autoSyncTime: group.autoSyncTime
     });
   } catch (error) {
     console.error('Error saving auto-sync settings:', error);
@@ -182,14 +611,15 @@ router.post('/save-scheduler', isAuthenticated, async (req, res) => {
 });
 
 // Manually trigger sync task (for testing)
-router.post('/trigger-manual-sync', isAuthenticated, async (req, res) => {
+router.post('/trigger-manual-sync', isAuthenticated, requireManager, withGroup, async (req, res) => {
   try {
-    const userId = (req.user as any)._id.toString();
+    const groupId = (req as any).group._id.toString();
     
-    console.log(`🔧 Manual sync trigger requested by user ${userId}`);
+    console.log(`🔧 Manual sync trigger requested for group ${groupId}`);
+    await recordAudit(groupId, req.user as any, { action: 'sheet.sync.trigger' });
     
     // Run the task asynchronously
-    schedulerService.triggerManualSync(userId).catch(err => {
+    schedulerService.triggerManualSync(groupId).catch(err => {
       console.error('Error in manual sync trigger:', err);
     });
 
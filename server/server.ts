@@ -12,6 +12,19 @@ import authRoutes from './routes/auth.js';
 import memberRoutes from './routes/members.js';
 import notificationRoutes from './routes/notifications.js';
 import sheetRoutes from './routes/sheet.js';
+import expenseRoutes from './routes/expenses.js';
+import mealRoutes from './routes/meals.js';
+import depositRoutes from './routes/deposits.js';
+import guestMealRoutes from './routes/guestMeals.js';
+import fixedCostRoutes from './routes/fixedCosts.js';
+import settlementRoutes from './routes/settlements.js';
+import paymentRoutes from './routes/payments.js';
+import historyRoutes from './routes/history.js';
+import forecastRoutes from './routes/forecast.js';
+import auditRoutes from './routes/audit.js';
+import cycleRoutes from './routes/cycles.js';
+import groupRoutes from './routes/groups.js';
+import portalRoutes from './routes/portal.js';
 import { schedulerService } from './services/schedulerService.js';
 
 const app = express();
@@ -68,6 +81,19 @@ app.use('/auth', authRoutes);
 app.use('/api/members', memberRoutes);
 app.use('/api/notifications', notificationRoutes);
 app.use('/api/sheet', sheetRoutes);
+app.use('/api/expenses', expenseRoutes);
+app.use('/api/meals', mealRoutes);
+app.use('/api/deposits', depositRoutes);
+app.use('/api/guest-meals', guestMealRoutes);
+app.use('/api/fixed-costs', fixedCostRoutes);
+app.use('/api/settlements', settlementRoutes);
+app.use('/api/payments', paymentRoutes);
+app.use('/api/history', historyRoutes);
+app.use('/api/forecast', forecastRoutes);
+app.use('/api/audit', auditRoutes);
+app.use('/api/cycles', cycleRoutes);
+app.use('/api/groups', groupRoutes);
+app.use('/api/portal', portalRoutes);
 
 // Health check
 app.get('/health', (req, res) => {
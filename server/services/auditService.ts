@@ -0,0 +1,90 @@
+import mongoose from 'mongoose';
+import AuditEvent, { IAuditChange } from '../models/AuditEvent.js';
+
+const MAX_CHANGES = 200;
+
+export interface AuditActor {
+  _id?: mongoose.Types.ObjectId | string;
+  email?: string;
+}
+
+export interface AuditEntry {
+  action: string;
+  target?: string;
+  before?: any;
+  after?: any;
+}
+
+const isPlainObject = (value: any) =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+// Lists of people (synced rows, members) are compared by name rather than by position
+const isNamedList = (value: any) =>
+  Array.isArray(value) && value.length > 0 && value.every(v => isPlainObject(v) && typeof v.name === 'string');
+
+/**
+ * Flatten the differences between two JSON values into field-level changes,
+ * e.g. { field: 'people[Rahim].meals', before: 30, after: 32 }.
+ */
+export const diffValues = (before: any, after: any, path = '', changes: IAuditChange[] = []): IAuditChange[] => {
+  if (changes.length >= MAX_CHANGES) return changes;
+
+  const objectLike = isPlainObject(before) || isPlainObject(after);
+  const listLike = isNamedList(before) || isNamedList(after);
+
+  if (objectLike && (isPlainObject(before) || before == null) && (isPlainObject(after) || after == null)) {
+    const a = before || {};
+    const b = after || {};
+    for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+      diffValues(a[key], b[key], path ? `${path}.${key}` : key, changes);
+    }
+    return changes;
+  }
+
+  if (listLike && (Array.isArray(before) || before == null) && (Array.isArray(after) || after == null)) {
+    const a = new Map<string, any>((before || []).map((p: any) => [p.name, p]));
+    const b = new Map<string, any>((after || []).map((p: any) => [p.name, p]));
+    for (const name of new Set([...a.keys(), ...b.keys()])) {
+      // Someone added or removed is one change, not one per field
+      if (a.has(name) && b.has(name)) {
+        diffValues(a.get(name), b.get(name), `${path}[${name}]`, changes);
+      } else {
+        changes.push({ field: `${path}[${name}]`, before: a.get(name) ?? null, after: b.get(name) ?? null });
+      }
+    }
+    return changes;
+  }
+
+  if (JSON.stringify(before ?? null) !== JSON.stringify(after ?? null)) {
+    changes.push({ field: path || 'value', before: before ?? null, after: after ?? null });
+  }
+  return changes;
+};
+
+/**
+ * Record who changed what. Before/after values are JSON-cloned so documents,
+ * dates and ids are stored as plain values. Never throws, so a failed audit
+ * write doesn't fail the change itself.
+ */
+export const recordAudit = async (
+  groupId: mongoose.Types.ObjectId | string,
+  actor: AuditActor | null,
+  entry: AuditEntry
+) => {
+  try {
+    const clone = (value: any) => value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+    const changes = diffValues(clone(entry.before), clone(entry.after));
+
+    const event = new AuditEvent({
+      groupId,
+      actorId: actor?._id || null,
+      actorEmail: actor?.email || 'scheduler',
+      action: entry.action,
+      target: entry.target || null,
+      changes
+    });
+    await event.save();
+  } catch (error) {
+    console.error('Error recording audit event:', error);
+  }
+};
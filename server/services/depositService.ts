@@ -0,0 +1,47 @@
+import mongoose from 'mongoose';
+import Deposit from '../models/Deposit.js';
+import { isSheetDay } from '../../services/sheetParser.js';
+
+export interface SheetDeposit {
+  memberName: string;
+  date: string; // YYYY-MM-DD
+  amount: number;
+}
+
+/**
+ * Replace the sheet-sourced deposits of the synced period with the ones read
+ * from the sheet's joma columns, so cleared or moved cells don't linger.
+ * Manually entered deposits are never touched.
+ */
+export const saveSheetDeposits = async (
+  groupId: mongoose.Types.ObjectId | string,
+  deposits: SheetDeposit[],
+  period: { from: string; to: string } | undefined
+): Promise<number> => {
+  const valid = (deposits || []).filter(d =>
+    d && d.memberName && isSheetDay(d.date) && typeof d.amount === 'number' && !isNaN(d.amount)
+  );
+
+  if (!period) return 0;
+
+  const group = new mongoose.Types.ObjectId(groupId.toString());
+  await Deposit.deleteMany({
+    groupId: group,
+    source: 'sheet',
+    date: { $gte: new Date(`${period.from}T00:00:00.000Z`), $lte: new Date(`${period.to}T00:00:00.000Z`) }
+  });
+
+  if (valid.length === 0) return 0;
+
+  await Deposit.insertMany(valid.map(d => ({
+    groupId: group,
+    memberName: d.memberName.trim(),
+    date: new Date(`${d.date}T00:00:00.000Z`),
+    amount: d.amount,
+    method: 'other' as const,
+    note: 'Imported from sheet joma column',
+    source: 'sheet' as const
+  })));
+
+  return valid.length;
+};
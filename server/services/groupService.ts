@@ -0,0 +1,142 @@
+import mongoose from 'mongoose';
+import User, { IUser } from '../models/User.js';
+import Group, { IGroup } from '../models/Group.js';
+import Member from '../models/Member.js';
+import Expense from '../models/Expense.js';
+import MealEntry from '../models/MealEntry.js';
+import Deposit from '../models/Deposit.js';
+import BillingCycle from '../models/BillingCycle.js';
+import FixedCost from '../models/FixedCost.js';
+import Payment from '../models/Payment.js';
+import GuestMeal from '../models/GuestMeal.js';
+import ReminderLog from '../models/ReminderLog.js';
+import BalanceSnapshot from '../models/BalanceSnapshot.js';
+import SyncedDataVersion from '../models/SyncedDataVersion.js';
+import AuditEvent from '../models/AuditEvent.js';
+
+// Collections whose records used to be keyed by userId before groups existed
+const LEGACY_COLLECTIONS = [Member, Expense, MealEntry, Deposit, BillingCycle];
+
+// Every collection holding records that belong to a group
+const GROUP_COLLECTIONS: mongoose.Model<any>[] = [
+  Member, Expense, MealEntry, Deposit, BillingCycle, FixedCost, Payment,
+  GuestMeal, ReminderLog, BalanceSnapshot, SyncedDataVersion, AuditEvent
+];
+
+// Indexes that were unique per user and would now clash across groups
+const LEGACY_INDEXES: [mongoose.Model<any>, string][] = [
+  [Member, 'userId_1_sheetName_1'],
+  [MealEntry, 'userId_1_memberName_1_date_1']
+];
+
+/**
+ * Whether the user kept a mess before groups existed: settings on the
+ * user itself, or records keyed only by their userId.
+ */
+export const hasLegacyData = async (user: IUser): Promise<boolean> => {
+  if (user.csvUrl || user.syncedPeople?.length) return true;
+
+  for (const model of LEGACY_COLLECTIONS) {
+    if (await model.collection.findOne({ userId: user._id, groupId: { $exists: false } })) {
+      return true;
+    }
+  }
+  return false;
+};
+
+const dropLegacyIndexes = async () => {
+  for (const [model, index] of LEGACY_INDEXES) {
+    try {
+      await model.collection.dropIndex(index);
+      console.log(`🧹 Dropped legacy index ${index}`);
+    } catch {
+      // Already gone (or never existed)
+    }
+  }
+};
+
+/**
+ * Create the user's first group from their legacy single-mess settings
+ * and move their existing records into it.
+ */
+export const createDefaultGroup = async (user: IUser): Promise<IGroup> => {
+  const group = new Group({
+    ownerId: user._id,
+    name: `${user.name.split(' ')[0]}'s Mess`,
+    csvUrl: user.csvUrl || null,
+    lastFetchTime: user.lastFetchTime || null,
+    syncedPeople: user.syncedPeople || [],
+    sheetMealRate: user.sheetMealRate || null,
+    autoSyncEnabled: user.autoSyncEnabled || false,
+    autoSyncTime: user.autoSyncTime || '09:00',
+    notificationConfig: user.notificationConfig
+  });
+  await group.save();
+
+  await dropLegacyIndexes();
+
+  for (const model of LEGACY_COLLECTIONS) {
+    await model.collection.updateMany(
+      { userId: user._id, groupId: { $exists: false } },
+      { $set: { groupId: group._id } }
+    );
+  }
+
+  user.activeGroupId = group._id as mongoose.Types.ObjectId;
+  user.role = 'manager';
+  await user.save();
+
+  console.log(`🏠 Default group "${group.name}" created for user ${user.email}`);
+
+  return group;
+};
+
+/**
+ * Resolve the group the user is currently working in.
+ * Falls back to their oldest group, creating one on first use.
+ */
+export const resolveActiveGroup = async (user: IUser): Promise<IGroup> => {
+  if (user.activeGroupId) {
+    const active = await Group.findOne({ _id: user.activeGroupId, ownerId: user._id });
+    if (active) return active;
+  }
+
+  const first = await Group.findOne({ ownerId: user._id }).sort({ createdAt: 1 });
+  if (first) {
+    user.activeGroupId = first._id as mongoose.Types.ObjectId;
+    await user.save();
+    return first;
+  }
+
+  return createDefaultGroup(user);
+};
+
+/**
+ * Give every user who predates groups a default group, so their
+ * schedules keep running without having to log in first. This includes
+ * managers who were wrongly sent to the portal because their own roster
+ * lists their email.
+ */
+export const migrateLegacyUsers = async () => {
+  const users = await User.find({ activeGroupId: null });
+
+  for (const user of users) {
+    const hasGroup = await Group.exists({ ownerId: user._id });
+    if (hasGroup) continue;
+
+    if (user.role !== 'member' || await hasLegacyData(user)) {
+      await createDefaultGroup(user);
+    }
+  }
+};
+
+/**
+ * Delete a group and everything recorded in it, so no members or ledger
+ * entries are left behind pointing at a group that no longer exists.
+ */
+export const deleteGroupWithData = async (groupId: mongoose.Types.ObjectId | string) => {
+  for (const model of GROUP_COLLECTIONS) {
+    await model.deleteMany({ groupId });
+  }
+  await Group.deleteOne({ _id: groupId });
+};
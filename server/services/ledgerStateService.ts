@@ -0,0 +1,119 @@
+import mongoose from 'mongoose';
+import { IGroup } from '../models/Group.js';
+import Member from '../models/Member.js';
+import Expense from '../models/Expense.js';
+import Deposit from '../models/Deposit.js';
+import GuestMeal from '../models/GuestMeal.js';
+import MealEntry from '../models/MealEntry.js';
+import FixedCost from '../models/FixedCost.js';
+import Payment from '../models/Payment.js';
+import BillingCycle, { IBillingCycle } from '../models/BillingCycle.js';
+import {
+  applyDeposits,
+  applyFixedCosts,
+  applyGuestMeals,
+  applyOpeningBalances,
+  applyPayments,
+  buildLedgerPeople,
+  carriedOpeningBalances,
+  paymentsSinceSync
+} from '../../services/ledgerService.js';
+import { calculateBalances } from '../../services/balanceService.js';
+import { forecastCycle } from '../../services/forecastService.js';
+import { isSheetDriven } from './sheetSourceService.js';
+import type { CycleForecast } from '../../types.js';
+
+export interface LedgerState {
+  people: any[];
+  sheetMealRate: number | null;
+  totalCost?: number;
+  cycle: IBillingCycle | null;
+}
+
+/**
+ * Assemble the people list the same way the dashboard does:
+ * synced sheet data (or the native ledger when the group isn't sheet-driven),
+ * with deposits, guest meals, fixed costs, payments and opening balances
+ * of the open billing cycle applied. Opening balances skip sheet data read
+ * before the cycle opened, which already includes them.
+ */
+export const loadLedgerState = async (group: IGroup): Promise<LedgerState> => {
+  const groupId = group._id as mongoose.Types.ObjectId;
+
+  const cycle = await BillingCycle.findOne({ groupId, status: 'open' });
+  const dateFilter = cycle ? { date: { $gte: cycle.startDate } } : {};
+
+  const [deposits, guestMeals, fixedCosts, payments] = await Promise.all([
+    Deposit.find({ groupId, ...dateFilter }),
+    GuestMeal.find({ groupId, ...dateFilter }),
+    FixedCost.find({ groupId, cycleId: cycle ? cycle._id : null }),
+    Payment.find({ groupId, ...dateFilter })
+  ]);
+
+  let people: any[];
+  let totalCost: number | undefined;
+
+  const sheetDriven = isSheetDriven(group);
+  if (sheetDriven) {
+    people = applyDeposits(group.syncedPeople || [], deposits);
+  } else {
+    const [members, expenses, mealEntries] = await Promise.all([
+      Member.find({ groupId }),
+      Expense.find({ groupId, ...dateFilter }),
+      MealEntry.find({ groupId, ...dateFilter })
+    ]);
+
+    people = buildLedgerPeople(
+      members.map(m => ({ id: m._id.toString(), name: m.sheetName, email: m.email })),
+      expenses.map(e => ({ payerId: e.payerId.toString(), amount: e.amount })),
+      deposits,
+      mealEntries
+    );
+    totalCost = expenses.reduce((sum, e) => sum + e.amount, 0);
+  }
+
+  people = applyGuestMeals(people, guestMeals);
+  people = applyFixedCosts(people, fixedCosts);
+  people = applyPayments(people, sheetDriven ? paymentsSinceSync(payments, group.syncedAt) : payments);
+  people = applyOpeningBalances(people, carriedOpeningBalances(cycle, sheetDriven ? group.syncedAt || null : undefined));
+
+  return {
+    people,
+    sheetMealRate: group.sheetMealRate || null,
+    totalCost,
+    cycle
+  };
+};
+
+/**
+ * Project the open cycle's end-of-cycle meal rate and balances from the
+ * dated spend and meals so far. Without an open cycle the calendar month is used.
+ * Sheet-driven groups have no dated spend, so their spend is assumed evenly spread.
+ */
+export const loadCycleForecast = async (group: IGroup): Promise<CycleForecast> => {
+  const groupId = group._id as mongoose.Types.ObjectId;
+  const { people, sheetMealRate, totalCost, cycle } = await loadLedgerState(group);
+  const summary = calculateBalances(people, { sheetMealRate, totalCost });
+
+  const now = new Date();
+  const cycleStart = cycle ? cycle.startDate : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const dateFilter = { date: { $gte: cycleStart } };
+
+  const [expenses, mealEntries, guestMeals] = await Promise.all([
+    isSheetDriven(group) ? Promise.resolve([]) : Expense.find({ groupId, ...dateFilter }),
+    MealEntry.find({ groupId, ...dateFilter }),
+    GuestMeal.find({ groupId, ...dateFilter })
+  ]);
+
+  return forecastCycle({
+    balances: summary.balances,
+    totalCost: summary.totalCost,
+    totalMeals: summary.totalMeals,
+    cycleStart,
+    spend: expenses.map(e => ({ date: e.date, amount: e.amount })),
+    meals: [
+      ...mealEntries.map(e => ({ date: e.date, amount: e.meals })),
+      ...guestMeals.map(g => ({ date: g.date, amount: g.meals * (g.multiplier ?? 1) }))
+    ]
+  });
+};
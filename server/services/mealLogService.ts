@@ -0,0 +1,55 @@
+import mongoose from 'mongoose';
+import MealEntry from '../models/MealEntry.js';
+import { isSheetDay } from '../../services/sheetParser.js';
+
+export interface SheetMealEntry {
+  memberName: string;
+  date: string; // YYYY-MM-DD
+  meals: number;
+}
+
+/**
+ * Replace the sheet-sourced meal entries of the synced period with the daily
+ * meal counts read from a sheet grid, so cells a sync no longer has are removed.
+ * Days are stored at UTC midnight so range queries line up with the sheet's dates.
+ * Days a member's meals were entered by hand (possibly by meal type) are kept as entered.
+ */
+export const saveSheetMealEntries = async (
+  groupId: mongoose.Types.ObjectId | string,
+  entries: SheetMealEntry[],
+  period: { from: string; to: string } | undefined
+): Promise<number> => {
+  const valid = (entries || []).filter(e =>
+    e && e.memberName && isSheetDay(e.date) && typeof e.meals === 'number' && !isNaN(e.meals)
+  );
+
+  if (!period) return 0;
+
+  const group = new mongoose.Types.ObjectId(groupId.toString());
+  await MealEntry.deleteMany({
+    groupId: group,
+    source: 'sheet',
+    date: { $gte: new Date(`${period.from}T00:00:00.000Z`), $lte: new Date(`${period.to}T00:00:00.000Z`) }
+  });
+
+  if (valid.length === 0) return 0;
+  const key = (memberName: string, date: Date) => `${memberName.toLowerCase()}|${date.getTime()}`;
+  const manual = await MealEntry.find({ groupId: group, source: 'manual' }).select('memberName date');
+  const manualDays = new Set(manual.map(m => key(m.memberName, m.date)));
+
+  const fromSheet = valid
+    .map(e => ({ memberName: e.memberName.trim(), date: new Date(`${e.date}T00:00:00.000Z`), meals: e.meals }))
+    .filter(e => !manualDays.has(key(e.memberName, e.date)));
+
+  if (fromSheet.length === 0) return 0;
+
+  await MealEntry.bulkWrite(fromSheet.map(e => ({
+    updateOne: {
+      filter: { groupId: group, memberName: e.memberName, date: e.date, source: 'sheet' as const },
+      update: { $set: { meals: e.meals } },
+      upsert: true
+    }
+  })));
+
+  return fromSheet.length;
+};
@@ -0,0 +1,8 @@
+// Escape a value so it matches literally inside a regular expression
+export const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Mongo filter matching a member name exactly, ignoring case. Names like
+ * "Ali (2)" or "A.B" are matched literally, not as patterns.
+ */
+export const exactNameFilter = (name: string) => ({ $regex: new RegExp(`^${escapeRegExp(String(name))}$`, 'i') });
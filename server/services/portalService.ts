@@ -0,0 +1,128 @@
+import mongoose from 'mongoose';
+import { IUser } from '../models/User.js';
+import Group from '../models/Group.js';
+import Member, { IMember } from '../models/Member.js';
+import MealEntry from '../models/MealEntry.js';
+import Deposit from '../models/Deposit.js';
+import GuestMeal from '../models/GuestMeal.js';
+import BillingCycle from '../models/BillingCycle.js';
+import { loadLedgerState } from './ledgerStateService.js';
+import { exactNameFilter } from './nameMatchService.js';
+import { hasLegacyData } from './groupService.js';
+import { calculateBalances } from '../../services/balanceService.js';
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export interface GroupRole {
+  groupId: string;
+  role: 'manager' | 'member';
+}
+
+/**
+ * Member records matching the user's email, one per mess they belong to
+ */
+export const findMemberships = async (user: IUser): Promise<IMember[]> => {
+  return Member.find({ email: user.email.toLowerCase() }).sort({ createdAt: 1 });
+};
+
+/**
+ * The user's role in each mess: manager of the groups they own, member of
+ * any other group whose roster lists their email.
+ */
+export const resolveGroupRoles = async (user: IUser): Promise<GroupRole[]> => {
+  const [owned, memberships] = await Promise.all([
+    Group.find({ ownerId: user._id }).select('_id').sort({ createdAt: 1 }),
+    findMemberships(user)
+  ]);
+  const ownedIds = new Set(owned.map(g => g._id.toString()));
+
+  return [
+    ...owned.map(g => ({ groupId: g._id.toString(), role: 'manager' as const })),
+    ...memberships
+      .filter(m => !ownedIds.has(m.groupId.toString()))
+      .map(m => ({ groupId: m.groupId.toString(), role: 'member' as const }))
+  ];
+};
+
+/**
+ * Which app the user opens after signing in, from their per-group roles.
+ * Only a user who is a member everywhere they're listed, and never managed
+ * a mess, gets the read-only portal; they can still start a group of their
+ * own. A manager is never downgraded because another mess lists them.
+ */
+export const resolveUserRole = async (user: IUser): Promise<'manager' | 'member'> => {
+  if (user.role === 'manager' && !user.isNew) return 'manager';
+  if (await hasLegacyData(user)) return 'manager';
+
+  const roles = await resolveGroupRoles(user);
+  return roles.length > 0 && roles.every(r => r.role === 'member') ? 'member' : 'manager';
+};
+
+/**
+ * Build a member's own statement: current balance, meals, deposits and
+ * hosted guest meals of the open cycle, and closing balances of past cycles.
+ */
+export const buildMemberStatement = async (member: IMember) => {
+  const groupId = member.groupId as mongoose.Types.ObjectId;
+  const group = await Group.findById(groupId);
+  if (!group) {
+    throw new Error('Group not found');
+  }
+
+  const { people, sheetMealRate, totalCost, cycle } = await loadLedgerState(group);
+  const { balances, mealRate } = calculateBalances(people, { sheetMealRate, totalCost });
+  const balance = balances.find(b => sameName(b.name, member.sheetName)) || null;
+
+  const nameFilter = exactNameFilter(member.sheetName);
+  const dateFilter = cycle ? { date: { $gte: cycle.startDate } } : {};
+
+  const [meals, deposits, guestMeals, closedCycles] = await Promise.all([
+    MealEntry.find({ groupId, memberName: nameFilter, ...dateFilter }).sort({ date: 1 }),
+    Deposit.find({ groupId, memberName: nameFilter, ...dateFilter }).sort({ date: -1 }),
+    GuestMeal.find({ groupId, hostName: nameFilter, ...dateFilter }).sort({ date: -1 }),
+    BillingCycle.find({ groupId, status: 'closed' }).sort({ startDate: -1 })
+  ]);
+
+  const history = closedCycles
+    .map(c => {
+      const closing = c.closingBalances.find(b => sameName(b.memberName, member.sheetName));
+      return closing ? {
+        label: c.label,
+        mealRate: c.mealRate ?? null,
+        meals: closing.meals,
+        contribution: closing.contribution,
+        cost: closing.cost,
+        balance: closing.balance
+      } : null;
+    })
+    .filter(Boolean);
+
+  return {
+    groupName: group.name,
+    money: { currency: group.currency, locale: group.locale },
+    memberName: member.sheetName,
+    cycleLabel: cycle?.label || null,
+    mealRate,
+    balance,
+    meals: meals.map(e => ({
+      date: e.date.toISOString().slice(0, 10),
+      meals: e.meals
+    })),
+    deposits: deposits.map(d => ({
+      id: d._id,
+      amount: d.amount,
+      date: d.date,
+      method: d.method,
+      note: d.note || undefined
+    })),
+    guestMeals: guestMeals.map(g => ({
+      id: g._id,
+      guestName: g.guestName || undefined,
+      date: g.date,
+      meals: g.meals,
+      multiplier: g.multiplier,
+      cost: g.meals * g.multiplier * mealRate
+    })),
+    history
+  };
+};
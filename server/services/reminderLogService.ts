@@ -0,0 +1,56 @@
+import mongoose from 'mongoose';
+import ReminderLog from '../models/ReminderLog.js';
+import { exactNameFilter } from './nameMatchService.js';
+
+export interface SentReminder {
+  memberName: string;
+  email: string;
+  message: string;
+  amountOwed?: number;
+  trigger: 'manual' | 'scheduled';
+}
+
+/**
+ * Record a reminder that was sent, so a later payment can resolve it
+ */
+export const logReminder = async (groupId: mongoose.Types.ObjectId | string, reminder: SentReminder) => {
+  try {
+    await ReminderLog.create({
+      groupId,
+      memberName: reminder.memberName,
+      email: reminder.email,
+      message: reminder.message,
+      amountOwed: reminder.amountOwed || 0,
+      trigger: reminder.trigger
+    });
+  } catch (error) {
+    // Never fail a send because the log couldn't be written
+    console.error('Error logging reminder:', error);
+  }
+};
+
+/**
+ * Mark every open reminder of a member as resolved by a payment.
+ * Returns how many reminders were resolved.
+ */
+export const resolveOpenReminders = async (
+  groupId: mongoose.Types.ObjectId | string,
+  memberName: string,
+  paymentId: mongoose.Types.ObjectId | string
+): Promise<number> => {
+  const result = await ReminderLog.updateMany(
+    { groupId, memberName: exactNameFilter(memberName), status: 'open' },
+    { $set: { status: 'resolved', resolvedAt: new Date(), paymentId } }
+  );
+  return result.modifiedCount;
+};
+
+/**
+ * Reopen the reminders a (deleted) payment had resolved
+ */
+export const reopenReminders = async (paymentId: mongoose.Types.ObjectId | string) => {
+  await ReminderLog.updateMany(
+    { paymentId },
+    { $set: { status: 'open', resolvedAt: null, paymentId: null } }
+  );
+};
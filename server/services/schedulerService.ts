@@ -1,15 +1,41 @@
 import cron from 'node-cron';
-import User from '../models/User.js';
+import Group from '../models/Group.js';
 import Member from '../models/Member.js';
 import { emailService } from '../../services/emailService.js';
 import { generateReminders } from '../../services/geminiService.js';
-import { google } from 'googleapis';
+import { calculateBalances } from '../../services/balanceService.js';
+import { loadLedgerState, loadCycleForecast } from './ledgerStateService.js';
+import { saveSheetMealEntries } from './mealLogService.js';
+import { saveSheetDeposits } from './depositService.js';
+import { migrateLegacyUsers } from './groupService.js';
+import { logReminder } from './reminderLogService.js';
+import { recordBalanceSnapshot } from './snapshotService.js';
+import { recordAudit } from './auditService.js';
+import { recordSyncedVersion } from './syncVersionService.js';
+import { formatMoney } from '../../services/currencyService.js';
+import { diffSync, DEFAULT_SYNC_LIMITS } from '../../services/syncDiffService.js';
+import { sheetPeriod } from '../../services/sheetParser.js';
+import { hasSheetSource, describeSheetSource, readGroupSheet } from './sheetSourceService.js';
+import { exactNameFilter } from './nameMatchService.js';
 import dotenv from 'dotenv';
 
 dotenv.config();
 
+// Bangladesh Standard Time (UTC+6)
+const SCHEDULE_TIMEZONE = 'Asia/Dhaka';
+
+// Minutes past midnight of an "HH:MM" time
+const minuteOfDay = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+// "HH:MM" of a moment in the schedule's time zone
+const scheduleClock = (date: Date) =>
+  new Intl.DateTimeFormat('en-GB', { timeZone: SCHEDULE_TIMEZONE, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).format(date);
+
 interface ScheduledJob {
-  userId: string;
+  groupId: string;
   task: cron.ScheduledTask;
   type: 'notification' | 'sync'; // Type of scheduled job
 }
@@ -18,35 +44,35 @@ class SchedulerService {
   private jobs: Map<string, ScheduledJob> = new Map();
 
   /**
-   * Initialize schedulers for all users who have auto features enabled
+   * Initialize schedulers for all groups that have auto features enabled
    */
   async initializeAllSchedulers() {
     console.log('🕐 Initializing notification and sync schedulers...');
     
     try {
+      // Make sure pre-group accounts have a group to schedule against
+      await migrateLegacyUsers();
+
       // Initialize notification schedulers
-      const notificationUsers = await User.find({
+      const notificationGroups = await Group.find({
         'notificationConfig.isEnabled': true,
         'notificationConfig.autoSend': true,
         'notificationConfig.emailEnabled': true
       });
 
-      console.log(`📋 Found ${notificationUsers.length} users with auto-send enabled`);
+      console.log(`📋 Found ${notificationGroups.length} groups with auto-send enabled`);
 
-      for (const user of notificationUsers) {
-        await this.startNotificationScheduler(user._id.toString());
+      for (const group of notificationGroups) {
+        await this.startNotificationScheduler(group._id.toString());
       }
 
       // Initialize sync schedulers
-      const syncUsers = await User.find({
-        autoSyncEnabled: true,
-        csvUrl: { $exists: true, $ne: null }
-      });
+      const syncGroups = (await Group.find({ autoSyncEnabled: true })).filter(hasSheetSource);
 
-      console.log(`📋 Found ${syncUsers.length} users with auto-sync enabled`);
+      console.log(`📋 Found ${syncGroups.length} groups with auto-sync enabled`);
 
-      for (const user of syncUsers) {
-        await this.startSyncScheduler(user._id.toString());
+      for (const group of syncGroups) {
+        await this.startSyncScheduler(group._id.toString());
       }
     } catch (error) {
       console.error('❌ Error initializing schedulers:', error);
@@ -54,24 +80,24 @@ class SchedulerService {
   }
 
   /**
-   * Start or restart notification scheduler for a specific user
+   * Start or restart notification scheduler for a specific group
    */
-  async startNotificationScheduler(userId: string) {
+  async startNotificationScheduler(groupId: string) {
     try {
       // Stop existing notification job if any
-      this.stopScheduler(userId, 'notification');
+      this.stopScheduler(groupId, 'notification');
 
-      const user = await User.findById(userId);
-      if (!user || !user.notificationConfig) {
-        console.warn(`⚠️ User ${userId} not found or no notification config`);
+      const group = await Group.findById(groupId);
+      if (!group || !group.notificationConfig) {
+        console.warn(`⚠️ Group ${groupId} not found or no notification config`);
         return;
       }
 
-      const { scheduledTime, isEnabled, autoSend, emailEnabled, threshold, tone } = user.notificationConfig;
+      const { scheduledTime, isEnabled, autoSend, emailEnabled, threshold, tone } = group.notificationConfig;
 
       // Only start if all conditions are met
       if (!isEnabled || !autoSend || !emailEnabled) {
-        console.log(`⏸️ Notification scheduler conditions not met for user ${user.email}`);
+        console.log(`⏸️ Notification scheduler conditions not met for group ${group.name}`);
         return;
       }
 
@@ -81,45 +107,45 @@ class SchedulerService {
       // Create cron expression: "minute hour * * *" (daily at specified time)
       const cronExpression = `${minutes} ${hours} * * *`;
 
-      console.log(`⏰ Setting up notification scheduler for ${user.email} at ${scheduledTime} (cron: ${cronExpression})`);
+      console.log(`⏰ Setting up notification scheduler for ${group.name} at ${scheduledTime} (cron: ${cronExpression})`);
 
       // Create scheduled task
       const task = cron.schedule(cronExpression, async () => {
-        console.log(`\n🔔 Running scheduled notification task for ${user.email} at ${new Date().toLocaleString()}`);
-        await this.runNotificationTask(userId);
+        console.log(`\n🔔 Running scheduled notification task for ${group.name} at ${new Date().toLocaleString()}`);
+        await this.runNotificationTask(groupId);
       }, {
         scheduled: true,
-        timezone: 'Asia/Dhaka' // Bangladesh Standard Time (UTC+6)
+        timezone: SCHEDULE_TIMEZONE
       });
 
       // Store the job
-      this.jobs.set(`${userId}-notification`, { userId, task, type: 'notification' });
+      this.jobs.set(`${groupId}-notification`, { groupId, task, type: 'notification' });
 
-      console.log(`✅ Notification scheduler started for user ${user.email} - Will run daily at ${scheduledTime}`);
+      console.log(`✅ Notification scheduler started for group ${group.name} - Will run daily at ${scheduledTime}`);
     } catch (error) {
-      console.error(`❌ Error starting notification scheduler for user ${userId}:`, error);
+      console.error(`❌ Error starting notification scheduler for group ${groupId}:`, error);
     }
   }
 
   /**
-   * Start or restart sync scheduler for a specific user
+   * Start or restart sync scheduler for a specific group
    */
-  async startSyncScheduler(userId: string) {
+  async startSyncScheduler(groupId: string) {
     try {
       // Stop existing sync job if any
-      this.stopScheduler(userId, 'sync');
+      this.stopScheduler(groupId, 'sync');
 
-      const user = await User.findById(userId);
-      if (!user) {
-        console.warn(`⚠️ User ${userId} not found`);
+      const group = await Group.findById(groupId);
+      if (!group) {
+        console.warn(`⚠️ Group ${groupId} not found`);
         return;
       }
 
-      const { autoSyncEnabled, autoSyncTime, csvUrl } = user;
+      const { autoSyncEnabled, autoSyncTime } = group;
 
-      // Only start if enabled and CSV URL is configured
-      if (!autoSyncEnabled || !csvUrl) {
-        console.log(`⏸️ Sync scheduler conditions not met for user ${user.email}`);
+      // Only start if enabled and a CSV URL or spreadsheet is configured
+      if (!autoSyncEnabled || !hasSheetSource(group)) {
+        console.log(`⏸️ Sync scheduler conditions not met for group ${group.name}`);
         return;
       }
 
@@ -129,110 +155,96 @@ class SchedulerService {
       // Create cron expression: "minute hour * * *" (daily at specified time)
       const cronExpression = `${minutes} ${hours} * * *`;
 
-      console.log(`⏰ Setting up sync scheduler for ${user.email} at ${autoSyncTime} (cron: ${cronExpression})`);
+      console.log(`⏰ Setting up sync scheduler for ${group.name} at ${autoSyncTime} (cron: ${cronExpression})`);
 
       // Create scheduled task
       const task = cron.schedule(cronExpression, async () => {
-        console.log(`\n🔄 Running scheduled sync task for ${user.email} at ${new Date().toLocaleString()}`);
-        await this.runSyncTask(userId);
+        console.log(`\n🔄 Running scheduled sync task for ${group.name} at ${new Date().toLocaleString()}`);
+        await this.runSyncTask(groupId);
       }, {
         scheduled: true,
-        timezone: 'Asia/Dhaka' // Bangladesh Standard Time (UTC+6)
+        timezone: SCHEDULE_TIMEZONE
       });
 
       // Store the job
-      this.jobs.set(`${userId}-sync`, { userId, task, type: 'sync' });
+      this.jobs.set(`${groupId}-sync`, { groupId, task, type: 'sync' });
 
-      console.log(`✅ Sync scheduler started for user ${user.email} - Will run daily at ${autoSyncTime}`);
+      console.log(`✅ Sync scheduler started for group ${group.name} - Will run daily at ${autoSyncTime}`);
     } catch (error) {
-      console.error(`❌ Error starting sync scheduler for user ${userId}:`, error);
+      console.error(`❌ Error starting sync scheduler for group ${groupId}:`, error);
     }
   }
 
   /**
-   * Stop scheduler for a specific user and type
+   * Stop scheduler for a specific group and type
    */
-  stopScheduler(userId: string, type: 'notification' | 'sync') {
-    const jobKey = `${userId}-${type}`;
+  stopScheduler(groupId: string, type: 'notification' | 'sync') {
+    const jobKey = `${groupId}-${type}`;
     const job = this.jobs.get(jobKey);
     if (job) {
       job.task.stop();
       this.jobs.delete(jobKey);
-      console.log(`⏹️ ${type} scheduler stopped for user ${userId}`);
+      console.log(`⏹️ ${type} scheduler stopped for group ${groupId}`);
     }
   }
 
   /**
-   * Stop all schedulers for a user
+   * Stop all schedulers for a group
    */
-  stopAllSchedulersForUser(userId: string) {
-    this.stopScheduler(userId, 'notification');
-    this.stopScheduler(userId, 'sync');
+  stopAllSchedulersForGroup(groupId: string) {
+    this.stopScheduler(groupId, 'notification');
+    this.stopScheduler(groupId, 'sync');
   }
 
   /**
    * Execute the scheduled notification task
    */
-  private async runNotificationTask(userId: string) {
+  private async runNotificationTask(groupId: string) {
     try {
-      const user = await User.findById(userId);
-      if (!user) {
-        console.error(`❌ User ${userId} not found`);
+      const group = await Group.findById(groupId);
+      if (!group) {
+        console.error(`❌ Group ${groupId} not found`);
         return;
       }
 
-      const config = user.notificationConfig;
+      const config = group.notificationConfig;
       if (!config) {
-        console.error(`❌ No notification config for user ${user.email}`);
+        console.error(`❌ No notification config for group ${group.name}`);
         return;
       }
 
-      console.log(`📊 Fetching balances for ${user.email}...`);
+      console.log(`📊 Fetching balances for ${group.name}...`);
 
-      // Use synced data from database (should have been synced by sync scheduler)
-      const syncedPeople = user.syncedPeople || [];
+      // Use synced data from database (should have been synced by sync scheduler),
+      // with deposits and the open billing cycle applied exactly like the dashboard
+      const { people, sheetMealRate, totalCost } = await loadLedgerState(group);
       
-      if (syncedPeople.length === 0) {
-        console.warn(`⚠️ No synced data found for ${user.email}. Run sync first.`);
+      if (people.length === 0) {
+        console.warn(`⚠️ No synced data found for ${group.name}. Run sync first.`);
         return;
       }
 
-      console.log(`✅ Found ${syncedPeople.length} people in synced data`);
+      console.log(`✅ Found ${people.length} people in synced data`);
 
-      // Calculate balances from synced people data
-      const totalContribution = syncedPeople.reduce((sum: number, p: any) => sum + (p.contribution || 0), 0);
-      const totalMeals = syncedPeople.reduce((sum: number, p: any) => sum + (p.meals || 0), 0);
-      
-      // Use sheet meal rate if available, otherwise calculate
-      const mealRate = user.sheetMealRate && user.sheetMealRate > 0 
-        ? user.sheetMealRate 
-        : (totalMeals > 0 ? totalContribution / totalMeals : 50);
-
-      console.log(`💰 Meal rate: $${mealRate.toFixed(2)}`);
-
-      // Build balances array for AI reminder generation
-      const balances = syncedPeople.map((person: any) => {
-        const cost = person.meals * mealRate;
-        const balance = person.contribution - cost;
-        
-        return {
-          personId: person.id,
-          name: person.name,
-          meals: person.meals,
-          contribution: person.contribution,
-          cost,
-          balance,
-          status: balance > 1 ? 'OWED' : balance < -1 ? 'OWES' : 'SETTLED'
-        };
-      });
+      // Calculate balances (sheet meal rate if available, otherwise calculated)
+      const { balances, mealRate } = calculateBalances(people, { sheetMealRate, totalCost });
+
+      const money = { currency: group.currency, locale: group.locale };
+      console.log(`💰 Meal rate: ${formatMoney(mealRate, money)}`);
+
+      // Projected end-of-cycle balances let the reminders warn about where members are heading
+      const forecast = await loadCycleForecast(group);
 
       // Generate AI reminders
-      console.log(`🤖 Generating reminders with threshold: $${config.threshold}, tone: ${config.tone}`);
+      console.log(`🤖 Generating reminders with threshold: ${formatMoney(config.threshold || 100, money)}, tone: ${config.tone}`);
       const reminders = await generateReminders(
         balances,
         config.tone || 'friendly',
         mealRate,
-        config.threshold || 100
+        config.threshold || 100,
+        group.mealTypes,
+        money,
+        forecast
       );
 
       console.log(`📝 Generated ${reminders.length} reminders`);
@@ -252,8 +264,8 @@ class SchedulerService {
           let recipientEmail = '';
           
           const member = await Member.findOne({ 
-            userId: user._id,
-            sheetName: { $regex: new RegExp(`^${reminder.name}$`, 'i') }
+            groupId: group._id,
+            sheetName: exactNameFilter(reminder.name)
           });
 
           if (member && member.email) {
@@ -270,12 +282,20 @@ class SchedulerService {
             recipientEmail,
             reminder.name || 'Member',
             reminder.message || 'Please check your balance',
-            reminder.amountOwed || 0
+            reminder.amountOwed || 0,
+            money
           );
 
           if (success) {
             sent++;
             console.log(`✅ Email sent to ${reminder.name}`);
+            await logReminder(group._id as any, {
+              memberName: reminder.name || 'Member',
+              email: recipientEmail,
+              message: reminder.message || '',
+              amountOwed: reminder.amountOwed,
+              trigger: 'scheduled'
+            });
           } else {
             failed++;
             console.error(`❌ Failed to send email to ${reminder.name}`);
@@ -289,243 +309,153 @@ class SchedulerService {
         }
       }
 
-      console.log(`\n📊 Scheduled task complete for ${user.email}:`);
+      console.log(`\n📊 Scheduled task complete for ${group.name}:`);
       console.log(`   ✅ Sent: ${sent}`);
       console.log(`   ❌ Failed: ${failed}`);
       console.log(`   📋 Total: ${reminders.length}\n`);
 
     } catch (error) {
-      console.error(`❌ Error running scheduled task for user ${userId}:`, error);
+      console.error(`❌ Error running scheduled task for group ${groupId}:`, error);
     }
   }
 
   /**
    * Execute the scheduled sync task
    */
-  private async runSyncTask(userId: string) {
+  private async runSyncTask(groupId: string) {
     try {
-      const user = await User.findById(userId);
-      if (!user) {
-        console.error(`❌ User ${userId} not found`);
+      const group = await Group.findById(groupId);
+      if (!group) {
+        console.error(`❌ Group ${groupId} not found`);
         return;
       }
 
-      if (!user.csvUrl) {
-        console.error(`❌ No CSV URL configured for user ${user.email}`);
+      if (!hasSheetSource(group)) {
+        console.error(`❌ No sheet source configured for group ${group.name}`);
         return;
       }
 
-      console.log(`🔄 Fetching data from Google Sheets for ${user.email}...`);
-      console.log(`📋 CSV URL: ${user.csvUrl}`);
+      console.log(`🔄 Fetching data from Google Sheets for ${group.name}...`);
+      console.log(`📋 Source: ${describeSheetSource(group)}`);
 
-      // Fetch data from the configured CSV URL
-      const response = await fetch(user.csvUrl);
-      if (!response.ok) {
-        throw new Error(`Failed to fetch CSV: ${response.statusText}`);
-      }
-
-      const csvText = await response.text();
-      
-      // Use the same CSV parsing logic as the frontend
-      const { people, extractedRate } = this.parseCSV(csvText);
+      // Same parser as the dashboard sync
+      const { people, extractedRate, mealEntries, deposits, diagnostics } = await readGroupSheet(group);
 
       if (people.length === 0) {
-        console.warn(`⚠️ No people found in CSV for ${user.email}`);
+        console.warn(`⚠️ No people found in the sheet for ${group.name}`);
+        console.warn(`   Parser read ${diagnostics.rowCount} rows (strategy: ${diagnostics.strategy}, saved layout ${diagnostics.layoutUsed ? 'used' : 'not used'})`);
+        diagnostics.skippedRows.forEach(skipped => console.warn(`   Skipped row ${skipped.row}: ${skipped.reason}`));
         return;
       }
 
-      // Save synced data to user
-      user.syncedPeople = people;
-      user.sheetMealRate = extractedRate || null;
-      user.lastFetchTime = new Date();
-      await user.save();
-
-      console.log(`✅ Auto-sync complete for ${user.email}:`);
-      console.log(`   📊 People synced: ${people.length}`);
-      console.log(`   💰 Meal rate: $${extractedRate || 'N/A'}`);
-      console.log(`   ⏰ Last sync: ${user.lastFetchTime.toLocaleString()}\n`);
-
-    } catch (error) {
-      console.error(`❌ Error running sync task for user ${userId}:`, error);
-    }
-  }
-
-  /**
-   * Parse CSV using the same logic as the frontend
-   */
-  private parseCSV(csvText: string): { people: any[]; extractedRate?: number } {
-    const lines = csvText.split(/\r?\n/);
-    if (lines.length < 2) return { people: [] };
-
-    let extractedRate: number | undefined;
-    const mealCounts = new Map<string, number>();
-    let gridHeaderRowIndex = -1;
-    const columnToNameMap = new Map<number, string>();
-
-    // PASS 1: Global Scan for Rate & Grid Structure
-    for (let r = 0; r < lines.length; r++) {
-      const rowRaw = lines[r];
-      const cells = rowRaw.split(/,(?=(?:(?:[^"]*"){2})*[^"]*$)/).map(c => c.replace(/^"|"$/g, '').trim());
-      const lowerCells = cells.map(c => c.toLowerCase());
-
-      // Find Mil Rate
-      const rateIdx = lowerCells.findIndex(c => c === 'mil rate' || c === 'meal rate' || c === 'rate');
-      if (rateIdx !== -1 && rateIdx + 1 < cells.length) {
-        const val = parseFloat(cells[rateIdx + 1]);
-        if (!isNaN(val) && val > 0) extractedRate = val;
-      }
+      // Check the data for anomalies and hold the sync for review if any are critical
+      const diff = diffSync(
+        { people: group.syncedPeople || [], sheetMealRate: group.sheetMealRate },
+        { people, sheetMealRate: extractedRate },
+        group.syncLimits || DEFAULT_SYNC_LIMITS,
+        { currency: group.currency, locale: group.locale }
+      );
 
-      // Identify Meal Grid Header
-      if (lowerCells[0] === 'date') {
-        let validNames = 0;
-        cells.forEach((cell, idx) => {
-          if (idx > 0 && cell && cell.toLowerCase() !== 'joma' && cell.toLowerCase() !== 'total' && cell.toLowerCase() !== 'tot / day') {
-            columnToNameMap.set(idx, cell);
-            validNames++;
-          }
+      if (diff.violations.length > 0) {
+        group.pendingSync = {
+          people,
+          sheetMealRate: extractedRate || null,
+          mealEntries,
+          deposits,
+          diff,
+          fetchedAt: new Date()
+        };
+        await group.save();
+        await recordAudit(group._id as any, null, {
+          action: 'sheet.data.hold',
+          after: { anomalies: diff.anomalies }
         });
-        
-        if (validNames > 1) {
-          gridHeaderRowIndex = r;
-        }
-      }
 
-      // Capture Totals from Grid
-      if (gridHeaderRowIndex !== -1 && r > gridHeaderRowIndex && lowerCells[0] === 'total') {
-        columnToNameMap.forEach((name, colIdx) => {
-          if (colIdx < cells.length) {
-            const val = parseFloat(cells[colIdx]);
-            if (!isNaN(val)) {
-              if (!mealCounts.has(name.toLowerCase())) {
-                mealCounts.set(name.toLowerCase(), val);
-              }
-            }
-          }
-        });
+        console.warn(`⏸️ Auto-sync held for review in ${group.name}:`);
+        diff.violations.forEach(v => console.warn(`   - ${v}`));
+        return;
       }
-    }
 
-    // PASS 2: Parse Summary Table & Merge
-    for (let r = 0; r < lines.length; r++) {
-      const rowRaw = lines[r];
-      const cells = rowRaw.split(/,(?=(?:(?:[^"]*"){2})*[^"]*$)/).map(c => c.replace(/^"|"$/g, '').trim());
-      const lowerCells = cells.map(c => c.toLowerCase());
-
-      const nameIdx = lowerCells.findIndex(c => c.includes('meal details') || c === 'name');
-      
-      if (nameIdx !== -1) {
-        const costIdx = lowerCells.findIndex((c, idx) => idx > nameIdx && (c === 'cost' || c.includes('total cost')));
-        const balanceIdx = lowerCells.findIndex((c, idx) => idx > nameIdx && (c.includes('available') || c.includes('balance')));
+      // The meal log and deposits go first, so a failure there leaves the group's data untouched
+      const period = sheetPeriod([...mealEntries, ...deposits].map(e => e.date));
+      const mealEntryCount = await saveSheetMealEntries(group._id as any, mealEntries, period);
+      const depositCount = await saveSheetDeposits(group._id as any, deposits, period);
+
+      // Save synced data to group
+      const before = { sheetMealRate: group.sheetMealRate || null, people: group.syncedPeople || [] };
+      group.syncedPeople = people;
+      group.sheetMealRate = extractedRate || undefined;
+      group.lastFetchTime = new Date();
+      group.syncedAt = group.lastFetchTime;
+      group.pendingSync = null; // A clean sync supersedes any held one
+      await group.save();
+      await recordAudit(group._id as any, null, {
+        action: 'sheet.data.sync',
+        before,
+        after: { sheetMealRate: group.sheetMealRate || null, people: group.syncedPeople }
+      });
+      await recordSyncedVersion(group, 'scheduled', {
+        people,
+        sheetMealRate: extractedRate,
+        mealEntries,
+        deposits,
+        anomalies: diff.anomalies
+      }, null);
+      await recordBalanceSnapshot(group, 'scheduled');
+
+      diff.anomalies.forEach(a => console.warn(`⚠️ Sync warning for ${group.name}: ${a.message}`));
+
+      console.log(`✅ Auto-sync complete for ${group.name}:`);
+      console.log(`   📊 People synced: ${people.length}`);
+      console.log(`   🍽️ Meal entries: ${mealEntryCount}`);
+      console.log(`   💵 Deposits: ${depositCount}`);
+      console.log(`   💰 Meal rate: ${extractedRate ? formatMoney(extractedRate, { currency: group.currency, locale: group.locale }) : 'N/A'}`);
+      console.log(`   ⏰ Last sync: ${group.lastFetchTime.toLocaleString()}\n`);
 
-        if (costIdx !== -1 && balanceIdx !== -1) {
-          const people: any[] = [];
-          
-          for (let i = r + 1; i < lines.length; i++) {
-            const dataRow = lines[i].split(/,(?=(?:(?:[^"]*"){2})*[^"]*$)/).map(c => c.replace(/^"|"$/g, '').trim());
-            if (dataRow.length <= Math.max(nameIdx, costIdx, balanceIdx)) break;
-
-            const name = dataRow[nameIdx];
-            if (!name || name.toLowerCase().includes('total') || name.toLowerCase() === 'check') break;
-
-            const costStr = dataRow[costIdx];
-            const balanceStr = dataRow[balanceIdx];
-
-            if (costStr === '' && balanceStr === '') break;
-
-            const cost = parseFloat(costStr) || 0;
-            const balance = parseFloat(balanceStr) || 0;
-
-            let meals = 0;
-            const gridMeals = mealCounts.get(name.toLowerCase());
-            
-            if (gridMeals !== undefined) {
-              meals = gridMeals;
-            } else if (extractedRate && extractedRate > 0) {
-              meals = parseFloat((cost / extractedRate).toFixed(2));
-            }
-
-            people.push({
-              id: `sheet-summary-${i}`,
-              name: name,
-              email: '',
-              meals: meals, 
-              contribution: cost + balance,
-              customBalance: balance
-            });
-          }
-          
-          if (people.length > 0) {
-            return { people, extractedRate };
-          }
-        }
-      }
+    } catch (error) {
+      console.error(`❌ Error running sync task for group ${groupId}:`, error);
     }
-
-    return { people: [] };
   }
 
   /**
-   * Fetch balances directly from Google Sheets (server-side)
+   * Run the notification and sync tasks of every group scheduled for this
+   * minute. Hosts that can't keep cron jobs alive between requests, like
+   * Netlify's scheduled function, call this once a minute instead.
    */
-  private async fetchBalancesFromSheet() {
-    try {
-      const auth = new google.auth.GoogleAuth({
-        credentials: JSON.parse(process.env.GOOGLE_SERVICE_ACCOUNT_KEY || '{}'),
-        scopes: ['https://www.googleapis.com/auth/spreadsheets.readonly'],
-      });
+  async runDueTasks(now: Date = new Date()) {
+    const current = minuteOfDay(scheduleClock(now));
 
-      const sheets = google.sheets({ version: 'v4', auth });
-      const spreadsheetId = process.env.GOOGLE_SHEET_ID;
+    const notificationGroups = (await Group.find({
+      'notificationConfig.isEnabled': true,
+      'notificationConfig.autoSend': true,
+      'notificationConfig.emailEnabled': true
+    })).filter(g => minuteOfDay(g.notificationConfig?.scheduledTime || '18:00') === current);
 
-      if (!spreadsheetId) {
-        throw new Error('GOOGLE_SHEET_ID not configured');
-      }
-
-      const response = await sheets.spreadsheets.values.get({
-        spreadsheetId,
-        range: 'Sheet1!A:Z',
-      });
+    const syncGroups = (await Group.find({ autoSyncEnabled: true }))
+      .filter(hasSheetSource)
+      .filter(g => minuteOfDay(g.autoSyncTime || '09:00') === current);
 
-      const rows = response.data.values || [];
-      if (rows.length < 2) {
-        return [];
-      }
+    console.log(`📋 ${notificationGroups.length} notification and ${syncGroups.length} sync tasks due at ${scheduleClock(now)}`);
 
-      const headers = rows[0];
-      const nameIndex = headers.findIndex((h: string) => h.toLowerCase() === 'name');
-      const balanceIndex = headers.findIndex((h: string) => h.toLowerCase() === 'balance');
-      const mealRateIndex = headers.findIndex((h: string) => h.toLowerCase().includes('meal') && h.toLowerCase().includes('rate'));
-
-      const balances = [];
-      for (let i = 1; i < rows.length; i++) {
-        const row = rows[i];
-        const name = row[nameIndex];
-        const balance = parseFloat(row[balanceIndex]) || 0;
-        const mealRate = parseFloat(row[mealRateIndex]) || 50;
-
-        if (name) {
-          balances.push({
-            personId: `person-${i}`,
-            name,
-            balance,
-            mealRate
-          });
-        }
-      }
+    for (const group of notificationGroups) {
+      console.log(`\n🔔 Running scheduled notification task for ${group.name} at ${now.toLocaleString()}`);
+      await this.runNotificationTask(group._id.toString());
+    }
 
-      return balances;
-    } catch (error) {
-      console.error('Error fetching from Google Sheets:', error);
-      return [];
+    for (const group of syncGroups) {
+      console.log(`\n🔄 Running scheduled sync task for ${group.name} at ${now.toLocaleString()}`);
+      await this.runSyncTask(group._id.toString());
     }
+
+    return { notifications: notificationGroups.length, syncs: syncGroups.length };
   }
 
   /**
    * Get status of all active schedulers
    */
   getSchedulerStatus() {
-    const status = Array.from(this.jobs.entries()).map(([userId, job]) => ({
-      userId,
+    const status = Array.from(this.jobs.entries()).map(([groupId, job]) => ({
+      groupId,
       isRunning: job.task.getStatus() !== 'stopped'
     }));
 
@@ -538,17 +468,17 @@ class SchedulerService {
   /**
    * Manually trigger a scheduled task (for testing)
    */
-  async triggerManualNotification(userId: string) {
-    console.log(`🔧 Manual notification trigger for user ${userId}`);
-    await this.runNotificationTask(userId);
+  async triggerManualNotification(groupId: string) {
+    console.log(`🔧 Manual notification trigger for group ${groupId}`);
+    await this.runNotificationTask(groupId);
   }
 
   /**
    * Manually trigger a sync task (for testing)
    */
-  async triggerManualSync(userId: string) {
-    console.log(`🔧 Manual sync trigger for user ${userId}`);
-    await this.runSyncTask(userId);
+  async triggerManualSync(groupId: string) {
+    console.log(`🔧 Manual sync trigger for group ${groupId}`);
+    await this.runSyncTask(groupId);
   }
 }
 
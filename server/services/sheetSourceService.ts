@@ -0,0 +1,79 @@
+import { IGroup } from '../models/Group.js';
+import User from '../models/User.js';
+import { fetchSheetsApiValues } from './sheetsApiService.js';
+import { parseSheetCSV, parseSheetRows, ParsedSheet } from '../../services/sheetParser.js';
+
+type SheetSourceFields = Pick<IGroup, 'sheetSource' | 'csvUrl' | 'sheetsApi'>;
+
+/**
+ * Whether the group has somewhere to sync from: a CSV link, or a
+ * spreadsheet ID when it reads through the Sheets API. Uploaded files
+ * can't be fetched again, so there is nothing to sync.
+ */
+export const hasSheetSource = (group: SheetSourceFields): boolean => {
+  if (group.sheetSource === 'upload') return false;
+  return group.sheetSource === 'api' ? !!group.sheetsApi?.spreadsheetId : !!group.csvUrl;
+};
+
+/**
+ * Whether balances come from the synced sheet rather than the native ledger,
+ * the same rule the dashboard uses: an uploaded file, a linked CSV, or a
+ * spreadsheet ID when the group reads through the Sheets API.
+ */
+export const isSheetDriven = (group: SheetSourceFields): boolean =>
+  group.sheetSource === 'upload' ||
+  (group.sheetSource === 'api' && !!group.sheetsApi?.spreadsheetId) ||
+  !!group.csvUrl;
+
+/**
+ * A short description of the group's source for logs.
+ */
+export const describeSheetSource = (group: SheetSourceFields): string => {
+  if (group.sheetSource === 'upload') return 'uploaded file';
+  return group.sheetSource === 'api'
+    ? `Sheets API ${group.sheetsApi?.spreadsheetId}${group.sheetsApi?.tab ? ` (${group.sheetsApi.tab})` : ''}`
+    : `CSV URL ${group.csvUrl}`;
+};
+
+/**
+ * The user's read-only Google Sheets grant, or null if they haven't given one.
+ */
+export const userSheetsToken = async (userId: unknown): Promise<string | null> => {
+  if (!userId) return null;
+  const user = await User.findById(userId).select('+sheetsRefreshToken');
+  return user?.sheetsRefreshToken || null;
+};
+
+/**
+ * The Sheets grant of the manager who linked the group's spreadsheet, which
+ * every read of it goes through.
+ */
+export const linkedSheetsToken = (group: SheetSourceFields): Promise<string | null> =>
+  userSheetsToken(group.sheetsApi?.linkedBy);
+
+/**
+ * Fetch the group's sheet from its configured source and parse it with the
+ * group's locale and saved layout.
+ */
+export const readGroupSheet = async (group: IGroup): Promise<ParsedSheet> => {
+  const options = { locale: group.locale, layout: group.sheetLayout };
+
+  if (group.sheetSource === 'upload') {
+    throw new Error('The group uses an uploaded file, which has nothing to fetch');
+  }
+
+  if (group.sheetSource === 'api') {
+    const values = await fetchSheetsApiValues(group.sheetsApi || { spreadsheetId: '' }, await linkedSheetsToken(group));
+    return parseSheetRows(values, options);
+  }
+
+  if (!group.csvUrl) {
+    throw new Error('No CSV URL configured');
+  }
+
+  const response = await fetch(group.csvUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch CSV: ${response.statusText}`);
+  }
+  return parseSheetCSV(await response.text(), options);
+};
@@ -0,0 +1,89 @@
+import { google, sheets_v4 } from 'googleapis';
+import type { SheetCell, SheetsApiSource } from '../../types.js';
+
+/**
+ * SHEETS API SERVICE
+ * Reads a group's sheet through the Google Sheets API with the Google account
+ * of the manager who linked it: the refresh token they granted read-only
+ * Sheets access with (see /auth/google/sheets). A sheet can only be read by
+ * groups whose manager can open it in Google. Cells come back typed:
+ * numbers as numbers, dates as the sheet shows them.
+ * Set GOOGLE_SHEETS_API_URL to point at a local stub of the API instead
+ * (no credentials are sent then); see test-sheets-api.ts.
+ */
+
+export const SHEETS_SCOPE = 'https://www.googleapis.com/auth/spreadsheets.readonly';
+
+const SPREADSHEET_ID_PATTERN = /^[a-zA-Z0-9-_]{10,}$/;
+const SPREADSHEET_URL_PATTERN = /\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/;
+const RANGE_PATTERN = /^[A-Z]{0,3}\d*(:[A-Z]{0,3}\d*)?$/i;
+
+// `refreshToken` is the Google account's offline grant; the client refreshes access tokens itself
+const getClient = (refreshToken: string | null | undefined): sheets_v4.Sheets => {
+  const rootUrl = process.env.GOOGLE_SHEETS_API_URL;
+  if (rootUrl) return google.sheets({ version: 'v4', rootUrl });
+
+  if (!refreshToken) {
+    throw new Error('No Google account with Sheets access is linked to this sheet');
+  }
+  const auth = new google.auth.OAuth2(process.env.GOOGLE_CLIENT_ID, process.env.GOOGLE_CLIENT_SECRET);
+  auth.setCredentials({ refresh_token: refreshToken });
+  return google.sheets({ version: 'v4', auth });
+};
+
+/**
+ * Spreadsheet ID from either the bare ID or the sheet's browser URL.
+ */
+export const parseSpreadsheetId = (value: string): string | undefined => {
+  const trimmed = value.trim();
+  const fromUrl = trimmed.match(SPREADSHEET_URL_PATTERN);
+  const id = fromUrl ? fromUrl[1] : trimmed;
+  return SPREADSHEET_ID_PATTERN.test(id) ? id : undefined;
+};
+
+export const isValidSheetsApiRange = (range: string) => range === '' || RANGE_PATTERN.test(range);
+
+/**
+ * A1 notation for the source, e.g. "'March Meals'!A1:Z200". Without a tab
+ * the API reads the first tab.
+ */
+export const sheetsApiRange = (source: SheetsApiSource): string => {
+  const range = source.range?.trim() || '';
+  const tab = source.tab?.trim();
+  if (!tab) return range || 'A:ZZ';
+  const quotedTab = `'${tab.replace(/'/g, "''")}'`;
+  return range ? `${quotedTab}!${range}` : quotedTab;
+};
+
+/**
+ * Whether the Google account can open the spreadsheet.
+ */
+export const canReadSpreadsheet = async (spreadsheetId: string, refreshToken: string | null | undefined): Promise<boolean> => {
+  try {
+    await getClient(refreshToken).spreadsheets.get({ spreadsheetId, fields: 'spreadsheetId' });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Typed cell values of the source's range, row by row, read as the Google account.
+ */
+export const fetchSheetsApiValues = async (
+  source: SheetsApiSource,
+  refreshToken: string | null | undefined
+): Promise<SheetCell[][]> => {
+  if (!source.spreadsheetId) {
+    throw new Error('No spreadsheet ID configured');
+  }
+
+  const response = await getClient(refreshToken).spreadsheets.values.get({
+    spreadsheetId: source.spreadsheetId,
+    range: sheetsApiRange(source),
+    valueRenderOption: 'UNFORMATTED_VALUE',
+    dateTimeRenderOption: 'FORMATTED_STRING'
+  });
+
+  return (response.data.values || []) as SheetCell[][];
+};
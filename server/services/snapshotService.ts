@@ -0,0 +1,40 @@
+import { IGroup } from '../models/Group.js';
+import BalanceSnapshot, { IBalanceSnapshot } from '../models/BalanceSnapshot.js';
+import type { SyncedDataSource } from '../models/SyncedDataVersion.js';
+import { loadLedgerState } from './ledgerStateService.js';
+import { calculateBalances } from '../../services/balanceService.js';
+
+/**
+ * Store an immutable snapshot of every member's balance right after a sync.
+ * Returns null (and logs) on failure so a sync never fails because of it.
+ */
+export const recordBalanceSnapshot = async (
+  group: IGroup,
+  source: SyncedDataSource
+): Promise<IBalanceSnapshot | null> => {
+  try {
+    const { people, sheetMealRate, totalCost } = await loadLedgerState(group);
+    const { balances, mealRate, totalCost: cost, totalMeals } = calculateBalances(people, { sheetMealRate, totalCost });
+
+    const snapshot = await BalanceSnapshot.create({
+      groupId: group._id,
+      source,
+      mealRate,
+      totalCost: cost,
+      totalMeals,
+      people: balances.map(b => ({
+        name: b.name,
+        meals: b.meals,
+        contribution: b.contribution,
+        cost: b.cost,
+        balance: b.balance
+      }))
+    });
+
+    console.log(`📸 Balance snapshot stored for group ${group.name} (${balances.length} people)`);
+    return snapshot;
+  } catch (error) {
+    console.error('Error storing balance snapshot:', error);
+    return null;
+  }
+};
@@ -0,0 +1,56 @@
+import mongoose from 'mongoose';
+import { IGroup } from '../models/Group.js';
+import SyncedDataVersion, { ISyncedDataVersion, SyncedDataSource } from '../models/SyncedDataVersion.js';
+import { AuditActor } from './auditService.js';
+import type { SyncAnomaly } from '../../types.js';
+
+const MAX_VERSIONS = 50; // Older versions are pruned so the collection stays small
+
+export interface SyncedData {
+  people?: any[];
+  sheetMealRate?: number | null;
+  mealEntries?: any[];
+  deposits?: any[];
+  anomalies?: SyncAnomaly[];
+}
+
+/**
+ * Keep a copy of the synced data just stored on the group so it can be
+ * restored after a bad sync. Returns null (and logs) on failure so a sync
+ * never fails because of it.
+ */
+export const recordSyncedVersion = async (
+  group: IGroup,
+  source: SyncedDataSource,
+  data: SyncedData,
+  actor: AuditActor | null,
+  restoredFrom?: mongoose.Types.ObjectId | string
+): Promise<ISyncedDataVersion | null> => {
+  try {
+    const version = new SyncedDataVersion({
+      groupId: group._id,
+      source,
+      actorEmail: actor?.email || 'scheduler',
+      people: data.people || [],
+      sheetMealRate: data.sheetMealRate || null,
+      mealEntries: data.mealEntries || [],
+      deposits: data.deposits || [],
+      anomalies: data.anomalies || [],
+      restoredFrom: restoredFrom || null
+    });
+    await version.save();
+
+    const stale = await SyncedDataVersion.find({ groupId: group._id })
+      .sort({ createdAt: -1 })
+      .skip(MAX_VERSIONS)
+      .select('_id');
+    if (stale.length > 0) {
+      await SyncedDataVersion.deleteMany({ _id: { $in: stale.map(v => v._id) } });
+    }
+
+    return version;
+  } catch (error) {
+    console.error('Error storing synced data version:', error);
+    return null;
+  }
+};
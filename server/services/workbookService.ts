@@ -0,0 +1,61 @@
+import path from 'path';
+import XLSX from 'xlsx';
+import { parseCSVRows } from '../../services/csvReader.js';
+import type { SheetCell, WorkbookTab } from '../../types.js';
+
+/**
+ * WORKBOOK SERVICE
+ * Reads an uploaded .xlsx, .ods or .csv file into tabs of typed cells, the
+ * same shape the Sheets API returns, for the shared sheet parser.
+ */
+
+export const UPLOAD_EXTENSIONS = ['.xlsx', '.ods', '.csv'];
+export const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+
+// A stray format applied to a whole column can stretch a tab's range to a million rows
+const MAX_ROWS = 5000;
+const MAX_COLUMNS = 200;
+
+export const isSupportedUpload = (fileName: string) =>
+  UPLOAD_EXTENSIONS.includes(path.extname(fileName).toLowerCase());
+
+// Numbers stay numbers; date cells become YYYY-MM-DD text so they don't depend on the server's time zone
+const cellValue = (cell: XLSX.CellObject | undefined): SheetCell => {
+  if (!cell || cell.v === undefined || cell.t === 'e' || cell.t === 'z') return null;
+  if (cell.t === 'n' && typeof cell.z === 'string' && XLSX.SSF.is_date(cell.z)) {
+    return XLSX.SSF.format('yyyy-mm-dd', cell.v);
+  }
+  if (cell.v instanceof Date) return cell.v.toISOString().slice(0, 10);
+  return cell.v as SheetCell;
+};
+
+// Rows always start at A1, so row numbers match the ones in the spreadsheet app
+const tabCells = (sheet: XLSX.WorkSheet): SheetCell[][] => {
+  if (!sheet['!ref']) return [];
+  const range = XLSX.utils.decode_range(sheet['!ref']);
+  const lastRow = Math.min(range.e.r, MAX_ROWS - 1);
+  const lastColumn = Math.min(range.e.c, MAX_COLUMNS - 1);
+
+  const rows: SheetCell[][] = [];
+  for (let r = 0; r <= lastRow; r++) {
+    const row: SheetCell[] = [];
+    for (let c = 0; c <= lastColumn; c++) {
+      row.push(cellValue(sheet[XLSX.utils.encode_cell({ r, c })]));
+    }
+    rows.push(row);
+  }
+  return rows;
+};
+
+/**
+ * Every tab of the file, in workbook order. CSV files are one tab, read with
+ * our own CSV reader so number cells keep the group's decimal separator.
+ */
+export const readWorkbook = (data: Buffer, fileName: string): WorkbookTab[] => {
+  if (path.extname(fileName).toLowerCase() === '.csv') {
+    return [{ name: path.basename(fileName, path.extname(fileName)), values: parseCSVRows(data.toString('utf8')) }];
+  }
+
+  const workbook = XLSX.read(data, { type: 'buffer', cellNF: true });
+  return workbook.SheetNames.map(name => ({ name, values: tabCells(workbook.Sheets[name]) }));
+};
@@ -0,0 +1,125 @@
+import type { MoneySettings, Person, SyncAnomaly, SyncLimits, SyncMemberChange } from '../types.js';
+import { calculateBalances } from './balanceService.js';
+import { formatMoney, DEFAULT_MONEY_SETTINGS } from './currencyService.js';
+
+/**
+ * ANOMALY SERVICE
+ * Flags suspicious sheet data before it drives balances and reminder emails.
+ * checkSheetData looks at one parse on its own (used by both sheet parsers);
+ * checkSyncChanges compares it with the data synced last time.
+ * Amounts in the messages are shown in the group's currency.
+ */
+
+export interface SyncChanges {
+  removed: string[];
+  changed: SyncMemberChange[];
+  rateBefore: number;
+  rateAfter: number;
+}
+
+const RECONCILE_TOLERANCE = 0.01; // Totals may be off by 1% (rounding in the sheet)
+const OVERSPEND_TOLERANCE = 0.1;  // Costs may run 10% ahead of deposits before it looks wrong
+
+export const checkSheetData = (
+  people: Person[],
+  sheetMealRate?: number | null,
+  money: MoneySettings = DEFAULT_MONEY_SETTINGS
+): SyncAnomaly[] => {
+  const anomalies: SyncAnomaly[] = [];
+
+  for (const p of people) {
+    if ((p.meals || 0) < 0) {
+      anomalies.push({
+        kind: 'negative-meals',
+        severity: 'critical',
+        member: p.name,
+        message: `${p.name} has a negative meal count (${p.meals})`
+      });
+    }
+    if ((p.contribution || 0) < 0) {
+      anomalies.push({
+        kind: 'negative-contribution',
+        severity: 'warning',
+        member: p.name,
+        message: `${p.name} has a negative contribution (${formatMoney(p.contribution, money)})`
+      });
+    }
+  }
+
+  const { balances, mealRate } = calculateBalances(people, { sheetMealRate: sheetMealRate ?? null });
+  const totalContribution = people.reduce((sum, p) => sum + (p.contribution || 0), 0);
+  const totalCost = balances.reduce((sum, b) => sum + b.cost, 0);
+
+  // The summary table's own cost column should add up to meals × rate
+  const withSheetBalance = people.filter(p => p.customBalance !== undefined && p.customBalance !== null);
+  if (withSheetBalance.length > 0 && mealRate > 0) {
+    const sheetCost = withSheetBalance.reduce((sum, p) => sum + (p.contribution || 0) - (p.customBalance || 0), 0);
+    const expectedCost = withSheetBalance.reduce((sum, p) => sum + ((p.meals || 0) + (p.guestMeals || 0)) * mealRate, 0);
+    if (Math.abs(sheetCost - expectedCost) > Math.max(1, expectedCost * RECONCILE_TOLERANCE)) {
+      anomalies.push({
+        kind: 'unreconciled',
+        severity: 'warning',
+        message: `The sheet's costs add up to ${formatMoney(sheetCost, money)} but meals × rate is ${formatMoney(expectedCost, money)}`
+      });
+    }
+  } else if (totalCost > totalContribution * (1 + OVERSPEND_TOLERANCE) && totalCost - totalContribution > 1) {
+    anomalies.push({
+      kind: 'unreconciled',
+      severity: 'warning',
+      message: `Costs (${formatMoney(totalCost, money)}) are more than contributions (${formatMoney(totalContribution, money)})`
+    });
+  }
+
+  return anomalies;
+};
+
+export const checkSyncChanges = (
+  changes: SyncChanges,
+  limits: SyncLimits,
+  money: MoneySettings = DEFAULT_MONEY_SETTINGS
+): SyncAnomaly[] => {
+  const anomalies: SyncAnomaly[] = [];
+
+  // Losing a member is always worth a look; past the limit it holds the sync
+  const tooManyRemoved = changes.removed.length > limits.maxRemovedMembers;
+  for (const name of changes.removed) {
+    anomalies.push({
+      kind: 'member-removed',
+      severity: tooManyRemoved ? 'critical' : 'warning',
+      member: name,
+      message: `${name} is no longer in the sheet`
+    });
+  }
+
+  for (const c of changes.changed) {
+    if (c.mealsBefore - c.mealsAfter > limits.maxMealDrop) {
+      anomalies.push({
+        kind: 'meal-drop',
+        severity: 'critical',
+        member: c.name,
+        message: `${c.name}'s meals would drop from ${c.mealsBefore} to ${c.mealsAfter} (limit ${limits.maxMealDrop})`
+      });
+    }
+    if (Math.abs(c.balanceAfter - c.balanceBefore) > limits.maxBalanceChange) {
+      anomalies.push({
+        kind: 'balance-swing',
+        severity: 'critical',
+        member: c.name,
+        message: `${c.name}'s balance would change by ${formatMoney(c.balanceAfter - c.balanceBefore, money)} (limit ${formatMoney(limits.maxBalanceChange, money, 0)})`
+      });
+    }
+  }
+
+  if (changes.rateBefore > 0) {
+    const rateChangePercent = Math.abs(changes.rateAfter - changes.rateBefore) / changes.rateBefore * 100;
+    if (rateChangePercent > limits.maxRateChangePercent) {
+      anomalies.push({
+        kind: 'rate-jump',
+        severity: 'critical',
+        message: `Meal rate would change by ${rateChangePercent.toFixed(0)}% (limit ${limits.maxRateChangePercent}%)`
+      });
+    }
+  }
+
+  return anomalies;
+};
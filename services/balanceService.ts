@@ -0,0 +1,71 @@
+import type { Person, Balance } from '../types.js';
+
+/**
+ * BALANCE SERVICE
+ * The meal rate and balance calculation, shared by the dashboard,
+ * the server scheduler and billing cycle close.
+ */
+
+export interface BalanceOptions {
+  sheetMealRate?: number | null; // Rate read from the sheet, if any
+  totalCost?: number;            // Actual meal spend; defaults to contributions minus fixed costs
+}
+
+export interface BalanceSummary {
+  balances: Balance[];
+  totalCost: number;   // Spend that goes through the meal rate
+  totalFixed: number;  // Fixed costs split outside the meal rate
+  totalMeals: number;
+  mealRate: number;
+}
+
+export const calculateBalances = (people: Person[], options: BalanceOptions = {}): BalanceSummary => {
+  const { sheetMealRate = null } = options;
+
+  // Fixed costs are split on their own, so they never feed the meal rate
+  const totalFixed = people.reduce((sum, p) => sum + (p.fixedShare || 0), 0);
+  const totalC = options.totalCost !== undefined
+    ? options.totalCost
+    : Math.max(0, people.reduce((sum, p) => sum + (p.contribution || 0), 0) - totalFixed);
+  // Guest meals count towards the rate like any other meal
+  const totalM = people.reduce((sum, p) => sum + (p.meals || 0) + (p.guestMeals || 0), 0);
+
+  // Priority: 1. Rate from Sheet, 2. Calculated Rate
+  const rate = sheetMealRate !== null && sheetMealRate > 0
+    ? sheetMealRate
+    : (totalM > 0 ? totalC / totalM : 0);
+
+  const balances: Balance[] = people.map(person => {
+    const mealCost = ((person.meals || 0) + (person.guestMeals || 0)) * rate;
+    const fixedShare = person.fixedShare || 0;
+    const cost = mealCost + fixedShare;
+    const balance = (person.customBalance !== undefined && person.customBalance !== null
+      ? person.customBalance
+      : ((person.contribution || 0) - cost)) + (person.openingBalance || 0) + (person.settledAmount || 0);
+
+    let status: Balance['status'] = 'SETTLED';
+    if (balance > 1) status = 'OWED';
+    if (balance < -1) status = 'OWES';
+
+    return {
+      personId: person.id,
+      name: person.name,
+      meals: person.meals,
+      contribution: person.contribution,
+      cost,
+      mealCost,
+      fixedShare,
+      guestMeals: person.guestMeals,
+      balance,
+      status
+    };
+  }).sort((a, b) => a.balance - b.balance);
+
+  return {
+    balances,
+    totalCost: totalC,
+    totalFixed,
+    totalMeals: totalM,
+    mealRate: rate
+  };
+};
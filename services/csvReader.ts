@@ -0,0 +1,117 @@
+/**
+ * CSV READER
+ * RFC 4180 tokenizer and a number normaliser for sheet cells, used by every
+ * sheet import path (through sheetParser.ts).
+ */
+
+const BOM = '\uFEFF';
+
+/**
+ * Reads CSV text one row at a time. Quoted cells may hold commas, newlines
+ * and doubled ("") quotes; rows may end in \r\n, \n or a lone \r.
+ */
+export function* readCSVRows(text: string): Generator<string[]> {
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let i = text.startsWith(BOM) ? 1 : 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          cell += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+      } else {
+        cell += ch;
+      }
+      i++;
+      continue;
+    }
+
+    if (ch === '"') {
+      // A quote only opens a quoted section at the start of a cell; elsewhere it is kept as-is
+      if (cell === '') inQuotes = true;
+      else cell += ch;
+    } else if (ch === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\r' || ch === '\n') {
+      row.push(cell);
+      yield row;
+      row = [];
+      cell = '';
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+    } else {
+      cell += ch;
+    }
+    i++;
+  }
+
+  // Last row, unless the text ended with a line break
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    yield row;
+  }
+}
+
+export const parseCSVRows = (text: string): string[][] => Array.from(readCSVRows(text));
+
+export interface NumberFormatOptions {
+  decimal?: '.' | ','; // Decimal separator; the other one is taken as a thousands separator
+}
+
+const BANGLA_ZERO = 0x09E6;
+const CURRENCY_PATTERN = /[৳$€£₹¥]|\b(?:bdt|tk|taka|usd|inr|eur)\b\.?/gi;
+const SPACE_PATTERN = /[\s\u00A0\u2009\u202F']/g; // Also no-break and thin spaces, and Swiss ' grouping
+
+/**
+ * Decimal separator for a BCP 47 locale, e.g. '.' for en-BD and ',' for de-DE.
+ */
+export const decimalSeparatorFor = (locale?: string): '.' | ',' => {
+  try {
+    const part = new Intl.NumberFormat(locale).formatToParts(1.5).find(p => p.type === 'decimal');
+    return part?.value === ',' ? ',' : '.';
+  } catch {
+    return '.';
+  }
+};
+
+/**
+ * Reads a sheet cell as a number: "1,200" → 1200, "৳500" → 500,
+ * "১২৫.৫" → 125.5, "(300)" → -300. Returns NaN for anything else,
+ * including blank cells, rather than reading a prefix like parseFloat does.
+ */
+export const parseNumber = (value: string | number | null | undefined, options: NumberFormatOptions = {}): number => {
+  if (typeof value === 'number') return value;
+  if (value === null || value === undefined) return NaN;
+
+  const decimal = options.decimal || '.';
+  const group = decimal === '.' ? ',' : '.';
+
+  let text = value
+    .replace(/[০-৯]/g, d => String(d.charCodeAt(0) - BANGLA_ZERO))
+    .replace(/−/g, '-')
+    .replace(CURRENCY_PATTERN, '')
+    .replace(SPACE_PATTERN, '');
+
+  let negative = false;
+  const accounting = text.match(/^\((.*)\)$/);
+  if (accounting) {
+    negative = true;
+    text = accounting[1];
+  }
+
+  text = text.split(group).join('');
+  if (decimal === ',') text = text.replace(',', '.');
+
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)$/.test(text)) return NaN;
+
+  const number = Number(text);
+  return negative ? -number : number;
+};
@@ -0,0 +1,41 @@
+import type { MoneySettings } from '../types.js';
+
+/**
+ * CURRENCY SERVICE
+ * Money formatting shared by the client, the emails and the AI prompts,
+ * driven by each group's currency code and locale.
+ */
+
+export const DEFAULT_MONEY_SETTINGS: MoneySettings = { currency: 'BDT', locale: 'en-BD' };
+
+// True when Intl accepts both the ISO 4217 currency code and the BCP 47 locale
+export const isValidMoneySettings = (settings: MoneySettings): boolean => {
+  try {
+    new Intl.NumberFormat(settings.locale, { style: 'currency', currency: settings.currency });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// e.g. formatMoney(1234.5) -> "৳1,234.50", formatMoney(12, { currency: 'USD', locale: 'en-US' }, 0) -> "$12"
+export const formatMoney = (
+  amount: number,
+  settings: MoneySettings = DEFAULT_MONEY_SETTINGS,
+  decimals: number = 2
+): string => {
+  const options: Intl.NumberFormatOptions = {
+    style: 'currency',
+    currency: settings.currency,
+    currencyDisplay: 'narrowSymbol',
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals
+  };
+
+  try {
+    return new Intl.NumberFormat(settings.locale, options).format(amount);
+  } catch {
+    // A bad setting shouldn't break a page or an email
+    return `${settings.currency} ${amount.toFixed(decimals)}`;
+  }
+};
@@ -1,4 +1,4 @@
-import { DBMember } from '../types';
+import { DBMember, Expense, Deposit, GuestMeal, FixedCost, Payment, ReminderLogEntry, MealEntry, MealCounts, MealType, BillingCycle, Group, MemberStatement, BalanceSnapshot, AuditEvent, SyncedDataVersion } from '../types';
 import { getApiUrl } from '../config/api';
 
 /**
@@ -9,6 +9,122 @@ import { getApiUrl } from '../config/api';
 
 const API_URL = getApiUrl();
 
+// Transform an expense document to match the Expense interface
+const toExpense = (e: any): Expense => ({
+  id: e._id,
+  payerId: e.payerId,
+  amount: e.amount,
+  description: e.description,
+  date: e.date
+});
+
+// Transform a deposit document to match the Deposit interface
+const toDeposit = (d: any): Deposit => ({
+  id: d._id,
+  memberName: d.memberName,
+  amount: d.amount,
+  date: d.date,
+  method: d.method,
+  note: d.note || undefined,
+  source: d.source
+});
+
+// Transform a guest meal document to match the GuestMeal interface
+const toGuestMeal = (g: any): GuestMeal => ({
+  id: g._id,
+  hostName: g.hostName,
+  guestName: g.guestName || undefined,
+  date: g.date,
+  meals: g.meals,
+  multiplier: g.multiplier ?? 1,
+  note: g.note || undefined
+});
+
+// Transform a fixed cost document to match the FixedCost interface
+const toFixedCost = (c: any): FixedCost => ({
+  id: c._id,
+  name: c.name,
+  amount: c.amount,
+  split: c.split,
+  shares: c.shares || [],
+  recurring: c.recurring
+});
+
+// Transform a payment document to match the Payment interface
+const toPayment = (p: any): Payment => ({
+  id: p._id,
+  fromName: p.fromName || undefined,
+  toName: p.toName || undefined,
+  amount: p.amount,
+  date: p.date,
+  method: p.method,
+  note: p.note || undefined,
+  createdAt: p.createdAt
+});
+
+// Transform a reminder log document to match the ReminderLogEntry interface
+const toReminderLogEntry = (r: any): ReminderLogEntry => ({
+  id: r._id,
+  memberName: r.memberName,
+  message: r.message,
+  amountOwed: r.amountOwed,
+  trigger: r.trigger,
+  status: r.status,
+  sentAt: r.createdAt,
+  resolvedAt: r.resolvedAt || undefined,
+  payment: r.paymentId && typeof r.paymentId === 'object'
+    ? { amount: r.paymentId.amount, date: r.paymentId.date, method: r.paymentId.method }
+    : undefined
+});
+
+// Transform a balance snapshot document to match the BalanceSnapshot interface
+const toBalanceSnapshot = (s: any): BalanceSnapshot => ({
+  id: s._id,
+  takenAt: s.takenAt,
+  source: s.source,
+  mealRate: s.mealRate,
+  totalCost: s.totalCost,
+  totalMeals: s.totalMeals,
+  people: s.people || []
+});
+
+// Transform an audit event document to match the AuditEvent interface
+const toAuditEvent = (e: any): AuditEvent => ({
+  id: e._id,
+  actorEmail: e.actorEmail,
+  action: e.action,
+  target: e.target || undefined,
+  changes: e.changes || [],
+  createdAt: e.createdAt
+});
+
+// Transform a synced data version summary to match the SyncedDataVersion interface
+const toSyncedDataVersion = (v: any): SyncedDataVersion => ({
+  id: v._id,
+  createdAt: v.createdAt,
+  source: v.source,
+  actorEmail: v.actorEmail,
+  sheetMealRate: v.sheetMealRate ?? null,
+  peopleCount: v.peopleCount || 0,
+  totalMeals: v.totalMeals || 0,
+  restoredFrom: v.restoredFrom || undefined,
+  anomalies: v.anomalies || []
+});
+
+// Transform a billing cycle document to match the BillingCycle interface
+const toCycle = (c: any): BillingCycle => ({
+  id: c._id,
+  label: c.label,
+  startDate: c.startDate,
+  endDate: c.endDate || undefined,
+  status: c.status,
+  mealRate: c.mealRate ?? undefined,
+  totalCost: c.totalCost ?? undefined,
+  totalMeals: c.totalMeals ?? undefined,
+  openingBalances: c.openingBalances || [],
+  closingBalances: c.closingBalances || []
+});
+
 export const dbService = {
   // Fetch all members from MongoDB
   getMembers: async (): Promise<DBMember[]> => {
@@ -102,5 +218,673 @@ export const dbService = {
     } catch (error: any) {
       throw new Error(error.message || 'Failed to delete member');
     }
+  },
+
+  // Fetch the expense ledger
+  getExpenses: async (): Promise<Expense[]> => {
+    try {
+      const response = await fetch(`${API_URL}/api/expenses`, {
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch expenses');
+      }
+
+      const expenses = await response.json();
+      return expenses.map(toExpense);
+    } catch (error) {
+      console.error('Error fetching expenses:', error);
+      return [];
+    }
+  },
+
+  // Add an expense to the ledger
+  addExpense: async (expense: Omit<Expense, 'id'>): Promise<Expense> => {
+    try {
+      const response = await fetch(`${API_URL}/api/expenses`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        credentials: 'include',
+        body: JSON.stringify(expense)
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to add expense');
+      }
+
+      return toExpense(await response.json());
+    } catch (error: any) {
+      throw new Error(error.message || 'Failed to add expense');
+    }
+  },
+
+  // Update an expense
+  updateExpense: async (id: string, updates: Partial<Omit<Expense, 'id'>>): Promise<void> => {
+    try {
+      const response = await fetch(`${API_URL}/api/expenses/${id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        credentials: 'include',
+        body: JSON.stringify(updates)
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update expense');
+      }
+    } catch (error: any) {
+      throw new Error(error.message || 'Failed to update expense');
+    }
+  },
+
+  // Delete an expense
+  deleteExpense: async (id: string): Promise<void> => {
+    try {
+      const response = await fetch(`${API_URL}/api/expenses/${id}`, {
+        method: 'DELETE',
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to delete expense');
+      }
+    } catch (error: any) {
+      throw new Error(error.message || 'Failed to delete expense');
+    }
+  },
+
+  // Fetch the deposit (joma) ledger
+  getDeposits: async (): Promise<Deposit[]> => {
+    try {
+      const response = await fetch(`${API_URL}/api/deposits`, {
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch deposits');
+      }
+
+      const deposits = await response.json();
+      return deposits.map(toDeposit);
+    } catch (error) {
+      console.error('Error fetching deposits:', error);
+      return [];
+    }
+  },
+
+  // Record a deposit
+  addDeposit: async (deposit: Omit<Deposit, 'id' | 'source'>): Promise<Deposit> => {
+    try {
+      const response = await fetch(`${API_URL}/api/deposits`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        credentials: 'include',
+        body: JSON.stringify(deposit)
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to add deposit');
+      }
+
+      return toDeposit(await response.json());
+    } catch (error: any) {
+      throw new Error(error.message || 'Failed to add deposit');
+    }
+  },
+
+  // Delete a deposit
+  deleteDeposit: async (id: string): Promise<void> => {
+    try {
+      const response = await fetch(`${API_URL}/api/deposits/${id}`, {
+        method: 'DELETE',
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to delete deposit');
+      }
+    } catch (error: any) {
+      throw new Error(error.message || 'Failed to delete deposit');
+    }
+  },
+
+  // Fetch per-day meal entries
+  getMeals: async (): Promise<MealEntry[]> => {
+    try {
+      const response = await fetch(`${API_URL}/api/meals`, {
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch meal entries');
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error fetching meal entries:', error);
+      return [];
+    }
+  },
+
+  // Record a member's meals for a day by meal type
+  recordMeals: async (memberName: string, date: string, byType: MealCounts): Promise<MealEntry> => {
+    try {
+      const response = await fetch(`${API_URL}/api/meals`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        credentials: 'include',
+        body: JSON.stringify({ memberName, date, byType })
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to record meals');
+      }
+
+      return await response.json();
+    } catch (error: any) {
+      throw new Error(error.message || 'Failed to record meals');
+    }
+  },
+
+  // Delete a meal entry
+  deleteMealEntry: async (id: string): Promise<void> => {
+    try {
+      const response = await fetch(`${API_URL}/api/meals/${id}`, {
+        method: 'DELETE',
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete meal entry');
+      }
+    } catch (error: any) {
+      throw new Error(error.message || 'Failed to delete meal entry');
+    }
+  },
+
+  // Fetch the group's meal types and weights
+  getMealTypes: async (): Promise<MealType[]> => {
+    try {
+      const response = await fetch(`${API_URL}/api/meals/types`, {
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch meal types');
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error fetching meal types:', error);
+      return [];
+    }
+  },
+
+  // Replace the group's meal types and weights
+  updateMealTypes: async (mealTypes: MealType[]): Promise<MealType[]> => {
+    try {
+      const response = await fetch(`${API_URL}/api/meals/types`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        credentials: 'include',
+        body: JSON.stringify({ mealTypes })
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update meal types');
+      }
+
+      return await response.json();
+    } catch (error: any) {
+      throw new Error(error.message || 'Failed to update meal types');
+    }
+  },
+
+  // Fetch all guest meals
+  getGuestMeals: async (): Promise<GuestMeal[]> => {
+    try {
+      const response = await fetch(`${API_URL}/api/guest-meals`, {
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch guest meals');
+      }
+
+      const guestMeals = await response.json();
+      return guestMeals.map(toGuestMeal);
+    } catch (error) {
+      console.error('Error fetching guest meals:', error);
+      return [];
+    }
+  },
+
+  // Record guest meals charged to a host member
+  addGuestMeal: async (guestMeal: Omit<GuestMeal, 'id'>): Promise<GuestMeal> => {
+    try {
+      const response = await fetch(`${API_URL}/api/guest-meals`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        credentials: 'include',
+        body: JSON.stringify(guestMeal)
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to add guest meal');
+      }
+
+      return toGuestMeal(await response.json());
+    } catch (error: any) {
+      throw new Error(error.message || 'Failed to add guest meal');
+    }
+  },
+
+  // Delete a guest meal entry
+  deleteGuestMeal: async (id: string): Promise<void> => {
+    try {
+      const response = await fetch(`${API_URL}/api/guest-meals/${id}`, {
+        method: 'DELETE',
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete guest meal');
+      }
+    } catch (error: any) {
+      throw new Error(error.message || 'Failed to delete guest meal');
+    }
+  },
+
+  // Fetch the fixed costs of the open billing cycle
+  getFixedCosts: async (): Promise<FixedCost[]> => {
+    try {
+      const response = await fetch(`${API_URL}/api/fixed-costs`, {
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch fixed costs');
+      }
+
+      const fixedCosts = await response.json();
+      return fixedCosts.map(toFixedCost);
+    } catch (error) {
+      console.error('Error fetching fixed costs:', error);
+      return [];
+    }
+  },
+
+  // Add a fixed cost to the open billing cycle
+  addFixedCost: async (fixedCost: Omit<FixedCost, 'id'>): Promise<FixedCost> => {
+    try {
+      const response = await fetch(`${API_URL}/api/fixed-costs`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        credentials: 'include',
+        body: JSON.stringify(fixedCost)
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to add fixed cost');
+      }
+
+      return toFixedCost(await response.json());
+    } catch (error: any) {
+      throw new Error(error.message || 'Failed to add fixed cost');
+    }
+  },
+
+  // Delete a fixed cost
+  deleteFixedCost: async (id: string): Promise<void> => {
+    try {
+      const response = await fetch(`${API_URL}/api/fixed-costs/${id}`, {
+        method: 'DELETE',
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete fixed cost');
+      }
+    } catch (error: any) {
+      throw new Error(error.message || 'Failed to delete fixed cost');
+    }
+  },
+
+  // Fetch all settlement payments
+  getPayments: async (): Promise<Payment[]> => {
+    try {
+      const response = await fetch(`${API_URL}/api/payments`, {
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch payments');
+      }
+
+      const payments = await response.json();
+      return payments.map(toPayment);
+    } catch (error) {
+      console.error('Error fetching payments:', error);
+      return [];
+    }
+  },
+
+  // Record a settlement payment; returns how many open reminders it resolved
+  recordPayment: async (payment: Omit<Payment, 'id' | 'date' | 'method'> & Partial<Pick<Payment, 'date' | 'method'>>): Promise<{ payment: Payment; resolvedReminders: number }> => {
+    try {
+      const response = await fetch(`${API_URL}/api/payments`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        credentials: 'include',
+        body: JSON.stringify(payment)
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to record payment');
+      }
+
+      const data = await response.json();
+      return { payment: toPayment(data.payment), resolvedReminders: data.resolvedReminders };
+    } catch (error: any) {
+      throw new Error(error.message || 'Failed to record payment');
+    }
+  },
+
+  // Delete a payment (its reminders are reopened)
+  deletePayment: async (id: string): Promise<void> => {
+    try {
+      const response = await fetch(`${API_URL}/api/payments/${id}`, {
+        method: 'DELETE',
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete payment');
+      }
+    } catch (error: any) {
+      throw new Error(error.message || 'Failed to delete payment');
+    }
+  },
+
+  // Fetch sent reminders, newest first
+  getReminderLog: async (): Promise<ReminderLogEntry[]> => {
+    try {
+      const response = await fetch(`${API_URL}/api/notifications/reminders`, {
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch reminder log');
+      }
+
+      const data = await response.json();
+      return (data.reminders || []).map(toReminderLogEntry);
+    } catch (error) {
+      console.error('Error fetching reminder log:', error);
+      return [];
+    }
+  },
+
+  // Fetch all billing cycles, newest first
+  getCycles: async (): Promise<BillingCycle[]> => {
+    try {
+      const response = await fetch(`${API_URL}/api/cycles`, {
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch billing cycles');
+      }
+
+      const cycles = await response.json();
+      return cycles.map(toCycle);
+    } catch (error) {
+      console.error('Error fetching billing cycles:', error);
+      return [];
+    }
+  },
+
+  // Open a new billing cycle
+  openCycle: async (label?: string): Promise<BillingCycle> => {
+    try {
+      const response = await fetch(`${API_URL}/api/cycles/open`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        credentials: 'include',
+        body: JSON.stringify({ label })
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to open billing cycle');
+      }
+
+      return toCycle(await response.json());
+    } catch (error: any) {
+      throw new Error(error.message || 'Failed to open billing cycle');
+    }
+  },
+
+  // Close a billing cycle, optionally opening the next one
+  closeCycle: async (id: string, openNext: boolean): Promise<void> => {
+    try {
+      const response = await fetch(`${API_URL}/api/cycles/${id}/close`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        credentials: 'include',
+        body: JSON.stringify({ openNext })
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to close billing cycle');
+      }
+    } catch (error: any) {
+      throw new Error(error.message || 'Failed to close billing cycle');
+    }
+  },
+
+  // Fetch the user's groups, with the active one flagged
+  getGroups: async (): Promise<Group[]> => {
+    try {
+      const response = await fetch(`${API_URL}/api/groups`, {
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch groups');
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error fetching groups:', error);
+      return [];
+    }
+  },
+
+  // Create a new group (it becomes the active one)
+  createGroup: async (name: string): Promise<Group> => {
+    try {
+      const response = await fetch(`${API_URL}/api/groups`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        credentials: 'include',
+        body: JSON.stringify({ name })
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to create group');
+      }
+
+      return await response.json();
+    } catch (error: any) {
+      throw new Error(error.message || 'Failed to create group');
+    }
+  },
+
+  // Update a group's name, currency or locale
+  updateGroup: async (id: string, updates: Partial<Pick<Group, 'name' | 'currency' | 'locale'>>): Promise<Group> => {
+    try {
+      const response = await fetch(`${API_URL}/api/groups/${id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        credentials: 'include',
+        body: JSON.stringify(updates)
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update group');
+      }
+
+      return await response.json();
+    } catch (error: any) {
+      throw new Error(error.message || 'Failed to update group');
+    }
+  },
+
+  // Switch the active group
+  switchGroup: async (id: string): Promise<void> => {
+    try {
+      const response = await fetch(`${API_URL}/api/groups/${id}/activate`, {
+        method: 'POST',
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to switch group');
+      }
+    } catch (error: any) {
+      throw new Error(error.message || 'Failed to switch group');
+    }
+  },
+
+  // Fetch balance snapshots between two dates (YYYY-MM-DD), oldest first
+  getHistory: async (from?: string, to?: string): Promise<BalanceSnapshot[]> => {
+    try {
+      const params = new URLSearchParams();
+      if (from) params.set('from', from);
+      if (to) params.set('to', to);
+
+      const response = await fetch(`${API_URL}/api/history?${params.toString()}`, {
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch balance history');
+      }
+
+      const snapshots = await response.json();
+      return snapshots.map(toBalanceSnapshot);
+    } catch (error) {
+      console.error('Error fetching balance history:', error);
+      return [];
+    }
+  },
+
+  // Fetch audit events, newest first; pass the oldest createdAt seen to page back
+  getAuditLog: async (action?: string, before?: string): Promise<AuditEvent[]> => {
+    try {
+      const params = new URLSearchParams();
+      if (action) params.set('action', action);
+      if (before) params.set('before', before);
+
+      const response = await fetch(`${API_URL}/api/audit?${params.toString()}`, {
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch audit log');
+      }
+
+      const events = await response.json();
+      return events.map(toAuditEvent);
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+      return [];
+    }
+  },
+
+  // Fetch recent versions of the synced sheet data, newest first
+  getSyncedVersions: async (): Promise<SyncedDataVersion[]> => {
+    try {
+      const response = await fetch(`${API_URL}/api/sheet/versions`, {
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch synced data versions');
+      }
+
+      const versions = await response.json();
+      return versions.map(toSyncedDataVersion);
+    } catch (error) {
+      console.error('Error fetching synced data versions:', error);
+      return [];
+    }
+  },
+
+  // Make an earlier version the current synced data
+  restoreSyncedVersion: async (id: string): Promise<void> => {
+    const response = await fetch(`${API_URL}/api/sheet/versions/${id}/restore`, {
+      method: 'POST',
+      credentials: 'include'
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to restore synced data');
+    }
+  },
+
+  // Fetch the signed-in member's own statement (self-service portal)
+  getMyStatement: async (groupId?: string): Promise<MemberStatement> => {
+    const query = groupId ? `?groupId=${encodeURIComponent(groupId)}` : '';
+    const response = await fetch(`${API_URL}/api/portal/me${query}`, {
+      credentials: 'include'
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to fetch your statement');
+    }
+
+    return response.json();
   }
-};
\ No newline at end of file
+};
@@ -1,5 +1,7 @@
 import nodemailer from 'nodemailer';
 import type { Transporter } from 'nodemailer';
+import type { MoneySettings } from '../types.js';
+import { DEFAULT_MONEY_SETTINGS, formatMoney } from './currencyService.js';
 
 interface EmailOptions {
   to: string;
@@ -74,13 +76,14 @@ class EmailService {
     recipientEmail: string,
     recipientName: string,
     message: string,
-    amountOwed?: number
+    amountOwed?: number,
+    money: MoneySettings = DEFAULT_MONEY_SETTINGS
   ): Promise<boolean> {
     const subject = amountOwed && amountOwed > 0 
-      ? `MealShare: Payment Reminder - $${amountOwed.toFixed(2)} Outstanding`
+      ? `MealShare: Payment Reminder - ${formatMoney(amountOwed, money)} Outstanding`
       : 'MealShare: Account Notification';
 
-    const html = this.generateNotificationHTML(recipientName, message, amountOwed);
+    const html = this.generateNotificationHTML(recipientName, message, amountOwed, money);
 
     return this.sendEmail({
       to: recipientEmail,
@@ -123,11 +126,11 @@ class EmailService {
     `;
   }
 
-  private generateNotificationHTML(name: string, message: string, amountOwed?: number): string {
+  private generateNotificationHTML(name: string, message: string, amountOwed: number | undefined, money: MoneySettings): string {
     const owesSection = amountOwed && amountOwed > 0 ? `
       <div style="background-color: #fff3f3; border-left: 4px solid #ef4444; padding: 15px; margin: 20px 0; border-radius: 4px;">
         <p style="color: #dc2626; font-size: 18px; font-weight: bold; margin: 0;">
-          Outstanding Balance: $${amountOwed.toFixed(2)}
+          Outstanding Balance: ${formatMoney(amountOwed, money)}
         </p>
       </div>
     ` : '';
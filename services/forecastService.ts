@@ -0,0 +1,136 @@
+import type { Balance, CycleForecast, ForecastPoint, MemberForecast } from '../types.js';
+
+/**
+ * FORECAST SERVICE
+ * Projects the end-of-cycle meal rate and each member's balance from the
+ * spend and meal pace so far. Shared by the dashboard, /api/forecast and
+ * the reminder generator.
+ */
+
+export interface DatedAmount {
+  date: string | Date;
+  amount: number;
+}
+
+export interface ForecastInput {
+  balances: Balance[];
+  totalCost: number;         // Meal spend so far
+  totalMeals: number;        // Meal units so far
+  cycleStart: string | Date;
+  cycleEnd?: string | Date;  // First day after the cycle; defaults to one month after the start
+  asOf?: string | Date;      // Defaults to today
+  spend?: DatedAmount[];     // Dated spend; without it, spend so far is assumed evenly spread
+  meals?: DatedAmount[];     // Dated meal units; same fallback
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PACE_WINDOW_DAYS = 14;   // The remaining days follow the pace of the last two weeks
+const CONFIDENCE = 0.9;
+const Z_SCORE = 1.645;         // Two-sided 90%
+const FALLBACK_SPREAD = 0.15;  // Daily uncertainty assumed when there's too little daily data
+
+const startOfDay = (date: string | Date) => {
+  const d = new Date(date);
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
+};
+
+const toDateKey = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+// Mean and spread of the recent daily values, with a fallback spread when they can't be measured
+const dailyPace = (items: DatedAmount[] | undefined, total: number, start: number, elapsedDays: number) => {
+  if (!items || items.length === 0) {
+    const mean = total / elapsedDays;
+    return { mean, sd: mean * FALLBACK_SPREAD };
+  }
+
+  const series = new Array(elapsedDays).fill(0);
+  for (const item of items) {
+    const index = Math.floor((startOfDay(item.date) - start) / DAY_MS);
+    if (index >= 0 && index < elapsedDays) series[index] += item.amount;
+  }
+
+  const window = series.slice(-PACE_WINDOW_DAYS);
+  const mean = window.reduce((sum, v) => sum + v, 0) / window.length;
+  const sd = window.length >= 3
+    ? Math.sqrt(window.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (window.length - 1))
+    : mean * FALLBACK_SPREAD;
+
+  return { mean, sd };
+};
+
+export const forecastCycle = (input: ForecastInput): CycleForecast => {
+  const start = startOfDay(input.cycleStart);
+  const end = input.cycleEnd !== undefined
+    ? startOfDay(input.cycleEnd)
+    : Date.UTC(new Date(start).getUTCFullYear(), new Date(start).getUTCMonth() + 1, new Date(start).getUTCDate());
+  const asOf = startOfDay(input.asOf ?? new Date());
+
+  const totalDays = Math.max(1, Math.round((end - start) / DAY_MS));
+  const elapsedDays = Math.min(totalDays, Math.max(1, Math.floor((asOf - start) / DAY_MS) + 1));
+  const remainingDays = totalDays - elapsedDays;
+
+  const spendPace = dailyPace(input.spend, input.totalCost, start, elapsedDays);
+  const mealPace = dailyPace(input.meals, input.totalMeals, start, elapsedDays);
+
+  const currentRate = input.totalMeals > 0 ? input.totalCost / input.totalMeals : 0;
+
+  // Rate after `days` more days, with the band from the spread of daily spend and meals
+  const projectAt = (days: number) => {
+    const cost = input.totalCost + spendPace.mean * days;
+    const meals = input.totalMeals + mealPace.mean * days;
+    const costMargin = Z_SCORE * spendPace.sd * Math.sqrt(days);
+    const mealMargin = Z_SCORE * mealPace.sd * Math.sqrt(days);
+
+    if (meals <= 0) return { cost, meals, rate: 0, low: 0, high: 0 };
+
+    return {
+      cost,
+      meals,
+      rate: cost / meals,
+      low: Math.max(0, cost - costMargin) / (meals + mealMargin),
+      high: (cost + costMargin) / Math.max(meals - mealMargin, input.totalMeals, 1)
+    };
+  };
+
+  const points: ForecastPoint[] = [];
+  for (let d = 0; d <= remainingDays; d++) {
+    const p = projectAt(d);
+    points.push({ date: toDateKey(asOf + d * DAY_MS), rate: round(p.rate), low: round(p.low), high: round(p.high) });
+  }
+
+  const final = projectAt(remainingDays);
+
+  // Members keep eating at their own pace; their meals are re-priced at the projected rate
+  const members: MemberForecast[] = input.balances.map(b => {
+    const units = (b.meals || 0) + (b.guestMeals || 0);
+    const projectedMeals = units + (units / elapsedDays) * remainingDays;
+    const mealCost = b.mealCost ?? units * currentRate;
+    const balanceAt = (rate: number) => b.balance + mealCost - projectedMeals * rate;
+
+    return {
+      name: b.name,
+      projectedMeals: round(projectedMeals),
+      projectedBalance: round(balanceAt(final.rate)),
+      low: round(balanceAt(final.high)),
+      high: round(balanceAt(final.low))
+    };
+  });
+
+  return {
+    asOf: toDateKey(asOf),
+    cycleEnd: toDateKey(end - DAY_MS),
+    elapsedDays,
+    remainingDays,
+    confidence: CONFIDENCE,
+    currentRate: round(currentRate),
+    projectedRate: round(final.rate),
+    rateLow: round(final.low),
+    rateHigh: round(final.high),
+    projectedCost: round(final.cost),
+    projectedMeals: round(final.meals),
+    points,
+    members
+  };
+};
@@ -1,5 +1,7 @@
 import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { Balance, Reminder } from '../types';
+import { Balance, CycleForecast, MealType, MoneySettings, Reminder } from '../types';
+import { describeMealTypes } from './mealTypeService.js';
+import { DEFAULT_MONEY_SETTINGS, formatMoney } from './currencyService.js';
 
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
@@ -19,7 +21,10 @@ export const generateReminders = async (
   balances: Balance[], 
   tone: string = "friendly",
   mealRate: number,
-  threshold: number = 50
+  threshold: number = 50,
+  mealTypes: MealType[] = [],
+  money: MoneySettings = DEFAULT_MONEY_SETTINGS,
+  forecast?: CycleForecast
 ): Promise<Partial<Reminder>[]> => {
   // Target users below the custom threshold
   const targetUsers = balances.filter(b => b.balance < threshold);
@@ -30,19 +35,24 @@ export const generateReminders = async (
   const userContexts = targetUsers.map(u => {
     const mealsLeft = mealRate > 0 ? (u.balance / mealRate).toFixed(1) : 'Unknown';
     const isNegative = u.balance < 0;
+    const projection = forecast?.members.find((m: { name: string }) => m.name === u.name);
     
     return {
       id: u.personId,
       name: u.name,
-      balance: u.balance.toFixed(2),
+      balance: formatMoney(u.balance, money),
       status: isNegative ? 'DEBT' : 'LOW_FUNDS',
-      mealsRemaining: isNegative ? 0 : mealsLeft
+      mealsRemaining: isNegative ? 0 : mealsLeft,
+      ...(projection && { projectedBalance: formatMoney(projection.projectedBalance, money) })
     };
   });
 
   const prompt = `
     You are an automated finance manager for a shared meal plan.
-    Current Meal Rate: $${mealRate.toFixed(2)} / meal.
+    All amounts are in ${money.currency}; write them the way they appear in the data (e.g. ${formatMoney(500, money, 0)}).
+    Current Meal Rate: ${formatMoney(mealRate, money)} / meal.${forecast && forecast.remainingDays > 0 ? `
+    Forecast: the rate is expected to reach ${formatMoney(forecast.projectedRate, money)} by ${forecast.cycleEnd} (likely between ${formatMoney(forecast.rateLow, money)} and ${formatMoney(forecast.rateHigh, money)}); "projectedBalance" is each member's expected balance at that point if they keep eating at their current pace.` : ''}${mealTypes.length > 0 ? `
+    Meals are counted in weighted units (${describeMealTypes(mealTypes)}); "mealsRemaining" is in these units.` : ''}
 
     Task: Generate short, effective notification messages for the following members who have low or negative balances.
 
@@ -50,10 +60,11 @@ export const generateReminders = async (
     ${JSON.stringify(userContexts)}
 
     Guidelines:
-    1. If Status is DEBT: Be firm. Mention they owe $${Math.abs(Number(userContexts[0].balance)).toFixed(2)}.
+    1. If Status is DEBT: Be firm. Mention they owe ${formatMoney(Math.abs(targetUsers[0].balance), money)}.
     2. If Status is LOW_FUNDS: Be helpful. Mention they only have enough for approx ${userContexts[0].mealsRemaining} more meals.
-    3. Tone: ${tone}.
-    4. Keep messages under 20 words if possible.
+    3. If a projectedBalance is given and is negative, mention what they are on track to owe by the end of the cycle.
+    4. Tone: ${tone}.
+    5. Keep messages under 20 words if possible.
 
     Output JSON format: [{ "personId": "...", "message": "..." }]
   `;
@@ -92,8 +103,8 @@ export const generateReminders = async (
       name: d.name,
       amountOwed: d.balance < 0 ? Math.abs(d.balance) : 0,
       message: d.balance < 0 
-        ? `Alert: Balance is ${d.balance.toFixed(2)}. Please add money.` 
-        : `Warning: Balance low (${d.balance.toFixed(2)}). Recharge soon.`,
+        ? `Alert: Balance is ${formatMoney(d.balance, money)}. Please add money.` 
+        : `Warning: Balance low (${formatMoney(d.balance, money)}). Recharge soon.`,
       generatedAt: Date.now()
     }));
   }
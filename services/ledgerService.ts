@@ -0,0 +1,248 @@
+import type { Person } from '../types.js';
+
+/**
+ * LEDGER SERVICE
+ * Pure helpers that fold the native ledgers (deposits, expenses, guest meals, fixed costs,
+ * settlement payments) into
+ * the people list. Shared by the client and the server scheduler.
+ */
+
+interface LedgerPerson {
+  name: string;
+  contribution: number;
+  customBalance?: number;
+  guestMeals?: number;
+  fixedShare?: number;
+}
+
+interface LedgerGuestMeal {
+  hostName: string;
+  meals: number;
+  multiplier?: number;
+}
+
+interface LedgerDeposit {
+  memberName: string;
+  amount: number;
+}
+
+// Total deposited per member, keyed by lowercase name (same matching as Member.sheetName)
+export const sumDepositsByMember = (deposits: LedgerDeposit[]): Map<string, number> => {
+  const totals = new Map<string, number>();
+  for (const d of deposits) {
+    const key = d.memberName.toLowerCase().trim();
+    totals.set(key, (totals.get(key) || 0) + d.amount);
+  }
+  return totals;
+};
+
+/**
+ * Replace each person's contribution with what they actually deposited.
+ * The sheet's forced balance is dropped for those people so their balance
+ * is recomputed from real payments; people with no deposits are unchanged.
+ */
+export const applyDeposits = <T extends LedgerPerson>(people: T[], deposits: LedgerDeposit[]): T[] => {
+  if (deposits.length === 0) return people;
+
+  const totals = sumDepositsByMember(deposits);
+
+  return people.map(person => {
+    const deposited = totals.get(person.name.toLowerCase().trim());
+    if (deposited === undefined) return person;
+
+    const { customBalance, ...rest } = person;
+    return { ...rest, contribution: deposited } as T;
+  });
+};
+
+interface LedgerMember {
+  id: string;
+  name: string;
+  email: string;
+}
+
+interface LedgerExpense {
+  payerId: string;
+  amount: number;
+}
+
+interface LedgerMealEntry {
+  memberName: string;
+  meals: number; // Weighted meal units
+}
+
+/**
+ * Build the people list from the native ledger when no sheet is linked.
+ * A member's contribution is the bazar they paid for plus what they deposited,
+ * and their meals are the weighted units of their recorded meal entries.
+ */
+export const buildLedgerPeople = (
+  members: LedgerMember[],
+  expenses: LedgerExpense[],
+  deposits: LedgerDeposit[],
+  mealEntries: LedgerMealEntry[] = []
+): Person[] => {
+  const depositTotals = sumDepositsByMember(deposits);
+
+  const mealTotals = new Map<string, number>();
+  for (const e of mealEntries) {
+    const key = e.memberName.toLowerCase().trim();
+    mealTotals.set(key, (mealTotals.get(key) || 0) + e.meals);
+  }
+
+  return members.map(m => ({
+    id: m.id,
+    name: m.name,
+    email: m.email,
+    meals: mealTotals.get(m.name.toLowerCase().trim()) || 0,
+    contribution: expenses
+      .filter(e => e.payerId === m.id)
+      .reduce((sum, e) => sum + e.amount, 0)
+      + (depositTotals.get(m.name.toLowerCase().trim()) || 0)
+  }));
+};
+
+// Attach the balance carried forward from the previous billing cycle
+export const applyOpeningBalances = <T extends LedgerPerson>(
+  people: T[],
+  openingBalances: { memberName: string; amount: number }[]
+): T[] => {
+  if (openingBalances.length === 0) return people;
+
+  const openings = new Map(openingBalances.map(o => [o.memberName.toLowerCase().trim(), o.amount]));
+
+  return people.map(person => {
+    const opening = openings.get(person.name.toLowerCase().trim());
+    return opening === undefined ? person : { ...person, openingBalance: opening };
+  });
+};
+
+interface LedgerCycle {
+  startDate: Date | string;
+  openingBalances: { memberName: string; amount: number }[];
+}
+
+/**
+ * The carried-forward balances that still belong on top of the people list.
+ * Sheet totals synced before the cycle started already hold everything those
+ * balances were closed from, so for sheet-driven groups they only count once
+ * the sheet has been synced again since the cycle opened. Pass `sheetSyncedAt`
+ * (null if never synced) only when the people come from the sheet.
+ */
+export const carriedOpeningBalances = (
+  cycle: LedgerCycle | null | undefined,
+  sheetSyncedAt?: Date | string | null
+): LedgerCycle['openingBalances'] => {
+  if (!cycle) return [];
+  if (sheetSyncedAt === undefined) return cycle.openingBalances;
+  if (!sheetSyncedAt || new Date(sheetSyncedAt).getTime() < new Date(cycle.startDate).getTime()) return [];
+  return cycle.openingBalances;
+};
+
+/**
+ * Charge guest meals to their host. Each guest meal counts as
+ * `multiplier` meals, both for the host's cost and for the meal rate.
+ */
+export const applyGuestMeals = <T extends LedgerPerson>(people: T[], guestMeals: LedgerGuestMeal[]): T[] => {
+  if (guestMeals.length === 0) return people;
+
+  const totals = new Map<string, number>();
+  for (const g of guestMeals) {
+    const key = g.hostName.toLowerCase().trim();
+    totals.set(key, (totals.get(key) || 0) + g.meals * (g.multiplier ?? 1));
+  }
+
+  return people.map(person => {
+    const guestMeals = totals.get(person.name.toLowerCase().trim());
+    if (guestMeals === undefined) return person;
+
+    // A forced sheet balance would ignore the extra cost, so drop it
+    const { customBalance, ...rest } = person;
+    return { ...rest, guestMeals } as T;
+  });
+};
+
+interface LedgerFixedCost {
+  amount: number;
+  split: 'equal' | 'shares';
+  shares: { memberName: string; share: number }[];
+}
+
+/**
+ * Give each person their share of the fixed costs. Equal splits divide the
+ * amount among everyone in the list; share splits divide it by weight among
+ * the members named in the shares.
+ */
+export const applyFixedCosts = <T extends LedgerPerson>(people: T[], fixedCosts: LedgerFixedCost[]): T[] => {
+  if (fixedCosts.length === 0 || people.length === 0) return people;
+
+  const totals = new Map<string, number>();
+  const add = (name: string, amount: number) => {
+    const key = name.toLowerCase().trim();
+    totals.set(key, (totals.get(key) || 0) + amount);
+  };
+
+  for (const cost of fixedCosts) {
+    if (cost.split === 'shares') {
+      const totalShares = cost.shares.reduce((sum, s) => sum + s.share, 0);
+      if (totalShares <= 0) continue;
+      cost.shares.forEach(s => add(s.memberName, cost.amount * s.share / totalShares));
+    } else {
+      people.forEach(p => add(p.name, cost.amount / people.length));
+    }
+  }
+
+  return people.map(person => {
+    const fixedShare = totals.get(person.name.toLowerCase().trim());
+    if (fixedShare === undefined) return person;
+
+    // A forced sheet balance would ignore the fixed share, so drop it
+    const { customBalance, ...rest } = person;
+    return { ...rest, fixedShare } as T;
+  });
+};
+
+interface LedgerPayment {
+  fromName?: string | null;
+  toName?: string | null;
+  amount: number;
+}
+
+/**
+ * Payments still to add on top of sheet data. A sheet read after a payment
+ * was recorded is expected to hold it already, so only payments recorded
+ * since then count. Pass `sheetSyncedAt` only when the people come from the
+ * sheet; without a known sync time every payment counts.
+ */
+export const paymentsSinceSync = <P extends { createdAt?: Date | string }>(
+  payments: P[],
+  sheetSyncedAt?: Date | string | null
+): P[] => {
+  if (!sheetSyncedAt) return payments;
+  const syncedAt = new Date(sheetSyncedAt).getTime();
+  return payments.filter(p => !p.createdAt || new Date(p.createdAt).getTime() > syncedAt);
+};
+
+/**
+ * Apply settlement payments: the payer's balance goes up by the amount and
+ * the receiver's goes down. Payments to or from the mess fund only touch the member.
+ */
+export const applyPayments = <T extends LedgerPerson>(people: T[], payments: LedgerPayment[]): T[] => {
+  if (payments.length === 0) return people;
+
+  const totals = new Map<string, number>();
+  const add = (name: string, amount: number) => {
+    const key = name.toLowerCase().trim();
+    totals.set(key, (totals.get(key) || 0) + amount);
+  };
+
+  for (const p of payments) {
+    if (p.fromName) add(p.fromName, p.amount);
+    if (p.toName) add(p.toName, -p.amount);
+  }
+
+  return people.map(person => {
+    const settledAmount = totals.get(person.name.toLowerCase().trim());
+    return settledAmount === undefined ? person : { ...person, settledAmount };
+  });
+};
@@ -0,0 +1,27 @@
+import type { MealType, MealCounts } from '../types.js';
+
+/**
+ * MEAL TYPE SERVICE
+ * Meal types and their weights, shared by the client and the server.
+ * A meal's weight is how many "units" it counts for in the meal rate,
+ * e.g. breakfast counted as half a meal.
+ */
+
+export const DEFAULT_MEAL_TYPES: MealType[] = [
+  { key: 'breakfast', label: 'Breakfast', weight: 0.5 },
+  { key: 'lunch', label: 'Lunch', weight: 1 },
+  { key: 'dinner', label: 'Dinner', weight: 1 }
+];
+
+// Types without a configured weight (e.g. one that was since removed) count as a full meal
+export const weightedMealUnits = (counts: MealCounts, types: MealType[]): number => {
+  const weights = new Map(types.map(t => [t.key, t.weight]));
+  return Object.entries(counts).reduce(
+    (sum, [key, count]) => sum + (Number(count) || 0) * (weights.get(key) ?? 1),
+    0
+  );
+};
+
+// Short human description, e.g. "Breakfast = 0.5, Lunch = 1, Dinner = 1"
+export const describeMealTypes = (types: MealType[]): string =>
+  types.map(t => `${t.label} = ${t.weight}`).join(', ');
@@ -0,0 +1,121 @@
+import type { Balance, SettlementPlan, SettlementTransfer } from '../types.js';
+
+/**
+ * SETTLEMENT SERVICE
+ * Turns balances into the smallest set of member-to-member transfers.
+ * Shared by the dashboard "Settle up" panel and /api/settlements/plan.
+ */
+
+// Whoever holds the mess money absorbs what doesn't add up between members
+export const MESS_FUND = 'Mess fund';
+
+// Exact search is exponential in group size; larger groups fall back to greedy
+const MAX_EXACT_PARTIES = 15;
+
+interface Party {
+  name: string;
+  cents: number; // > 0: gets money back, < 0: owes money
+}
+
+// Largest debtor pays largest creditor until everyone in the (zero-sum) list is square
+const settleGreedy = (parties: Party[]): SettlementTransfer[] => {
+  const debtors = parties.filter(p => p.cents < 0).map(p => ({ ...p, cents: -p.cents }));
+  const creditors = parties.filter(p => p.cents > 0).map(p => ({ ...p }));
+  const transfers: SettlementTransfer[] = [];
+
+  while (debtors.length > 0 && creditors.length > 0) {
+    debtors.sort((a, b) => b.cents - a.cents);
+    creditors.sort((a, b) => b.cents - a.cents);
+
+    const debtor = debtors[0];
+    const creditor = creditors[0];
+    const amount = Math.min(debtor.cents, creditor.cents);
+
+    transfers.push({ from: debtor.name, to: creditor.name, amount: amount / 100 });
+
+    debtor.cents -= amount;
+    creditor.cents -= amount;
+    if (debtor.cents === 0) debtors.shift();
+    if (creditor.cents === 0) creditors.shift();
+  }
+
+  return transfers;
+};
+
+/**
+ * Split the parties into as many zero-sum groups as possible. Settling a group
+ * of k people takes k - 1 transfers, so more groups means fewer transfers.
+ */
+const splitZeroSumGroups = (parties: Party[]): Party[][] => {
+  const n = parties.length;
+  const full = (1 << n) - 1;
+
+  const sums = new Array<number>(full + 1).fill(0);
+  for (let mask = 1; mask <= full; mask++) {
+    const low = mask & -mask;
+    sums[mask] = sums[mask ^ low] + parties[31 - Math.clz32(low)].cents;
+  }
+
+  // best[mask]: most zero-sum groups the parties in mask can be split into
+  const best = new Array<number>(full + 1).fill(0);
+  for (let mask = 1; mask <= full; mask++) {
+    let most = 0;
+    for (let i = 0; i < n; i++) {
+      if (mask & (1 << i)) most = Math.max(most, best[mask ^ (1 << i)]);
+    }
+    best[mask] = most + (sums[mask] === 0 ? 1 : 0);
+  }
+
+  // Walk back from the full set; every zero-sum prefix closes a group
+  const groups: Party[][] = [];
+  let current: Party[] = [];
+  let mask = full;
+  while (mask) {
+    if (sums[mask] === 0 && current.length > 0) {
+      groups.push(current);
+      current = [];
+    }
+    const target = best[mask] - (sums[mask] === 0 ? 1 : 0);
+    for (let i = 0; i < n; i++) {
+      if ((mask & (1 << i)) && best[mask ^ (1 << i)] === target) {
+        current.push(parties[i]);
+        mask ^= 1 << i;
+        break;
+      }
+    }
+  }
+  if (current.length > 0) groups.push(current);
+
+  return groups;
+};
+
+/**
+ * Plan who should pay whom. Balances within `tolerance` of zero count as
+ * settled (same as Balance.status). If balances don't sum to zero, the
+ * difference is paid into or out of the mess fund.
+ */
+export const planSettlements = (balances: Balance[], tolerance: number = 1): SettlementPlan => {
+  const parties: Party[] = balances
+    .filter(b => Math.abs(b.balance) > tolerance)
+    .map(b => ({ name: b.name, cents: Math.round(b.balance * 100) }));
+
+  const residual = parties.reduce((sum, p) => sum + p.cents, 0);
+
+  if (Math.abs(residual) > tolerance * 100) {
+    parties.push({ name: MESS_FUND, cents: -residual });
+  } else if (residual !== 0 && parties.length > 0) {
+    // Rounding leftovers: let the biggest balance absorb them
+    const biggest = parties.reduce((a, b) => Math.abs(b.cents) > Math.abs(a.cents) ? b : a);
+    biggest.cents -= residual;
+  }
+
+  const active = parties.filter(p => p.cents !== 0);
+  const groups = active.length <= MAX_EXACT_PARTIES ? splitZeroSumGroups(active) : [active];
+  const transfers = groups.flatMap(settleGreedy).sort((a, b) => b.amount - a.amount);
+
+  return {
+    transfers,
+    totalAmount: Math.round(transfers.reduce((sum, t) => sum + t.amount, 0) * 100) / 100,
+    fundDifference: Math.abs(residual) > tolerance * 100 ? -residual / 100 : 0
+  };
+};
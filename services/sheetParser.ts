@@ -0,0 +1,461 @@
+import type { Person, MealEntry, DepositEntry, SheetCell, SheetDiagnostics, SheetLayout } from '../types.js';
+import { parseCSVRows, parseNumber, decimalSeparatorFor } from './csvReader.js';
+
+/**
+ * SHEET PARSER
+ * The one parser for our Google Sheet layouts, shared by the dashboard sync,
+ * the server scheduler and the Netlify scheduled function. It reads CSV text
+ * (parseSheetCSV) or typed cells from the Sheets API (parseSheetRows). A group's saved
+ * SheetLayout is used first; the header heuristics fill in whatever it leaves out.
+ * Fixtures for the supported layouts live in fixtures/sheets (run test-parser.ts).
+ */
+
+// Labels of the cell whose right-hand neighbour holds the sheet's meal rate
+const RATE_LABELS = ['mil rate', 'meal rate', 'rate'];
+const DEFAULT_DEPOSIT_LABEL = 'joma';
+const DEFAULT_IGNORED_COLUMNS = ['total', 'tot / day'];
+
+const CELL_REF_PATTERN = /^([A-Z]{1,2})(\d+)$/i;
+const COLUMN_PATTERN = /^[A-Z]{1,2}$/i;
+
+/**
+ * Zero-based index of a column given by its letters: 'A' → 0, 'AB' → 27.
+ */
+export const columnIndex = (letters: string): number =>
+  letters.toUpperCase().split('').reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+
+/**
+ * Column letters for a zero-based index: 0 → 'A', 27 → 'AB'.
+ */
+export const columnLetters = (index: number): string => {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+};
+
+/**
+ * Zero-based row and column of an A1-style reference, or undefined if it isn't one.
+ */
+export const parseCellRef = (ref: string): { row: number; col: number } | undefined => {
+  const match = ref.trim().match(CELL_REF_PATTERN);
+  if (!match || Number(match[2]) < 1) return undefined;
+  return { row: Number(match[2]) - 1, col: columnIndex(match[1]) };
+};
+
+export const isValidSheetLayout = (layout: any): layout is SheetLayout => {
+  if (!layout || typeof layout !== 'object' || Array.isArray(layout)) return false;
+  const isRow = (v: any) => v === undefined || (Number.isInteger(v) && v >= 1);
+  const isColumn = (v: any) => v === undefined || (typeof v === 'string' && COLUMN_PATTERN.test(v));
+
+  return (layout.rateCell === undefined || (typeof layout.rateCell === 'string' && !!parseCellRef(layout.rateCell)))
+    && isRow(layout.gridHeaderRow)
+    && isRow(layout.summaryHeaderRow)
+    && (layout.depositLabel === undefined || (typeof layout.depositLabel === 'string' && layout.depositLabel.length <= 40))
+    && (layout.ignoredColumns === undefined
+      || (Array.isArray(layout.ignoredColumns) && layout.ignoredColumns.every((c: any) => typeof c === 'string')))
+    && isColumn(layout.summaryNameColumn)
+    && isColumn(layout.summaryCostColumn)
+    && isColumn(layout.summaryBalanceColumn);
+};
+
+export interface SheetParseOptions {
+  reference?: Date; // Day used to place day-of-month grid dates; defaults to today
+  locale?: string;  // Group locale, for the decimal separator in number cells
+  layout?: SheetLayout | null;
+}
+
+export interface ParsedSheet {
+  people: Person[];
+  hasContribution: boolean;
+  extractedRate?: number;
+  mealEntries: MealEntry[];
+  deposits: DepositEntry[];
+  diagnostics: SheetDiagnostics;
+}
+
+// YYYY-MM-DD of the day, or undefined when it isn't in the calendar (e.g. 31 February)
+const calendarDay = (year: number, month: number, day: number): string | undefined => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return undefined;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+/**
+ * Whether the value is a YYYY-MM-DD day that exists in the calendar, as the
+ * parser produces. Synced entries are checked again before they are stored.
+ */
+export const isSheetDay = (value: unknown): value is string => {
+  const match = typeof value === 'string' ? value.match(/^(\d{4})-(\d{2})-(\d{2})$/) : null;
+  return !!match && calendarDay(Number(match[1]), Number(match[2]), Number(match[3])) === value;
+};
+
+/**
+ * First and last day among the synced grid's meal entries and deposits, the
+ * period whose sheet-sourced records a sync replaces. Undefined without any.
+ */
+export const sheetPeriod = (dates: string[]): { from: string; to: string } | undefined => {
+  const days = dates.filter(isSheetDay).sort();
+  return days.length > 0 ? { from: days[0], to: days[days.length - 1] } : undefined;
+};
+
+/**
+ * Normalises the first cell of a meal grid row to a YYYY-MM-DD day.
+ * Sheets usually hold either a full date (day first, as written locally,
+ * or month first when the day can't be a month, like the US "12/31/2025")
+ * or just the day of the month, which is placed in the reference month.
+ * Days that don't exist in the calendar are not dates.
+ */
+export const normalizeSheetDate = (cell: string, reference: Date = new Date()): string | undefined => {
+  const value = cell.trim();
+
+  // Day of month only: "1" .. "31"
+  if (/^\d{1,2}$/.test(value)) {
+    return calendarDay(reference.getFullYear(), reference.getMonth() + 1, parseInt(value, 10));
+  }
+
+  // ISO: 2025-12-01
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) return calendarDay(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  // Day first: 01/12/2025, 1.12.25, 1-12-2025; month first when the second part can't be a month
+  const dmy = value.match(/^(\d{1,2})[\/.-](\d{1,2})[\/.-](\d{2,4})$/);
+  if (dmy) {
+    const year = dmy[3].length === 2 ? 2000 + Number(dmy[3]) : Number(dmy[3]);
+    const [first, second] = [Number(dmy[1]), Number(dmy[2])];
+    return second > 12 ? calendarDay(year, first, second) : calendarDay(year, second, first);
+  }
+
+  // Anything else the browser understands with an explicit year (e.g. "1 Dec 2025").
+  // Date() rolls "31 Feb" over into March, so the day it lands on must be the one written.
+  const parsed = new Date(value);
+  if (!isNaN(parsed.getTime()) && parsed.getFullYear() > 2000 && (value.match(/\d+/g) || []).map(Number).includes(parsed.getDate())) {
+    return calendarDay(parsed.getFullYear(), parsed.getMonth() + 1, parsed.getDate());
+  }
+
+  return undefined;
+};
+
+/**
+ * Parses a meal sheet exported as CSV (see parseSheetRows).
+ */
+export const parseSheetCSV = (csvText: string, options: SheetParseOptions = {}): ParsedSheet =>
+  parseSheetRows(parseCSVRows(csvText), options);
+
+/**
+ * Parses a meal sheet given as rows of cells. Multi-pass, to correlate:
+ * 1. Meal Counts from the main grid (preventing 'Cost as Meals' error).
+ * 2. Financials from the Summary Table (ensuring 'Available Balance' accuracy).
+ * 3. Global parameters like 'Mil Rate'.
+ * Falls back to a simple Name / Meals / Paid list.
+ * Number cells are taken as they are; text cells are read with parseNumber.
+ * The diagnostics say which of these matched and which rows were skipped.
+ */
+export const parseSheetRows = (cells: SheetCell[][], options: SheetParseOptions = {}): ParsedSheet => {
+  const reference = options.reference || new Date();
+  const layout = options.layout || {};
+  const decimal = decimalSeparatorFor(options.locale);
+  const num = (r: number, c: number) => {
+    const cell = cells[r]?.[c];
+    if (typeof cell === 'number') return cell;
+    return typeof cell === 'string' ? parseNumber(cell, { decimal }) : NaN;
+  };
+
+  const depositLabel = (layout.depositLabel || DEFAULT_DEPOSIT_LABEL).trim().toLowerCase();
+  const ignoredColumns = (layout.ignoredColumns?.length ? layout.ignoredColumns : DEFAULT_IGNORED_COLUMNS)
+    .map(c => c.trim().toLowerCase());
+
+  // Text of every cell, for matching headers and names
+  const rows = cells.map(row => row.map(c => c === null || c === undefined ? '' : String(c).trim()));
+
+  // Data Holders
+  let extractedRate: number | undefined;
+  let rateCell: string | undefined;
+  let layoutUsed = false;
+  const skippedRows: SheetDiagnostics['skippedRows'] = [];
+  const skip = (r: number, reason: string) => skippedRows.push({ row: r + 1, reason });
+  const mealCounts = new Map<string, number>(); // Name -> Meal Count from Grid
+  const mealEntries: MealEntry[] = [];          // Name + Day -> Meal Count from Grid
+  const deposits: DepositEntry[] = [];          // Name + Day -> Joma (deposit) from Grid
+  let gridHeaderRowIndex = -1;
+  let gridTotalFound = false;
+  let columnToNameMap = new Map<number, string>();
+  let jomaColumnToNameMap = new Map<number, string>(); // Joma column -> member to its left
+  const gridRows: number[] = [];                 // Day rows of the meal grid
+
+  // Builds the result, with diagnostics on how it was read
+  const finish = (strategy: SheetDiagnostics['strategy'], people: Person[], hasContribution: boolean, headerRow?: number): ParsedSheet => {
+    // Members in only one of the grid and the table the members came from
+    const key = (name: string) => name.toLowerCase();
+    const gridNames = Array.from(columnToNameMap.values());
+    const gridKeys = new Set(gridNames.map(key));
+    const peopleKeys = new Set(people.map(p => key(p.name)));
+    const nameMismatches: SheetDiagnostics['nameMismatches'] = gridNames.length === 0 || people.length === 0 ? [] : [
+      ...gridNames.filter(name => !peopleKeys.has(key(name))).map(name => ({ name, missingFrom: 'summary' as const })),
+      ...people.filter(p => !gridKeys.has(key(p.name))).map(p => ({ name: p.name, missingFrom: 'grid' as const }))
+    ];
+
+    return {
+      people,
+      hasContribution,
+      extractedRate,
+      mealEntries,
+      deposits,
+      diagnostics: {
+        strategy,
+        layoutUsed,
+        rowCount: rows.length,
+        rateCell,
+        gridHeaderRow: gridHeaderRowIndex !== -1 ? gridHeaderRowIndex + 1 : undefined,
+        summaryHeaderRow: strategy === 'summary-table' ? headerRow : undefined,
+        listHeaderRow: strategy === 'simple-list' ? headerRow : undefined,
+        skippedRows,
+        nameMismatches
+      }
+    };
+  };
+
+  if (rows.length < 2) return finish('none', [], false);
+
+  // Reads member (and deposit) columns from a grid header row; they are kept if there are at least `minNames`
+  const readGridHeader = (r: number, minNames: number) => {
+    const names = new Map<number, string>();
+    const joma = new Map<number, string>();
+    let lastName: string | undefined;
+
+    rows[r].forEach((cell, idx) => {
+      const lower = cell.toLowerCase();
+      if (idx > 0 && lower === depositLabel && lastName) {
+        joma.set(idx, lastName);
+      } else if (idx > 0 && cell && lower !== depositLabel && !ignoredColumns.includes(lower)) {
+        names.set(idx, cell);
+        lastName = cell;
+      }
+    });
+
+    if (names.size < minNames) return false;
+    columnToNameMap = names;
+    jomaColumnToNameMap = joma;
+    gridHeaderRowIndex = r;
+    return true;
+  };
+
+  // The saved layout comes first: the rate cell and the grid header row
+  if (layout.rateCell) {
+    const ref = parseCellRef(layout.rateCell);
+    const val = ref ? num(ref.row, ref.col) : NaN;
+    if (!isNaN(val) && val > 0) {
+      extractedRate = val;
+      rateCell = layout.rateCell.toUpperCase();
+      layoutUsed = true;
+    }
+  }
+  const gridFromLayout = !!layout.gridHeaderRow
+    && layout.gridHeaderRow <= rows.length
+    && readGridHeader(layout.gridHeaderRow - 1, 1);
+  if (gridFromLayout) layoutUsed = true;
+  const rateFromLayout = extractedRate !== undefined;
+
+  // --- PASS 1: Global Scan for Rate & Grid Structure ---
+  for (let r = 0; r < rows.length; r++) {
+    const texts = rows[r];
+    const lowerCells = texts.map(c => c.toLowerCase());
+
+    // A. Find Mil Rate
+    const rateIdx = rateFromLayout ? -1 : lowerCells.findIndex(c => RATE_LABELS.includes(c));
+    if (rateIdx !== -1 && rateIdx + 1 < texts.length) {
+       const val = num(r, rateIdx + 1);
+       if (!isNaN(val) && val > 0) {
+          extractedRate = val;
+          rateCell = `${columnLetters(rateIdx + 1)}${r + 1}`;
+       }
+    }
+
+    // B. Identify Meal Grid Header
+    // Heuristic: Starts with "Date", followed by names that are NOT "Joma" or "Total"
+    // We'll use this to map columns to names for the Total row later.
+    // A "Joma" column holds the deposits of the member named just before it.
+    if (!gridFromLayout && lowerCells[0] === 'date') {
+       // Only a row with several names is the main meal grid
+       readGridHeader(r, 2);
+    }
+
+    // C. Collect Daily Rows of the Grid
+    // Every row between the header and the first "Total" row is one day; they are read after the scan.
+    if (gridHeaderRowIndex !== -1 && r > gridHeaderRowIndex && !gridTotalFound && lowerCells[0] !== 'total') {
+       gridRows.push(r);
+    }
+
+    // D. Capture Totals from Grid
+    // If we have a map of columns, and this row starts with "Total", grab the meals.
+    if (gridHeaderRowIndex !== -1 && r > gridHeaderRowIndex && lowerCells[0] === 'total') {
+       columnToNameMap.forEach((name, colIdx) => {
+          if (colIdx < texts.length) {
+             const val = num(r, colIdx);
+             // Filter out likely currency values if they are huge compared to typical meals (heuristic)
+             // But valid meals can be anything. We rely on the fact that the Meal Grid Total row 
+             // is usually the first "Total" row encountered after the header in this structure.
+             if (!isNaN(val)) {
+                // Only set if not already set (assuming first Total row is the meal counts)
+                if (!mealCounts.has(name.toLowerCase())) {
+                   mealCounts.set(name.toLowerCase(), val);
+                }
+             }
+          }
+       });
+       gridTotalFound = true;
+    }
+  }
+
+  // --- Daily Counts from the Grid ---
+  // Day-of-month dates go in the reference month, unless meals were recorded on a
+  // day of it that hasn't come yet: then the grid is last month's.
+  const today = reference.getDate();
+  const isLastMonth = gridRows.some(r => /^\d{1,2}$/.test(rows[r][0])
+    && parseInt(rows[r][0], 10) > today
+    && Array.from(columnToNameMap.keys()).some(c => num(r, c) > 0));
+  const gridMonth = isLastMonth ? new Date(reference.getFullYear(), reference.getMonth() - 1, 1) : reference;
+
+  for (const r of gridRows) {
+    const texts = rows[r];
+    const date = texts[0] ? normalizeSheetDate(texts[0], gridMonth) : undefined;
+    if (date) {
+      columnToNameMap.forEach((name, colIdx) => {
+        const val = num(r, colIdx);
+        if (!isNaN(val)) {
+          mealEntries.push({ memberName: name, date, meals: val });
+        } else if (texts[colIdx]) {
+          skip(r, `${name}'s meals "${texts[colIdx]}" are not a number`);
+        }
+      });
+      jomaColumnToNameMap.forEach((name, colIdx) => {
+        const val = num(r, colIdx);
+        if (!isNaN(val) && val !== 0) {
+          deposits.push({ memberName: name, date, amount: val });
+        }
+      });
+    } else if (texts[0]) {
+      skip(r, `"${texts[0]}" in the grid's date column is not a date`);
+    } else if (texts.some(Boolean)) {
+      skip(r, 'Grid row without a date');
+    }
+  }
+
+  // --- PASS 2: Parse Summary Table & Merge ---
+  // We prefer the Summary Table for Cost/Balance because it's the final authority.
+  // We prefer the Grid (mealCounts) for the Meal Count.
+  const readSummary = (r: number, nameIdx: number, costIdx: number, balanceIdx: number): Person[] => {
+    const people: Person[] = [];
+
+    for (let i = r + 1; i < rows.length; i++) {
+       const dataRow = rows[i];
+       if (dataRow.length <= Math.max(nameIdx, costIdx, balanceIdx)) break;
+
+       const name = dataRow[nameIdx];
+       // Stop on totals or empty
+       if (!name || name.toLowerCase().includes('total') || name.toLowerCase() === 'check' || RATE_LABELS.includes(name.toLowerCase())) break;
+
+       if (dataRow[costIdx] === '' && dataRow[balanceIdx] === '') break;
+
+       const cost = num(i, costIdx) || 0;
+       const balance = num(i, balanceIdx) || 0;
+
+       // DETERMINE MEALS:
+       // 1. Try to find explicit count from Grid (Most Accurate)
+       // 2. Fallback: Calculate from Rate (Approximation)
+       // 3. Fallback: 0
+       let meals = 0;
+       const gridMeals = mealCounts.get(name.toLowerCase());
+
+       if (gridMeals !== undefined) {
+         meals = gridMeals;
+       } else if (extractedRate && extractedRate > 0) {
+         meals = parseFloat((cost / extractedRate).toFixed(2));
+       }
+
+       people.push({
+         id: `sheet-summary-${i}`,
+         name: name,
+         email: '',
+         meals: meals,
+         contribution: cost + balance, // Reverse calculate contribution so App logic (Contrib - Cost) works somewhat, but we rely on customBalance.
+         customBalance: balance // Force exact balance
+       });
+    }
+
+    return people;
+  };
+
+  // Summary table from the saved layout
+  if (layout.summaryHeaderRow && layout.summaryNameColumn && layout.summaryCostColumn && layout.summaryBalanceColumn) {
+    const people = readSummary(
+      layout.summaryHeaderRow - 1,
+      columnIndex(layout.summaryNameColumn),
+      columnIndex(layout.summaryCostColumn),
+      columnIndex(layout.summaryBalanceColumn)
+    );
+    if (people.length > 0) {
+      layoutUsed = true;
+      return finish('summary-table', people, true, layout.summaryHeaderRow);
+    }
+    skip(layout.summaryHeaderRow - 1, "No members below the saved layout's summary header");
+  }
+
+  for (let r = 0; r < rows.length; r++) {
+    const lowerCells = rows[r].map(c => c.toLowerCase());
+
+    // Find Summary Table Header
+    const nameIdx = lowerCells.findIndex(c => c.includes('meal details') || c === 'name');
+    
+    if (nameIdx !== -1) {
+      const costIdx = lowerCells.findIndex((c, idx) => idx > nameIdx && (c === 'cost' || c.includes('total cost')));
+      // "Available Balance" might be split or distinct. Look for "balance" broadly but ensure it's to the right.
+      const balanceIdx = lowerCells.findIndex((c, idx) => idx > nameIdx && (c.includes('available') || c.includes('balance')));
+
+      if (costIdx !== -1 && balanceIdx !== -1) {
+        const people = readSummary(r, nameIdx, costIdx, balanceIdx);
+        if (people.length > 0) {
+          return finish('summary-table', people, true, r + 1);
+        }
+        skip(r, 'Summary table header with no members below it');
+      }
+    }
+  }
+
+  // Fallback: Simple List (Name / Meals / Paid or Deposit), skipping total and rate rows
+  const headers = rows[0].map(h => h.toLowerCase());
+  const simpleNameIdx = headers.findIndex(h => h.includes('name') || h.includes('member'));
+  const simpleMealIdx = headers.findIndex(h => h.includes('meal') || h.includes('count'));
+  const simplePaidIdx = headers.findIndex(h => h.includes('paid') || h.includes('amount') || h.includes('deposit'));
+
+  if (simpleNameIdx !== -1 && simpleMealIdx !== -1) {
+    const people: Person[] = [];
+    for (let i = 1; i < rows.length; i++) {
+       const parts = rows[i];
+       if (!parts.some(Boolean)) continue;
+
+       const name = parts[simpleNameIdx];
+       if (!name) {
+         skip(i, 'No name');
+         continue;
+       }
+       if (name.toLowerCase() === 'total' || RATE_LABELS.includes(name.toLowerCase())) {
+         skip(i, `"${name}" row`);
+         continue;
+       }
+
+       people.push({
+         id: `sheet-list-${i}`,
+         name: name,
+         email: '',
+         meals: num(i, simpleMealIdx) || 0,
+         contribution: simplePaidIdx !== -1 ? (num(i, simplePaidIdx) || 0) : 0
+       });
+    }
+    return finish('simple-list', people, simplePaidIdx !== -1, 1);
+  }
+
+  return finish('none', [], false);
+};
@@ -1,185 +1,112 @@
-import { Person } from '../types';
-
-interface SheetResult {
-  people: Person[];
-  hasContribution: boolean;
-  extractedRate?: number;
+import { MoneySettings, SheetCell, SyncAnomaly, WorkbookTab } from '../types';
+import { checkSheetData } from './anomalyService';
+import { DEFAULT_MONEY_SETTINGS } from './currencyService';
+import { parseSheetCSV, parseSheetRows, ParsedSheet, SheetParseOptions } from './sheetParser';
+import { getApiUrl } from '../config/api';
+
+export interface SheetResult extends ParsedSheet {
+  anomalies: SyncAnomaly[]; // Suspicious values found in the sheet on its own
 }
 
+const withAnomalies = (parsed: ParsedSheet, money: MoneySettings): SheetResult =>
+  ({ ...parsed, anomalies: checkSheetData(parsed.people, parsed.extractedRate, money) });
+
+/**
+ * Parses cells already in hand (an uploaded file's tab) like fetchSheetData does.
+ */
+export const parseSheetCells = (
+  cells: SheetCell[][],
+  options: SheetParseOptions = {},
+  money: MoneySettings = DEFAULT_MONEY_SETTINGS
+): SheetResult =>
+  withAnomalies(parseSheetRows(cells, options), money);
+
+/**
+ * Fetches the raw CSV text of a Google Sheet published as CSV.
+ */
+export const fetchSheetCSV = async (url: string): Promise<string> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch sheet: ${response.statusText}`);
+  }
+  return response.text();
+};
+
 /**
- * Fetches data from a Google Sheet published as CSV.
- * Implements a multi-pass parser to correlate:
- * 1. Meal Counts from the main grid (preventing 'Cost as Meals' error).
- * 2. Financials from the Summary Table (ensuring 'Available Balance' accuracy).
- * 3. Global parameters like 'Mil Rate'.
+ * Fetches data from a Google Sheet published as CSV and parses it with the
+ * shared sheet parser (see sheetParser.ts for the layouts it understands).
+ * `options.locale` decides the decimal separator of number cells and
+ * `options.layout` is the group's saved layout profile. `money` is the group's
+ * currency, used in the anomaly messages.
  */
-export const fetchSheetData = async (url: string): Promise<SheetResult> => {
+export const fetchSheetData = async (
+  url: string,
+  options: SheetParseOptions = {},
+  money: MoneySettings = DEFAULT_MONEY_SETTINGS
+): Promise<SheetResult> => {
   try {
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch sheet: ${response.statusText}`);
-    }
-    const text = await response.text();
-    return parseCSV(text);
+    const text = await fetchSheetCSV(url);
+    return withAnomalies(parseSheetCSV(text, options), money);
   } catch (error) {
     console.error("Sheet fetch error:", error);
     throw error;
   }
 };
 
-const parseCSV = (csvText: string): SheetResult => {
-  const lines = csvText.split(/\r?\n/);
-  if (lines.length < 2) return { people: [], hasContribution: false };
-
-  // Data Holders
-  let extractedRate: number | undefined;
-  const mealCounts = new Map<string, number>(); // Name -> Meal Count from Grid
-  let gridHeaderRowIndex = -1;
-  const columnToNameMap = new Map<number, string>();
-
-  // --- PASS 1: Global Scan for Rate & Grid Structure ---
-  for (let r = 0; r < lines.length; r++) {
-    const rowRaw = lines[r];
-    const cells = rowRaw.split(/,(?=(?:(?:[^"]*"){2})*[^"]*$)/).map(c => c.replace(/^"|"$/g, '').trim());
-    const lowerCells = cells.map(c => c.toLowerCase());
-
-    // A. Find Mil Rate
-    const rateIdx = lowerCells.findIndex(c => c === 'mil rate' || c === 'meal rate' || c === 'rate');
-    if (rateIdx !== -1 && rateIdx + 1 < cells.length) {
-       const val = parseFloat(cells[rateIdx + 1]);
-       if (!isNaN(val) && val > 0) extractedRate = val;
-    }
-
-    // B. Identify Meal Grid Header
-    // Heuristic: Starts with "Date", followed by names that are NOT "Joma" or "Total"
-    // We'll use this to map columns to names for the Total row later.
-    if (lowerCells[0] === 'date') {
-       // Check if this looks like the main meal grid (lots of names)
-       let validNames = 0;
-       cells.forEach((cell, idx) => {
-         if (idx > 0 && cell && cell.toLowerCase() !== 'joma' && cell.toLowerCase() !== 'total' && cell.toLowerCase() !== 'tot / day') {
-           columnToNameMap.set(idx, cell);
-           validNames++;
-         }
-       });
-       
-       // If we found a row with names, mark it as header
-       if (validNames > 1) {
-         gridHeaderRowIndex = r;
-       }
-    }
+// Browser link of a spreadsheet read through the Sheets API
+export const spreadsheetUrl = (spreadsheetId: string) => `https://docs.google.com/spreadsheets/d/${spreadsheetId}`;
 
-    // C. Capture Totals from Grid
-    // If we have a map of columns, and this row starts with "Total", grab the meals.
-    if (gridHeaderRowIndex !== -1 && r > gridHeaderRowIndex && lowerCells[0] === 'total') {
-       columnToNameMap.forEach((name, colIdx) => {
-          if (colIdx < cells.length) {
-             const val = parseFloat(cells[colIdx]);
-             // Filter out likely currency values if they are huge compared to typical meals (heuristic)
-             // But valid meals can be anything. We rely on the fact that the Meal Grid Total row 
-             // is usually the first "Total" row encountered after the header in this structure.
-             if (!isNaN(val)) {
-                // Only set if not already set (assuming first Total row is the meal counts)
-                if (!mealCounts.has(name.toLowerCase())) {
-                   mealCounts.set(name.toLowerCase(), val);
-                }
-             }
-          }
-       });
-    }
+/**
+ * Typed cell values of the active group's sheet, read by the server through
+ * the Google Sheets API (the group's source must be 'api').
+ */
+export const fetchSheetsApiValues = async (): Promise<SheetCell[][]> => {
+  const API_URL = getApiUrl();
+  const response = await fetch(`${API_URL}/api/sheet/api-values`, {
+    credentials: 'include'
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to read the sheet');
   }
+  return data.values;
+};
 
-  // --- PASS 2: Parse Summary Table & Merge ---
-  // We prefer the Summary Table for Cost/Balance because it's the final authority.
-  // We prefer the Grid (mealCounts) for the Meal Count.
-  
-  for (let r = 0; r < lines.length; r++) {
-    const rowRaw = lines[r];
-    const cells = rowRaw.split(/,(?=(?:(?:[^"]*"){2})*[^"]*$)/).map(c => c.replace(/^"|"$/g, '').trim());
-    const lowerCells = cells.map(c => c.toLowerCase());
-
-    // Find Summary Table Header
-    const nameIdx = lowerCells.findIndex(c => c.includes('meal details') || c === 'name');
-    
-    if (nameIdx !== -1) {
-      const costIdx = lowerCells.findIndex((c, idx) => idx > nameIdx && (c === 'cost' || c.includes('total cost')));
-      // "Available Balance" might be split or distinct. Look for "balance" broadly but ensure it's to the right.
-      const balanceIdx = lowerCells.findIndex((c, idx) => idx > nameIdx && (c.includes('available') || c.includes('balance')));
-
-      if (costIdx !== -1 && balanceIdx !== -1) {
-        const people: Person[] = [];
-        
-        for (let i = r + 1; i < lines.length; i++) {
-           const dataRow = lines[i].split(/,(?=(?:(?:[^"]*"){2})*[^"]*$)/).map(c => c.replace(/^"|"$/g, '').trim());
-           if (dataRow.length <= Math.max(nameIdx, costIdx, balanceIdx)) break;
-
-           const name = dataRow[nameIdx];
-           // Stop on totals or empty
-           if (!name || name.toLowerCase().includes('total') || name.toLowerCase() === 'check') break;
-
-           const costStr = dataRow[costIdx];
-           const balanceStr = dataRow[balanceIdx];
-
-           if (costStr === '' && balanceStr === '') break;
-
-           const cost = parseFloat(costStr) || 0;
-           const balance = parseFloat(balanceStr) || 0;
-
-           // DETERMINE MEALS:
-           // 1. Try to find explicit count from Grid (Most Accurate)
-           // 2. Fallback: Calculate from Rate (Approximation)
-           // 3. Fallback: 0
-           let meals = 0;
-           const gridMeals = mealCounts.get(name.toLowerCase());
-           
-           if (gridMeals !== undefined) {
-             meals = gridMeals;
-           } else if (extractedRate && extractedRate > 0) {
-             meals = parseFloat((cost / extractedRate).toFixed(2));
-           }
-
-           people.push({
-             id: `sheet-summary-${i}`,
-             name: name,
-             email: '',
-             meals: meals, 
-             contribution: cost + balance, // Reverse calculate contribution so App logic (Contrib - Cost) works somewhat, but we rely on customBalance.
-             customBalance: balance // Force exact balance
-           });
-        }
-        
-        if (people.length > 0) {
-          return { people, hasContribution: true, extractedRate };
-        }
-      }
-    }
+/**
+ * Same as fetchSheetData, for a group that reads its sheet through the Sheets API.
+ */
+export const fetchSheetsApiData = async (
+  options: SheetParseOptions = {},
+  money: MoneySettings = DEFAULT_MONEY_SETTINGS
+): Promise<SheetResult> => {
+  try {
+    return parseSheetCells(await fetchSheetsApiValues(), options, money);
+  } catch (error) {
+    console.error("Sheets API fetch error:", error);
+    throw error;
   }
+};
 
-  // Fallback: Simple List
-  // ... (Same as before)
-  const headers = lines[0].toLowerCase().split(',').map(h => h.replace(/^"|"$/g, '').trim());
-  const simpleNameIdx = headers.findIndex(h => h.includes('name') || h.includes('member'));
-  const simpleMealIdx = headers.findIndex(h => h.includes('meal') || h.includes('count'));
-  const simplePaidIdx = headers.findIndex(h => h.includes('paid') || h.includes('amount'));
-
-  if (simpleNameIdx !== -1 && simpleMealIdx !== -1) {
-    const people: Person[] = [];
-    for (let i = 1; i < lines.length; i++) {
-       const parts = lines[i].split(/,(?=(?:(?:[^"]*"){2})*[^"]*$)/).map(p => p.replace(/^"|"$/g, '').trim());
-       if (parts.length <= simpleNameIdx) continue;
-       const name = parts[simpleNameIdx];
-       if (!name) continue;
-       
-       people.push({
-         id: `sheet-list-${i}`,
-         name: name,
-         email: '',
-         meals: parseFloat(parts[simpleMealIdx]) || 0,
-         contribution: simplePaidIdx !== -1 ? (parseFloat(parts[simplePaidIdx]) || 0) : 0
-       });
-    }
-    return { people, hasContribution: simplePaidIdx !== -1 };
+/**
+ * Sends an .xlsx, .ods or .csv file to the server, which reads it into tabs
+ * of cells. Nothing is saved until the parsed data goes through save-data.
+ */
+export const uploadWorkbook = async (file: File): Promise<{ fileName: string; tabs: WorkbookTab[] }> => {
+  const API_URL = getApiUrl();
+  const response = await fetch(`${API_URL}/api/sheet/upload`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/octet-stream',
+      'X-File-Name': encodeURIComponent(file.name)
+    },
+    credentials: 'include',
+    body: file
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to read the file');
   }
-
-  return { people: [], hasContribution: false };
-};
\ No newline at end of file
+  return data;
+};
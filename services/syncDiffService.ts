@@ -0,0 +1,92 @@
+import type { MoneySettings, Person, SyncDiff, SyncLimits, SyncMemberChange } from '../types.js';
+import { calculateBalances } from './balanceService.js';
+import { checkSheetData, checkSyncChanges } from './anomalyService.js';
+import { DEFAULT_MONEY_SETTINGS } from './currencyService.js';
+
+/**
+ * SYNC DIFF SERVICE
+ * Compares freshly parsed sheet data with the data synced last time, so a
+ * manual sync can be previewed and a scheduled one held when it looks wrong
+ * (see anomalyService for the checks).
+ * Shared by the sync preview and the server scheduler.
+ */
+
+export interface SyncSide {
+  people: Person[];
+  sheetMealRate?: number | null;
+}
+
+export const DEFAULT_SYNC_LIMITS: SyncLimits = {
+  maxRemovedMembers: 0,
+  maxMealDrop: 2,
+  maxBalanceChange: 2000,
+  maxRateChangePercent: 25
+};
+
+const EPSILON = 0.005;
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+const nameKey = (name: string) => name.toLowerCase().trim();
+
+export const isValidSyncLimits = (limits: any): limits is SyncLimits =>
+  !!limits && (Object.keys(DEFAULT_SYNC_LIMITS) as (keyof SyncLimits)[])
+    .every(key => typeof limits[key] === 'number' && isFinite(limits[key]) && limits[key] >= 0);
+
+// `money` is the group's currency, used for the amounts in anomaly messages
+export const diffSync = (
+  before: SyncSide,
+  after: SyncSide,
+  limits: SyncLimits = DEFAULT_SYNC_LIMITS,
+  money: MoneySettings = DEFAULT_MONEY_SETTINGS
+): SyncDiff => {
+  // Balances are compared as the sheet states them, before any ledger adjustments
+  const beforeSummary = calculateBalances(before.people, { sheetMealRate: before.sheetMealRate ?? null });
+  const afterSummary = calculateBalances(after.people, { sheetMealRate: after.sheetMealRate ?? null });
+
+  const beforeMap = new Map(beforeSummary.balances.map(b => [nameKey(b.name), b]));
+  const afterMap = new Map(afterSummary.balances.map(b => [nameKey(b.name), b]));
+
+  const added = afterSummary.balances.filter(b => !beforeMap.has(nameKey(b.name))).map(b => b.name);
+  const removed = beforeSummary.balances.filter(b => !afterMap.has(nameKey(b.name))).map(b => b.name);
+
+  const changed: SyncMemberChange[] = [];
+  let unchangedCount = 0;
+
+  for (const next of afterSummary.balances) {
+    const prev = beforeMap.get(nameKey(next.name));
+    if (!prev) continue;
+
+    const change: SyncMemberChange = {
+      name: next.name,
+      mealsBefore: prev.meals || 0,
+      mealsAfter: next.meals || 0,
+      contributionBefore: round(prev.contribution || 0),
+      contributionAfter: round(next.contribution || 0),
+      balanceBefore: round(prev.balance),
+      balanceAfter: round(next.balance)
+    };
+
+    const isSame = Math.abs(change.mealsAfter - change.mealsBefore) < EPSILON
+      && Math.abs(change.contributionAfter - change.contributionBefore) < EPSILON
+      && Math.abs(change.balanceAfter - change.balanceBefore) < EPSILON;
+
+    if (isSame) unchangedCount++;
+    else changed.push(change);
+  }
+
+  const rateBefore = round(beforeSummary.mealRate);
+  const rateAfter = round(afterSummary.mealRate);
+
+  // Nothing to compare against on the first sync, so only the new data itself is checked
+  const anomalies = [
+    ...checkSheetData(after.people, after.sheetMealRate, money),
+    ...(before.people.length > 0 ? checkSyncChanges({ removed, changed, rateBefore, rateAfter }, limits, money) : [])
+  ];
+  const violations = anomalies.filter(a => a.severity === 'critical').map(a => a.message);
+
+  return { added, removed, changed, unchangedCount, rateBefore, rateAfter, anomalies, violations };
+};
+
+export const hasSyncChanges = (diff: SyncDiff) =>
+  diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0 || Math.abs(diff.rateAfter - diff.rateBefore) >= EPSILON;
@@ -56,7 +56,7 @@ MONGODB_URI=your-mongodb-connection-string
 # Google OAuth
 GOOGLE_CLIENT_ID=your-google-client-id
 GOOGLE_CLIENT_SECRET=your-google-client-secret
-GOOGLE_CALLBACK_URL=http://localhost:5000/.netlify/functions/server-cjs/auth/google/callback
+GOOGLE_CALLBACK_URL=http://localhost:5000/.netlify/functions/server/auth/google/callback
 
 # Client Configuration
 CLIENT_URL=http://localhost:5173
@@ -81,7 +81,7 @@ echo "2. In Netlify Dashboard, add these environment variables:"
 echo "   - SESSION_SECRET=$SESSION_SECRET"
 echo "   - MONGODB_URI=<your-mongodb-uri>"
 echo "   - CLIENT_URL=<your-netlify-site-url>"
-echo "   - GOOGLE_CALLBACK_URL=<your-netlify-site>/.netlify/functions/server-cjs/auth/google/callback"
+echo "   - GOOGLE_CALLBACK_URL=<your-netlify-site>/.netlify/functions/server/auth/google/callback"
 echo "   - NODE_ENV=production"
 echo ""
 echo "3. Deploy your changes:"
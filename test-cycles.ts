@@ -0,0 +1,98 @@
+// Billing cycle close check (services/ledgerService.ts, services/balanceService.ts)
+// Run with: tsx test-cycles.ts
+// Closes a cycle the way POST /api/cycles/:id/close does and checks the next
+// cycle's balances carry the closing balances forward exactly once, and that
+// payments already entered in a synced sheet aren't credited again.
+
+import { Person, CycleOpeningBalance } from './types';
+import { applyOpeningBalances, applyPayments, carriedOpeningBalances, paymentsSinceSync } from './services/ledgerService';
+import { calculateBalances } from './services/balanceService';
+
+let failures = 0;
+const check = (label: string, actual: any, expected: any) => {
+  if (actual === expected) {
+    console.log(`   ✅ ${label}`);
+  } else {
+    failures++;
+    console.log(`   ❌ ${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+};
+
+const person = (name: string, meals: number, contribution: number): Person =>
+  ({ id: name, name, email: `${name.toLowerCase()}@example.com`, meals, contribution });
+
+const balanceOf = (people: Person[], name: string) =>
+  calculateBalances(people).balances.find(b => b.name === name)?.balance;
+
+// Close a cycle: freeze the balances and open the next one with them carried forward
+const closeAndOpenNext = (people: Person[], closedAt: Date) => ({
+  startDate: closedAt,
+  openingBalances: calculateBalances(people).balances.map<CycleOpeningBalance>(b => ({
+    memberName: b.name,
+    amount: b.balance
+  }))
+});
+
+// Rate 10: Rahim paid 300 for 20 meals (+100), Karim paid 100 for 20 meals (-100)
+const sheetPeople = [person('Rahim', 20, 300), person('Karim', 20, 100)];
+const syncedBeforeClose = new Date('2026-03-31T09:00:00Z');
+const closedAt = new Date('2026-04-01T00:00:00Z');
+
+console.log('\n🔍 Billing Cycle Close Check\n');
+console.log('='.repeat(50));
+
+console.log('\n📄 Sheet-driven group, sheet not synced since the close');
+{
+  const next = closeAndOpenNext(sheetPeople, closedAt);
+  check('closing balance carried forward', next.openingBalances.find(o => o.memberName === 'Rahim')?.amount, 100);
+
+  // The synced sheet still holds last cycle's totals, which the carried balances came from
+  const people = applyOpeningBalances(sheetPeople, carriedOpeningBalances(next, syncedBeforeClose));
+  check('Rahim not doubled', balanceOf(people, 'Rahim'), 100);
+  check('Karim not doubled', balanceOf(people, 'Karim'), -100);
+
+  const neverSynced = applyOpeningBalances(sheetPeople, carriedOpeningBalances(next, null));
+  check('never-synced sheet not doubled', balanceOf(neverSynced, 'Rahim'), 100);
+}
+
+console.log('\n🔄 Sheet-driven group, new sheet synced after the close');
+{
+  const next = closeAndOpenNext(sheetPeople, closedAt);
+
+  // The new month's sheet starts from zero: 5 meals each, Rahim paid 100, Karim nothing
+  const freshSheet = [person('Rahim', 5, 100), person('Karim', 5, 0)];
+  const people = applyOpeningBalances(freshSheet, carriedOpeningBalances(next, new Date('2026-04-02T09:00:00Z')));
+  check('Rahim keeps his carried credit', balanceOf(people, 'Rahim'), 150);
+  check('Karim keeps his carried debt', balanceOf(people, 'Karim'), -150);
+}
+
+console.log('\n📒 Native ledger group');
+{
+  const next = closeAndOpenNext(sheetPeople, closedAt);
+
+  // Native ledgers only count entries dated inside the new cycle
+  const cyclePeople = [person('Rahim', 0, 0), person('Karim', 0, 0)];
+  const people = applyOpeningBalances(cyclePeople, carriedOpeningBalances(next));
+  check('opening balance applied', balanceOf(people, 'Rahim'), 100);
+  check('no cycle, no opening balances', carriedOpeningBalances(null).length, 0);
+}
+
+console.log('\n💸 Payments on a sheet-driven group');
+{
+  // Karim paid Rahim 100 in the app on the 2nd; the sheet read on the 3rd has it entered
+  const payments = [{ fromName: 'Karim', toName: 'Rahim', amount: 100, createdAt: '2026-04-02T10:00:00Z' }];
+  const resynced = [person('Rahim', 20, 200), person('Karim', 20, 200)];
+  const people = applyPayments(resynced, paymentsSinceSync(payments, new Date('2026-04-03T09:00:00Z')));
+  check('payment in the sheet not credited twice', balanceOf(people, 'Karim'), 0);
+
+  const stale = applyPayments(sheetPeople, paymentsSinceSync(payments, syncedBeforeClose));
+  check('payment after the last sync applied', balanceOf(stale, 'Karim'), 0);
+  check('all payments apply without a sync time', paymentsSinceSync(payments, undefined).length, 1);
+}
+
+console.log('\n' + '='.repeat(50));
+if (failures > 0) {
+  console.log(`\n❌ ${failures} check(s) failed\n`);
+  process.exit(1);
+}
+console.log('\n✅ Closing a cycle carries balances forward once and payments count once\n');
@@ -10,7 +10,7 @@ if [ -z "$1" ]; then
 fi
 
 NETLIFY_URL="$1"
-API_URL="${NETLIFY_URL}/.netlify/functions/server-cjs"
+API_URL="${NETLIFY_URL}/.netlify/functions/server"
 
 echo "🧪 Testing Netlify Email Endpoint"
 echo "API URL: $API_URL"
@@ -0,0 +1,247 @@
+// Fixture checks for the shared sheet parser (services/sheetParser.ts)
+// Run with: tsx test-parser.ts
+// Each fixture in fixtures/sheets is one of the sheet layouts we support.
+
+import { readFileSync } from 'fs';
+import XLSX from 'xlsx';
+import { normalizeSheetDate, parseSheetCSV, parseSheetRows, ParsedSheet } from './services/sheetParser';
+import { SheetLayout } from './types';
+import { parseCSVRows, parseNumber } from './services/csvReader';
+import { readWorkbook } from './server/services/workbookService';
+
+// Day-of-month grid dates are placed in this month
+const REFERENCE_DATE = new Date(2025, 11, 15);
+
+interface Expectation {
+  fixture: string;
+  description: string;
+  layout?: SheetLayout; // Saved column mapping the fixture is parsed with
+  check: (result: ParsedSheet) => [string, any, any][]; // [label, actual, expected]
+}
+
+const person = (result: ParsedSheet, name: string) => result.people.find(p => p.name === name);
+
+const expectations: Expectation[] = [
+  {
+    fixture: 'summary-grid.csv',
+    description: 'Meal grid with joma columns, summary table and Mil Rate',
+    check: r => [
+      ['meal rate', r.extractedRate, 62.5],
+      ['people', r.people.map(p => p.name).join(','), 'Rahim,Karim,Sakib'],
+      ['Rahim meals (grid total)', person(r, 'Rahim')?.meals, 5.5],
+      ['Karim balance (summary)', person(r, 'Karim')?.customBalance, -137.5],
+      ['Sakib contribution (cost + balance)', person(r, 'Sakib')?.contribution, 1000],
+      ['meal entries', r.mealEntries.length, 9],
+      ['first meal entry date', r.mealEntries[0]?.date, '2025-12-01'],
+      ['deposits', r.deposits.map(d => `${d.memberName}:${d.amount}@${d.date}`).join(','),
+        'Rahim:500@2025-12-01,Sakib:1000@2025-12-01,Karim:300@2025-12-02'],
+      ['has contribution', r.hasContribution, true]
+    ]
+  },
+  {
+    fixture: 'dated-grid-crlf.csv',
+    description: 'Full dates, Windows line endings, Rate row under the summary',
+    check: r => [
+      ['meal rate', r.extractedRate, 60],
+      ['people', r.people.map(p => p.name).join(','), 'Rahim,Karim'],
+      ['Karim meals', person(r, 'Karim')?.meals, 8],
+      ['meal entry dates', Array.from(new Set(r.mealEntries.map(e => e.date))).join(','), '2025-12-01,2025-12-02,2025-12-03'],
+      ['Rahim balance', person(r, 'Rahim')?.customBalance, 640]
+    ]
+  },
+  {
+    fixture: 'simple-list.csv',
+    description: 'Name / Meals / Paid list with a quoted name',
+    check: r => [
+      ['meal rate', r.extractedRate, undefined],
+      ['people', r.people.map(p => p.name).join('|'), 'Rahim|Karim|Hasan, Jr'],
+      ['Karim meals', person(r, 'Karim')?.meals, 52.5],
+      ['Hasan contribution (blank)', person(r, 'Hasan, Jr')?.contribution, 0],
+      ['has contribution', r.hasContribution, true]
+    ]
+  },
+  {
+    fixture: 'legacy-totals.csv',
+    description: 'Total Meals / Total Deposit list with Meal Rate and Total rows',
+    check: r => [
+      ['meal rate', r.extractedRate, 58.5],
+      ['people', r.people.map(p => p.name).join(','), 'Rahim,Karim'],
+      ['Rahim contribution', person(r, 'Rahim')?.contribution, 3000]
+    ]
+  },
+  {
+    fixture: 'formatted-numbers.csv',
+    description: 'Escaped quotes, a multi-line note, thousands separators, ৳ and Bangla digits',
+    check: r => [
+      ['people', r.people.map(p => p.name).join('|'), 'Rahim "Bhai"|Karim|Sakib'],
+      ['Rahim meals (Bangla digits)', person(r, 'Rahim "Bhai"')?.meals, 45],
+      ['Rahim contribution (৳3,000)', person(r, 'Rahim "Bhai"')?.contribution, 3000],
+      ['Karim contribution (1,250.50)', person(r, 'Karim')?.contribution, 1250.5],
+      ['Sakib meals (১২.৫)', person(r, 'Sakib')?.meals, 12.5],
+      ['Sakib contribution ((200))', person(r, 'Sakib')?.contribution, -200]
+    ]
+  },
+  {
+    fixture: 'mismatched-names.csv',
+    description: 'Diagnostics: a misspelt member, a holiday row and a note in a meal cell',
+    check: r => [
+      ['strategy', r.diagnostics.strategy, 'summary-table'],
+      ['rate cell', r.diagnostics.rateCell, 'B11'],
+      ['header rows', `${r.diagnostics.gridHeaderRow},${r.diagnostics.summaryHeaderRow}`, '1,7'],
+      ['skipped rows', r.diagnostics.skippedRows.map(s => s.row).join(','), '3,4'],
+      ['name mismatches', r.diagnostics.nameMismatches.map(m => `${m.name}:${m.missingFrom}`).join(','), 'Sakib:summary,Sakeb:grid'],
+      ['Sakeb meals (from cost)', person(r, 'Sakeb')?.meals, 5]
+    ]
+  },
+  {
+    fixture: 'custom-layout.csv',
+    description: 'Unusual headers, read through a saved layout',
+    layout: {
+      rateCell: 'C2',
+      gridHeaderRow: 4,
+      depositLabel: 'Deposit',
+      ignoredColumns: ['Sum'],
+      summaryHeaderRow: 9,
+      summaryNameColumn: 'A',
+      summaryCostColumn: 'B',
+      summaryBalanceColumn: 'C'
+    },
+    check: r => [
+      ['layout used', r.diagnostics.layoutUsed, true],
+      ['strategy', r.diagnostics.strategy, 'summary-table'],
+      ['meal rate', r.extractedRate, 55],
+      ['people', r.people.map(p => p.name).join(','), 'Anik,Bappy'],
+      ['Anik meals', person(r, 'Anik')?.meals, 4],
+      ['Bappy balance', person(r, 'Bappy')?.customBalance, 525],
+      ['deposits', r.deposits.map(d => `${d.memberName}:${d.amount}@${d.date}`).join(','),
+        'Anik:1000@2025-12-01,Bappy:800@2025-12-02']
+    ]
+  }
+];
+
+// Number cells on their own: [cell, decimal separator, expected]
+const numberCases: [string, '.' | ',', number][] = [
+  ['1,200', '.', 1200],
+  ['1,20,000', '.', 120000],
+  ['৳500', '.', 500],
+  ['Tk. 62.50', '.', 62.5],
+  ['১,২০০.৫', '.', 1200.5],
+  ['−45', '.', -45],
+  ['1.200,50', ',', 1200.5],
+  ['2 (guest)', '.', NaN],
+  ['', '.', NaN]
+];
+
+// Grid date cells on their own: [cell, expected] (undefined is not a date)
+const dateCases: [string, string | undefined][] = [
+  ['5', '2025-12-05'],
+  ['01/12/2025', '2025-12-01'],
+  ['1.12.25', '2025-12-01'],
+  ['12/31/2025', '2025-12-31'],
+  ['2025-12-01', '2025-12-01'],
+  ['1 Dec 2025', '2025-12-01'],
+  ['31/02/2025', undefined],
+  ['2025-31-12', undefined],
+  ['31 Feb 2025', undefined],
+  ['13/13/2025', undefined],
+  ['0', undefined]
+];
+
+console.log('\n🔍 Sheet Parser Fixture Check\n');
+console.log('='.repeat(50));
+
+let failures = 0;
+
+for (const { fixture, description, layout, check } of expectations) {
+  console.log(`\n📄 ${fixture} — ${description}`);
+
+  const csv = readFileSync(new URL(`./fixtures/sheets/${fixture}`, import.meta.url), 'utf8');
+  const result = parseSheetCSV(csv, { reference: REFERENCE_DATE, layout });
+
+  for (const [label, actual, expected] of check(result)) {
+    if (actual === expected) {
+      console.log(`   ✅ ${label}`);
+    } else {
+      failures++;
+      console.log(`   ❌ ${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+    }
+  }
+}
+
+console.log('\n🔢 Number cells');
+for (const [cell, decimal, expected] of numberCases) {
+  const actual = parseNumber(cell, { decimal });
+  if (Object.is(actual, expected)) {
+    console.log(`   ✅ ${JSON.stringify(cell)} → ${actual}`);
+  } else {
+    failures++;
+    console.log(`   ❌ ${JSON.stringify(cell)}: expected ${expected}, got ${actual}`);
+  }
+}
+
+console.log('\n📅 Grid dates');
+for (const [cell, expected] of dateCases) {
+  const actual = normalizeSheetDate(cell, REFERENCE_DATE);
+  if (actual === expected) {
+    console.log(`   ✅ ${JSON.stringify(cell)} → ${actual}`);
+  } else {
+    failures++;
+    console.log(`   ❌ ${JSON.stringify(cell)}: expected ${expected}, got ${actual}`);
+  }
+}
+
+// A day-of-month grid with meals on days that haven't come yet this month is last month's;
+// "31" doesn't exist in November and is reported instead
+{
+  const grid = [['Date', 'Rahim', 'Karim'], ['30', 2, 1], ['31', 1, 1], ['Total', 3, 2]];
+  const early = parseSheetRows(grid, { reference: new Date(2025, 11, 2) });
+  const late = parseSheetRows(grid, { reference: new Date(2026, 0, 31) });
+  const checks: [string, any, any][] = [
+    ['past days go in last month', Array.from(new Set(early.mealEntries.map(e => e.date))).join(','), '2025-11-30'],
+    ['missing day reported', early.diagnostics.skippedRows.map(s => s.row).join(','), '3'],
+    ['recorded days stay in this month', Array.from(new Set(late.mealEntries.map(e => e.date))).join(','), '2026-01-30,2026-01-31']
+  ];
+  for (const [label, actual, expected] of checks) {
+    if (actual === expected) {
+      console.log(`   ✅ ${label}`);
+    } else {
+      failures++;
+      console.log(`   ❌ ${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+    }
+  }
+}
+
+// Uploaded workbooks: the summary-grid fixture saved as a real spreadsheet, behind an empty tab
+console.log('\n📗 Workbook uploads');
+const gridCells = parseCSVRows(readFileSync(new URL('./fixtures/sheets/summary-grid.csv', import.meta.url), 'utf8'))
+  .map(row => row.map(cell => cell !== '' && !isNaN(Number(cell)) ? Number(cell) : cell));
+const workbook = XLSX.utils.book_new();
+XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([]), 'Notes');
+XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(gridCells), 'December');
+
+for (const bookType of ['xlsx', 'ods'] as const) {
+  const tabs = readWorkbook(XLSX.write(workbook, { type: 'buffer', bookType }), `mess.${bookType}`);
+  const december = tabs.find(tab => tab.name === 'December');
+  const result = parseSheetRows(december?.values || [], { reference: REFERENCE_DATE });
+  const checks: [string, any, any][] = [
+    ['tabs', tabs.map(tab => tab.name).join(','), 'Notes,December'],
+    ['meal rate', result.extractedRate, 62.5],
+    ['people', result.people.map(p => p.name).join(','), 'Rahim,Karim,Sakib'],
+    ['Karim balance', person(result, 'Karim')?.customBalance, -137.5]
+  ];
+  for (const [label, actual, expected] of checks) {
+    if (actual === expected) {
+      console.log(`   ✅ .${bookType} ${label}`);
+    } else {
+      failures++;
+      console.log(`   ❌ .${bookType} ${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+    }
+  }
+}
+
+console.log('\n' + '='.repeat(50));
+if (failures > 0) {
+  console.log(`\n❌ ${failures} check(s) failed\n`);
+  process.exit(1);
+}
+console.log('\n✅ All fixtures parsed as expected\n');
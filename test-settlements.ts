@@ -0,0 +1,118 @@
+// Settle-up planner check (services/settlementService.ts)
+// Run with: tsx test-settlements.ts
+// Plans transfers for hand-made balances and checks the plan settles everyone
+// with as few transfers as the exact search (or, for big groups, greedy) finds.
+
+import { Balance, SettlementPlan } from './types';
+import { planSettlements, MESS_FUND } from './services/settlementService';
+
+let failures = 0;
+const check = (label: string, actual: any, expected: any) => {
+  if (actual === expected) {
+    console.log(`   ✅ ${label}`);
+  } else {
+    failures++;
+    console.log(`   ❌ ${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+};
+
+const balances = (entries: [string, number][]): Balance[] =>
+  entries.map(([name, balance]) => ({
+    personId: name,
+    name,
+    meals: 0,
+    contribution: 0,
+    cost: 0,
+    balance,
+    status: balance < 0 ? 'OWES' : balance > 0 ? 'OWED' : 'SETTLED'
+  }));
+
+// What each party still has to pay (< 0) or get back (> 0) after the plan, in cents
+const remaining = (input: Balance[], plan: SettlementPlan) => {
+  const cents = new Map<string, number>(input.map(b => [b.name, Math.round(b.balance * 100)]));
+  cents.set(MESS_FUND, Math.round(plan.fundDifference * 100));
+  for (const t of plan.transfers) {
+    cents.set(t.from, (cents.get(t.from) || 0) + Math.round(t.amount * 100));
+    cents.set(t.to, (cents.get(t.to) || 0) - Math.round(t.amount * 100));
+  }
+  return cents;
+};
+
+// Everyone ends within a cent of zero (rounding leftovers go to the biggest balance)
+const settlesEveryone = (input: Balance[], plan: SettlementPlan) =>
+  Array.from(remaining(input, plan).values()).every(c => Math.abs(c) <= 1);
+
+// Two creditors and three debtors; greedy pairs the biggest first and needs
+// four transfers, but {60: 30 + 30} and {40: 40} settle in three
+const pattern = (suffix: string, scale: number): [string, number][] => [
+  [`A${suffix}`, 60 * scale],
+  [`B${suffix}`, 40 * scale],
+  [`C${suffix}`, -30 * scale],
+  [`D${suffix}`, -30 * scale],
+  [`E${suffix}`, -40 * scale]
+];
+
+console.log('\n🔍 Settlement Planner Check\n');
+console.log('='.repeat(50));
+
+console.log('\n⚖️  Everyone square');
+{
+  const input = balances([['Rahim', 0], ['Karim', 0.5], ['Sakib', -0.75]]);
+  const plan = planSettlements(input);
+  check('no transfers', plan.transfers.length, 0);
+  check('nothing to pay', plan.totalAmount, 0);
+  check('no fund difference', plan.fundDifference, 0);
+  check('empty group', planSettlements([]).transfers.length, 0);
+}
+
+console.log('\n🎯 Exact search');
+{
+  const input = balances(pattern('', 1));
+  const plan = planSettlements(input);
+  check('3 transfers instead of greedy 4', plan.transfers.length, 3);
+  check('settles everyone', settlesEveryone(input, plan), true);
+  check('total paid', plan.totalAmount, 100);
+  check('E pays B directly', plan.transfers.some(t => t.from === 'E' && t.to === 'B' && t.amount === 40), true);
+}
+
+console.log('\n✂️  Exact / greedy cutoff');
+{
+  // 15 parties: still searched exactly, so each copy settles in 3 transfers
+  const exact = balances([...pattern('1', 1), ...pattern('2', 10), ...pattern('3', 100)]);
+  const exactPlan = planSettlements(exact);
+  check('15 parties searched exactly', exactPlan.transfers.length, 9);
+  check('15 parties settled', settlesEveryone(exact, exactPlan), true);
+
+  // One more pair pushes it past the cutoff; greedy still settles everyone,
+  // just not in the fewest transfers
+  const greedy = balances([...pattern('1', 1), ...pattern('2', 10), ...pattern('3', 100), ['X', 7], ['Y', -7]]);
+  const greedyPlan = planSettlements(greedy);
+  check('17 parties fall back to greedy (exact would take 10)', greedyPlan.transfers.length, 13);
+  check('17 parties settled', settlesEveryone(greedy, greedyPlan), true);
+}
+
+console.log('\n🪙 Rounding');
+{
+  // Thirds don't split evenly into cents; the leftover cent goes to the biggest balance
+  const input = balances([['Rahim', 33.333], ['Karim', -16.667], ['Sakib', -16.666]]);
+  const plan = planSettlements(input);
+  check('2 transfers', plan.transfers.length, 2);
+  check('amounts in whole cents', plan.transfers.map(t => t.amount).join(','), '16.67,16.67');
+  check('total paid', plan.totalAmount, 33.34);
+  check('no fund difference', plan.fundDifference, 0);
+  check('settles everyone', settlesEveryone(input, plan), true);
+
+  // A gap bigger than the tolerance is settled through the mess fund instead
+  const short = balances([['Rahim', 100], ['Karim', -60.5]]);
+  const shortPlan = planSettlements(short);
+  check('fund difference (paid out of the fund)', shortPlan.fundDifference, -39.5);
+  check('mess fund pays the gap', shortPlan.transfers.some(t => t.from === MESS_FUND && t.to === 'Rahim' && t.amount === 39.5), true);
+  check('fund gap settles everyone', settlesEveryone(short, shortPlan), true);
+}
+
+console.log('\n' + '='.repeat(50));
+if (failures > 0) {
+  console.log(`\n❌ ${failures} check(s) failed\n`);
+  process.exit(1);
+}
+console.log('\n✅ Settlement plans are minimal and balanced\n');
@@ -0,0 +1,133 @@
+// Sheets API sync check against a local stub of the API
+// Run with: tsx test-sheets-api.ts
+// Starts a tiny HTTP server that answers spreadsheets.values.get the way
+// Google does, points GOOGLE_SHEETS_API_URL at it and parses the typed cells.
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { SheetCell } from './types';
+
+const SPREADSHEET_ID = '1AbCdEfGhIjKlMnOpQrStUvWxYz0123456789';
+
+// The summary-grid fixture as the API returns it with UNFORMATTED_VALUE:
+// numbers are numbers, dates are the sheet's formatted text
+const VALUES: SheetCell[][] = [
+  ['Mess Sheet - December'],
+  ['Mil Rate', 62.5],
+  [],
+  ['Date', 'Rahim', 'Joma', 'Karim', 'Joma', 'Total'],
+  ['01/12/2025', 2, 500, 3, '', 5],
+  ['02/12/2025', 3.5, '', 2, 300, 5.5],
+  ['Total', 5.5, 500, 5, 300, 10.5],
+  [],
+  ['Name', 'Cost', 'Available Balance'],
+  ['Rahim', 343.75, 156.25],
+  ['Karim', 312.5, -12.5]
+];
+
+const requests: URL[] = [];
+
+const stub = http.createServer((req, res) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  requests.push(url);
+
+  // spreadsheets.get, used to check a manager can open the sheet
+  const sheet = url.pathname.match(/^\/v4\/spreadsheets\/([^/]+)$/);
+  if (sheet && sheet[1] === SPREADSHEET_ID) {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ spreadsheetId: SPREADSHEET_ID }));
+    return;
+  }
+
+  const match = url.pathname.match(/^\/v4\/spreadsheets\/([^/]+)\/values\/(.+)$/);
+  if (!match || match[1] !== SPREADSHEET_ID) {
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: { code: 404, message: 'Requested entity was not found.' } }));
+    return;
+  }
+
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ range: decodeURIComponent(match[2]), majorDimension: 'ROWS', values: VALUES }));
+});
+
+let failures = 0;
+const check = (label: string, actual: any, expected: any) => {
+  if (actual === expected) {
+    console.log(`   ✅ ${label}`);
+  } else {
+    failures++;
+    console.log(`   ❌ ${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+};
+
+const run = async () => {
+  await new Promise<void>(resolve => stub.listen(0, '127.0.0.1', resolve));
+  const { port } = stub.address() as AddressInfo;
+  process.env.GOOGLE_SHEETS_API_URL = `http://127.0.0.1:${port}/`;
+
+  // Imported after the env var is set, like the server does at startup
+  const { canReadSpreadsheet, fetchSheetsApiValues, parseSpreadsheetId, sheetsApiRange } = await import('./server/services/sheetsApiService.js');
+  const { parseSheetRows } = await import('./services/sheetParser.js');
+
+  console.log('\n🔍 Sheets API Check\n');
+  console.log('='.repeat(50));
+
+  console.log('\n🔗 Source settings');
+  check('ID from URL', parseSpreadsheetId(`https://docs.google.com/spreadsheets/d/${SPREADSHEET_ID}/edit#gid=0`), SPREADSHEET_ID);
+  check('bare ID', parseSpreadsheetId(SPREADSHEET_ID), SPREADSHEET_ID);
+  check('invalid ID', parseSpreadsheetId('not a sheet'), undefined);
+  check('tab and range', sheetsApiRange({ spreadsheetId: SPREADSHEET_ID, tab: "Dec '25", range: 'A1:F20' }), "'Dec ''25'!A1:F20");
+  check('whole tab', sheetsApiRange({ spreadsheetId: SPREADSHEET_ID, tab: 'Meals' }), "'Meals'");
+
+  console.log('\n📡 Reading through the stub');
+  const values = await fetchSheetsApiValues({ spreadsheetId: SPREADSHEET_ID, tab: 'Meals' }, null);
+  const query = requests[requests.length - 1]?.searchParams;
+  check('asks for typed values', query?.get('valueRenderOption'), 'UNFORMATTED_VALUE');
+  check('asks for formatted dates', query?.get('dateTimeRenderOption'), 'FORMATTED_STRING');
+  check('rows returned', values.length, VALUES.length);
+
+  const result = parseSheetRows(values, { reference: new Date(2025, 11, 15) });
+  const person = (name: string) => result.people.find(p => p.name === name);
+  check('meal rate', result.extractedRate, 62.5);
+  check('people', result.people.map(p => p.name).join(','), 'Rahim,Karim');
+  check('Rahim meals', person('Rahim')?.meals, 5.5);
+  check('Karim balance', person('Karim')?.customBalance, -12.5);
+  check('deposits', result.deposits.map(d => `${d.memberName}:${d.amount}@${d.date}`).join(','),
+    'Rahim:500@2025-12-01,Karim:300@2025-12-02');
+
+  console.log('\n🚫 Unknown spreadsheet');
+  try {
+    await fetchSheetsApiValues({ spreadsheetId: 'missing-spreadsheet-id' }, null);
+    check('rejects', false, true);
+  } catch {
+    check('rejects', true, true);
+  }
+  check('can open linked sheet', await canReadSpreadsheet(SPREADSHEET_ID, null), true);
+  check('cannot open unknown sheet', await canReadSpreadsheet('missing-spreadsheet-id', null), false);
+
+  // Against Google itself, a sheet is only read with a manager's own Sheets grant
+  console.log('\n🔐 Without a Google grant');
+  delete process.env.GOOGLE_SHEETS_API_URL;
+  check('cannot open without a grant', await canReadSpreadsheet(SPREADSHEET_ID, null), false);
+  try {
+    await fetchSheetsApiValues({ spreadsheetId: SPREADSHEET_ID }, null);
+    check('read rejected without a grant', false, true);
+  } catch (error: any) {
+    check('read rejected without a grant', /No Google account/.test(error.message), true);
+  }
+};
+
+run()
+  .catch(error => {
+    failures++;
+    console.error('❌ Check crashed:', error);
+  })
+  .finally(() => {
+    stub.close();
+    console.log('\n' + '='.repeat(50));
+    if (failures > 0) {
+      console.log(`\n❌ ${failures} check(s) failed\n`);
+      process.exit(1);
+    }
+    console.log('\n✅ Sheets API sync works against the stub\n');
+  });
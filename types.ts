@@ -5,6 +5,10 @@ export interface Person {
   meals: number;       // Number of meals consumed
   contribution: number; // Total money paid or 'Bazar' done
   customBalance?: number; // Optional: Force a specific balance (e.g. from Sheet)
+  openingBalance?: number; // Optional: Balance carried forward from the previous cycle
+  guestMeals?: number; // Optional: Guest meals charged to this member as host (rate-weighted)
+  fixedShare?: number; // Optional: This member's share of the cycle's fixed costs
+  settledAmount?: number; // Optional: Settlement payments made minus received
 }
 
 export interface Expense {
@@ -15,16 +19,142 @@ export interface Expense {
   date: string;
 }
 
+export interface MealType {
+  key: string;    // Stable identifier, e.g. 'breakfast'
+  label: string;
+  weight: number; // Meal units one meal of this type counts for
+}
+
+// Meals eaten per meal type key, e.g. { breakfast: 1, dinner: 1 }
+export type MealCounts = Record<string, number>;
+
+export interface MealEntry {
+  id?: string;
+  memberName: string; // The name exactly as it appears in the sheet grid
+  date: string;       // Day of the meal (YYYY-MM-DD)
+  meals: number;      // Weighted meal units
+  byType?: MealCounts; // Per-type counts, for entries recorded by meal type
+  source?: 'sheet' | 'manual';
+}
+
+export interface DepositEntry {
+  memberName: string; // The member the joma column belongs to
+  date: string;       // Day of the deposit (YYYY-MM-DD)
+  amount: number;
+}
+
+export type DepositMethod = 'cash' | 'bkash' | 'nagad' | 'bank' | 'other';
+
+export interface Deposit {
+  id: string;
+  memberName: string;
+  amount: number;
+  date: string;
+  method: DepositMethod;
+  note?: string;
+  source: 'manual' | 'sheet';
+}
+
+export interface GuestMeal {
+  id: string;
+  hostName: string;    // Member charged for the guest (matches DBMember.sheetName)
+  guestName?: string;
+  date: string;
+  meals: number;
+  multiplier: number;  // Guest meals cost meals * multiplier at the meal rate
+  note?: string;
+}
+
+export interface FixedCostShare {
+  memberName: string;
+  share: number; // Relative weight, e.g. 2 pays twice as much as 1
+}
+
+// Rent, gas, maid, internet: split equally (or by shares) instead of through the meal rate
+export interface FixedCost {
+  id: string;
+  name: string;
+  amount: number;
+  split: 'equal' | 'shares';
+  shares: FixedCostShare[];
+  recurring: boolean; // Copied into the next billing cycle when it opens
+}
+
 export interface Balance {
   personId: string;
   name: string;
   meals: number;
   contribution: number;
-  cost: number;        // The calculated cost for their meals
+  cost: number;        // Total cost: meal cost + fixed share
+  mealCost?: number;   // Variable part: (meals + guest meals) * rate
+  fixedShare?: number; // Share of fixed costs (rent, gas, internet...)
+  guestMeals?: number; // Guest meals they hosted, included in cost
   balance: number;     // contribution - cost
   status: 'OWES' | 'OWED' | 'SETTLED';
 }
 
+export interface SettlementTransfer {
+  from: string;   // Member (or the mess fund) who pays
+  to: string;     // Member (or the mess fund) who receives
+  amount: number;
+}
+
+export interface SettlementPlan {
+  transfers: SettlementTransfer[];
+  totalAmount: number;
+  fundDifference: number; // Net amount members pay into the mess fund (negative: paid out of it)
+}
+
+// A recorded settlement; a missing payer/receiver means the mess fund
+export interface Payment {
+  id: string;
+  fromName?: string;
+  toName?: string;
+  amount: number;
+  date: string;
+  method: DepositMethod;
+  note?: string;
+  createdAt?: string; // When it was recorded in the app
+}
+
+export interface ReminderLogEntry {
+  id: string;
+  memberName: string;
+  message: string;
+  amountOwed: number;
+  trigger: 'manual' | 'scheduled';
+  status: 'open' | 'resolved';
+  sentAt: string;
+  resolvedAt?: string;
+  payment?: { amount: number; date: string; method: DepositMethod };
+}
+
+export interface CycleOpeningBalance {
+  memberName: string;
+  amount: number;
+}
+
+export interface CycleClosingBalance {
+  memberName: string;
+  meals: number;
+  contribution: number;
+  cost: number;
+  balance: number;
+}
+
+export interface BillingCycle {
+  id: string;
+  label: string;       // Month of the cycle (YYYY-MM)
+  startDate: string;
+  endDate?: string;
+  status: 'open' | 'closed';
+  mealRate?: number;   // Frozen when the cycle is closed
+  totalCost?: number;
+  totalMeals?: number;
+  openingBalances: CycleOpeningBalance[];
+  closingBalances: CycleClosingBalance[];
+}
+
 export interface Reminder {
   personId: string;
   name: string;
@@ -51,4 +181,221 @@ export interface User {
   email: string;
   name: string;
   photoURL?: string; // New field for Google Avatar
-}
\ No newline at end of file
+  role?: 'manager' | 'member'; // Members only get the read-only portal
+}
+
+// A member's own view of their account, served by /api/portal/me
+export interface MemberStatement {
+  groupId: string;
+  groupName: string;
+  money: MoneySettings;
+  memberName: string;
+  cycleLabel: string | null;
+  mealRate: number;
+  balance: Balance | null;
+  meals: { date: string; meals: number }[];
+  deposits: { id: string; amount: number; date: string; method: DepositMethod; note?: string }[];
+  guestMeals: { id: string; guestName?: string; date: string; meals: number; multiplier: number; cost: number }[];
+  history: {
+    label: string;
+    mealRate: number | null;
+    meals: number;
+    contribution: number;
+    cost: number;
+    balance: number;
+  }[];
+  memberships: { groupId: string; groupName: string; memberName: string }[];
+}
+
+// A mess managed by the user; owns its own sheet, members and schedules
+export interface AuditChange {
+  field: string; // e.g. 'email' or 'people[Rahim].meals'
+  before: any;
+  after: any;
+}
+
+// Who changed what in members, sheet settings, synced data or notifications
+export interface AuditEvent {
+  id: string;
+  actorEmail: string; // 'scheduler' for automatic syncs
+  action: string;     // e.g. 'member.update', 'sheet.data.save'
+  target?: string;
+  changes: AuditChange[];
+  createdAt: string;
+}
+
+// Projected end-of-cycle position of one member
+export interface MemberForecast {
+  name: string;
+  projectedMeals: number;   // Meal units by the end of the cycle at their pace so far
+  projectedBalance: number; // At the projected meal rate
+  low: number;              // Balance range across the rate's confidence band
+  high: number;
+}
+
+// One day of the projected meal rate, with its confidence band
+export interface ForecastPoint {
+  date: string; // YYYY-MM-DD
+  rate: number;
+  low: number;
+  high: number;
+}
+
+export interface CycleForecast {
+  asOf: string;       // YYYY-MM-DD
+  cycleEnd: string;   // Last day of the cycle, YYYY-MM-DD
+  elapsedDays: number;
+  remainingDays: number;
+  confidence: number; // e.g. 0.9 for a 90% band
+  currentRate: number;
+  projectedRate: number;
+  rateLow: number;
+  rateHigh: number;
+  projectedCost: number;
+  projectedMeals: number;
+  points: ForecastPoint[];
+  members: MemberForecast[];
+}
+
+// Per-member values stored in a balance snapshot
+export interface SnapshotPerson {
+  name: string;
+  meals: number;
+  contribution: number;
+  cost: number;
+  balance: number;
+}
+
+// Immutable record of everyone's balance right after a sync
+export interface BalanceSnapshot {
+  id: string;
+  takenAt: string;
+  source: SyncedDataVersion['source']; // The sync that produced it
+  mealRate: number;
+  totalCost: number;
+  totalMeals: number;
+  people: SnapshotPerson[];
+}
+
+// Currency code (ISO 4217, e.g. 'BDT') and locale (BCP 47, e.g. 'en-BD') money is shown in
+export interface MoneySettings {
+  currency: string;
+  locale: string;
+}
+
+export interface Group extends MoneySettings {
+  _id: string;
+  name: string;
+  isActive: boolean;
+}
+// Thresholds past which a scheduled sync is held for review instead of applied
+export interface SyncLimits {
+  maxRemovedMembers: number;    // Members that may disappear from the sheet
+  maxMealDrop: number;          // Meals a member's count may fall by (counts normally only grow)
+  maxBalanceChange: number;     // Largest swing in any one member's balance
+  maxRateChangePercent: number; // Largest change in the meal rate, in percent
+}
+
+// How one member's synced figures would change
+export interface SyncMemberChange {
+  name: string;
+  mealsBefore: number;
+  mealsAfter: number;
+  contributionBefore: number;
+  contributionAfter: number;
+  balanceBefore: number;
+  balanceAfter: number;
+}
+
+export type SyncAnomalyKind =
+  | 'member-removed'
+  | 'meal-drop'
+  | 'balance-swing'
+  | 'rate-jump'
+  | 'negative-meals'
+  | 'negative-contribution'
+  | 'unreconciled';
+
+// Something suspicious about incoming sheet data. Critical ones hold scheduled syncs.
+export interface SyncAnomaly {
+  kind: SyncAnomalyKind;
+  severity: 'critical' | 'warning';
+  member?: string;
+  message: string;
+}
+
+// What applying a sync would change, compared with the data synced last time
+export interface SyncDiff {
+  added: string[];
+  removed: string[];
+  changed: SyncMemberChange[];
+  unchangedCount: number;
+  rateBefore: number;
+  rateAfter: number;
+  anomalies: SyncAnomaly[];
+  violations: string[]; // Messages of the critical anomalies; empty when the sync is safe to apply
+}
+
+// A scheduled sync that went past the limits and is waiting for a manager
+export interface PendingSync {
+  fetchedAt: string;
+  diff: SyncDiff;
+}
+
+// A stored copy of the synced sheet data that can be restored
+export interface SyncedDataVersion {
+  id: string;
+  createdAt: string;
+  source: 'manual' | 'scheduled' | 'approved' | 'restore' | 'upload';
+  actorEmail: string; // 'scheduler' for automatic syncs
+  sheetMealRate: number | null;
+  peopleCount: number;
+  totalMeals: number;
+  restoredFrom?: string;
+  anomalies: SyncAnomaly[]; // Found when this version was synced
+}
+
+// Where a group's sheet data comes from: a "Publish to web" CSV link, the Google Sheets API
+// or a file uploaded from the dashboard (which is never synced on a schedule)
+export type SheetSource = 'csv' | 'api' | 'upload';
+
+export interface SheetsApiSource {
+  spreadsheetId: string;
+  tab?: string;   // Sheet tab name; the first tab when blank
+  range?: string; // A1 range within the tab, e.g. 'A1:Z200'; the whole tab when blank
+}
+
+// A typed cell as the Sheets API returns it; CSV cells are always strings
+export type SheetCell = string | number | boolean | null;
+
+// How the sheet parser read a sheet, shown when a sync finds nothing or looks wrong.
+// Row numbers are 1-based, as the spreadsheet shows them.
+export interface SheetDiagnostics {
+  strategy: 'summary-table' | 'simple-list' | 'none'; // Which table the members were read from
+  layoutUsed: boolean;      // Whether any part of the saved layout matched the sheet
+  rowCount: number;
+  rateCell?: string;        // Where the meal rate was read, e.g. 'B3'
+  gridHeaderRow?: number;   // The meal grid's Date / member names row
+  summaryHeaderRow?: number;
+  listHeaderRow?: number;   // Header of the simple Name / Meals / Paid list
+  skippedRows: { row: number; reason: string }[];
+  nameMismatches: { name: string; missingFrom: 'grid' | 'summary' }[];
+}
+
+// One tab of an uploaded workbook (a CSV file is a single tab)
+export interface WorkbookTab {
+  name: string;
+  values: SheetCell[][];
+}
+
+// Where things are in a group's sheet. Blank fields fall back to the built-in header detection.
+export interface SheetLayout {
+  rateCell?: string;             // A1-style reference of the meal rate value, e.g. 'B3'
+  gridHeaderRow?: number;        // 1-based row holding the grid's date column and member names
+  depositLabel?: string;         // Header of the deposit column after each member (default 'Joma')
+  ignoredColumns?: string[];     // Grid headers that aren't members (default 'Total', 'Tot / Day')
+  summaryHeaderRow?: number;     // 1-based row of the summary table's header
+  summaryNameColumn?: string;    // Column letters, e.g. 'A'
+  summaryCostColumn?: string;
+  summaryBalanceColumn?: string;
+}